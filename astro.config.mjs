@@ -22,7 +22,7 @@ export default defineConfig({
   adapter: cloudflare({
     workerEntryPoint: {
       path: 'src/worker.ts',
-      namedExports: ['SecStreamSession']
+      namedExports: ['SecStreamSession', 'RateLimiter', 'SessionRegistry', 'MetricsCollector']
     }
   }),
   output: 'server',
@@ -0,0 +1,68 @@
+/**
+ * Recover the forensic watermark ID from a captured recording
+ *
+ * Usage:
+ *   pnpm watermark:extract <capture.wav> [--start <seconds>] [--search <ms>]
+ *
+ * The capture must be 16-bit PCM WAV at the sample rate that was streamed (44.1kHz,
+ * or 22.05kHz for the reduced quality tiers - try both if unknown); convert other
+ * formats first, e.g. `ffmpeg -i leak.mp3 -ar 44100 -c:a pcm_s16le leak.wav`.
+ * --start is where the capture begins in the track (default 0) and --search
+ * how far either side of it to look for the alignment (default 50ms).
+ *
+ * Look the printed ID up with GET /api/admin/watermarks/<watermarkId>.
+ * Runs directly on Node 22.6+ (type stripping).
+ */
+
+import { readFileSync } from 'node:fs';
+import { extractWatermark, getWavSampleRate } from '../src/utils/audio/watermark.ts';
+
+function usage(): never {
+  console.error('Usage: pnpm watermark:extract <capture.wav> [--start <seconds>] [--search <ms>]');
+  process.exit(2);
+}
+
+function parseArgs(argv: string[]): { file: string; startSeconds: number; searchMs: number } {
+  let file: string | undefined;
+  let startSeconds = 0;
+  let searchMs = 50;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--start' || arg === '--search') {
+      const value = Number(argv[++i]);
+      if (!Number.isFinite(value) || value < 0) usage();
+      if (arg === '--start') startSeconds = value;
+      else searchMs = value;
+    } else if (!file && !arg.startsWith('--')) {
+      file = arg;
+    } else {
+      usage();
+    }
+  }
+
+  if (!file) usage();
+  return { file, startSeconds, searchMs };
+}
+
+const { file, startSeconds, searchMs } = parseArgs(process.argv.slice(2));
+const data = readFileSync(file);
+const wavData = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+const sampleRate = getWavSampleRate(wavData);
+
+console.log(`🔍 Searching ${file} for a watermark (start ${startSeconds}s ± ${searchMs}ms)...`);
+const startTime = Date.now();
+const result = extractWatermark(wavData, {
+  startSamples: Math.round(startSeconds * sampleRate),
+  searchSamples: Math.round((searchMs / 1000) * sampleRate),
+});
+
+if (!result) {
+  console.log(`❌ No watermark found (${Date.now() - startTime}ms). Check the capture's start position and sample rate, or widen --search.`);
+  process.exit(1);
+}
+
+console.log(`✅ Watermark ID: ${result.watermarkId}`);
+console.log(`   Capture starts at ${(result.offsetSamples / sampleRate).toFixed(3)}s in the track`);
+console.log(`   ${result.repetitions} full payload(s), confidence ${result.confidence}${result.confidence < 4 ? ' (weak - treat as inconclusive)' : ''}`);
+console.log(`   Look up: GET /api/admin/watermarks/${result.watermarkId}`);
@@ -1,12 +1,16 @@
 import React, { useState, useCallback, useRef } from 'react';
 import type { AudioTrack } from '../constants/playlist';
-import { PlayState } from '../constants/playlist';
+import { PlayMode, PlayState } from '../constants/playlist';
 import AudioManager from './AudioManager';
 import PureAudioVisualizer from './PureAudioVisualizer';
 import UserInteractionController from './UserInteractionController';
 import PauseIndicator from './PauseIndicator';
+import PlayModeIndicator from './PlayModeIndicator';
 import PlayIndicator from './PlayIndicator';
 import BottomOverlay from './BottomOverlay';
+import QualityIndicator from './QualityIndicator';
+import type { PlaybackProgress } from './SeekBar';
+import type { QualityChangeEventDetail } from '../services/SecStreamService';
 
 interface AudioControls {
   togglePlayPause: () => void;
@@ -14,6 +18,12 @@ interface AudioControls {
   prevTrack: () => void;
   getCurrentTrack: () => AudioTrack | null;
   getPlayState: () => PlayState;
+  togglePlayMode: () => void;
+  setPlayMode: (mode: PlayMode) => void;
+  getPlayMode: () => PlayMode;
+  seek: (time: number) => void;
+  seekBy: (deltaSeconds: number) => void;
+  getPlaybackProgress: () => PlaybackProgress;
 }
 
 const AudioController = () => {
@@ -21,10 +31,12 @@ const AudioController = () => {
   const [currentTrackIndex, setCurrentTrackIndex] = useState<number>(0);
   const [trackDirection, setTrackDirection] = useState<'next' | 'prev' | 'none'>('none');
   const [playState, setPlayState] = useState<PlayState>(PlayState.STOPPED);
+  const [playMode, setPlayMode] = useState<PlayMode>(PlayMode.SEQUENTIAL);
   const [audioControls, setAudioControls] = useState<AudioControls | null>(null);
   const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null);
   const [audioContextSuspended, setAudioContextSuspended] = useState<boolean>(false);
   const [shouldTriggerFadeOut, setShouldTriggerFadeOut] = useState<boolean>(false);
+  const [quality, setQuality] = useState<QualityChangeEventDetail | null>(null);
 
   // Audio reactive callbacks reference - stable reference object
   const audioReactiveCallbacks = useRef({
@@ -44,6 +56,11 @@ const AudioController = () => {
     setPlayState(state);
   }, []);
 
+  // Handle play mode change
+  const handlePlayModeChange = useCallback((mode: PlayMode) => {
+    setPlayMode(mode);
+  }, []);
+
   // Handle AudioContext suspended
   const handleAudioContextSuspended = useCallback((suspended: boolean) => {
     console.log('🎮 AudioController: AudioContext suspension state changed:', suspended);
@@ -51,6 +68,11 @@ const AudioController = () => {
     console.log(`🎮 AudioController: ${suspended ? 'Showing' : 'Hiding'} PlayIndicator`);
   }, []);
 
+  // Handle streaming quality tier change
+  const handleQualityChange = useCallback((detail: QualityChangeEventDetail) => {
+    setQuality(detail);
+  }, []);
+
   // Handle audio controls ready
   const handleControlsReady = useCallback((controls: AudioControls) => {
     setAudioControls(controls);
@@ -94,14 +116,20 @@ const AudioController = () => {
   return (
     <>
       {/* Audio Manager - handles all audio playback logic */}
-      <AudioManager onTrackChange={handleTrackChange} onPlayStateChange={handlePlayStateChange} onControlsReady={handleControlsReady} onSecStreamReady={handleSecStreamReady} onAudioContextSuspended={handleAudioContextSuspended} />
+      <AudioManager onTrackChange={handleTrackChange} onPlayStateChange={handlePlayStateChange} onPlayModeChange={handlePlayModeChange} onControlsReady={handleControlsReady} onSecStreamReady={handleSecStreamReady} onAudioContextSuspended={handleAudioContextSuspended} onQualityChange={handleQualityChange} />
 
       {/* User Interaction Controller - handles keyboard and touch events */}
-      {audioControls && <UserInteractionController playState={playState} onTogglePlayPause={audioControls.togglePlayPause} onNextTrack={audioControls.nextTrack} onPrevTrack={audioControls.prevTrack} onInitialPlay={audioContextSuspended ? handleInitialPlay : undefined} />}
+      {audioControls && <UserInteractionController playState={playState} onTogglePlayPause={audioControls.togglePlayPause} onNextTrack={audioControls.nextTrack} onPrevTrack={audioControls.prevTrack} onTogglePlayMode={audioControls.togglePlayMode} onSeekBy={audioControls.seekBy} onInitialPlay={audioContextSuspended ? handleInitialPlay : undefined} />}
 
       {/* Pause Indicator - shows pause icon in top left */}
       <PauseIndicator playState={playState} />
 
+      {/* Play Mode Indicator - shows and toggles play mode next to the pause indicator */}
+      {audioControls && <PlayModeIndicator playMode={playMode} playState={playState} onToggle={audioControls.togglePlayMode} />}
+
+      {/* Quality Indicator - subtle streaming quality badge in top right (the play button takes the spot while suspended) */}
+      {quality && !audioContextSuspended && <QualityIndicator quality={quality} />}
+
       {/* Play Indicator - shows play button in top right when AudioContext is suspended */}
       {audioContextSuspended && (
         <>
@@ -114,7 +142,7 @@ const AudioController = () => {
       <PureAudioVisualizer currentTrack={currentTrack} currentTrackIndex={currentTrackIndex} trackDirection={trackDirection} playState={playState} isAnimationPaused={isAnimationPaused} audioReactiveCallbacks={audioReactiveCallbacks} />
 
       {/* Bottom Overlay - shows track info and music platform links */}
-      <BottomOverlay currentTrack={currentTrack} />
+      <BottomOverlay currentTrack={currentTrack} getPlaybackProgress={audioControls?.getPlaybackProgress} onSeek={audioControls?.seek} />
     </>
   );
 };
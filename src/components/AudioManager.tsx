@@ -1,15 +1,32 @@
 import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
-import { AUDIO_PLAYLIST, AUDIO_CONFIG, PlayState } from '../constants/playlist';
+import { PlayMode, PlayState } from '../constants/playlist';
 import type { AudioTrack } from '../constants/playlist';
 import { SecStreamService } from '../services/SecStreamService';
+import type { QualityChangeEventDetail } from '../services/SecStreamService';
+import { fetchCatalogTracks } from '../utils/catalog/catalog-client';
+import { fetchClientSettings } from '../utils/config/config-client';
+import { DEFAULT_CLIENT_SETTINGS } from '../utils/config/settings';
+import type { ClientSettings } from '../utils/config/settings';
+import { ShuffleHistory, getNextPlayMode, loadPlayMode, savePlayMode } from '../utils/playback/play-mode';
+import {
+  registerMediaSessionHandlers,
+  releaseMediaSessionAnchor,
+  setMediaSessionAnchorPlaying,
+  updateMediaSessionMetadata,
+  updateMediaSessionPlaybackState,
+  updateMediaSessionPositionState,
+} from '../utils/playback/media-session';
 import PureAudioAnalyzer from './PureAudioAnalyzer';
+import type { PlaybackProgress } from './SeekBar';
 
 interface AudioManagerProps {
   onTrackChange?: (track: AudioTrack, trackIndex: number, direction: 'next' | 'prev' | 'none') => void;
   onPlayStateChange?: (state: PlayState) => void;
+  onPlayModeChange?: (mode: PlayMode) => void;
   onControlsReady?: (controls: AudioControls) => void;
   onSecStreamReady?: (audioContext: AudioContext) => void;
   onAudioContextSuspended?: (suspended: boolean) => void;
+  onQualityChange?: (quality: QualityChangeEventDetail) => void;
 }
 
 interface AudioControls {
@@ -18,18 +35,15 @@ interface AudioControls {
   prevTrack: () => void;
   getCurrentTrack: () => AudioTrack | null;
   getPlayState: () => PlayState;
+  togglePlayMode: () => void;
+  setPlayMode: (mode: PlayMode) => void;
+  getPlayMode: () => PlayMode;
+  seek: (time: number) => void;
+  seekBy: (deltaSeconds: number) => void;
+  getPlaybackProgress: () => PlaybackProgress;
 }
 
-const shuffleArray = <T,>(array: T[]): T[] => {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
-};
-
-const AudioManager = ({ onTrackChange, onPlayStateChange, onControlsReady, onSecStreamReady, onAudioContextSuspended }: AudioManagerProps) => {
+const AudioManager = ({ onTrackChange, onPlayStateChange, onPlayModeChange, onControlsReady, onSecStreamReady, onAudioContextSuspended, onQualityChange }: AudioManagerProps) => {
   const secStreamRef = useRef<SecStreamService | null>(null);
   const audioAnalyzerRef = useRef<PureAudioAnalyzer | null>(null);
   const [currentTrackIndex, setCurrentTrackIndex] = useState<number>(0);
@@ -40,7 +54,15 @@ const AudioManager = ({ onTrackChange, onPlayStateChange, onControlsReady, onSec
   const fadeIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const trackDirectionRef = useRef<'next' | 'prev' | 'none'>('none');
   const pauseFadeIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const volumeRef = useRef<number>(AUDIO_CONFIG.volume);
+  // Player settings from /api/config (built-in defaults until loaded)
+  const settingsRef = useRef<ClientSettings>(DEFAULT_CLIENT_SETTINGS);
+  const volumeRef = useRef<number>(DEFAULT_CLIENT_SETTINGS.audio.volume);
+  const [playMode, setPlayModeState] = useState<PlayMode>(() => loadPlayMode());
+  const playModeRef = useRef<PlayMode>(playMode);
+  const shuffleHistoryRef = useRef<ShuffleHistory>(new ShuffleHistory(0));
+  // Latest end-of-track handler, read by the player 'ended' listener (attached once)
+  const handleTrackEndedRef = useRef<(crossfade: boolean) => void>(() => {});
+  const replayCurrentTrackRef = useRef<() => void>(() => {});
 
   // Audio reactive callbacks reference
   const audioReactiveCallbacks = useRef({
@@ -48,19 +70,41 @@ const AudioManager = ({ onTrackChange, onPlayStateChange, onControlsReady, onSec
     onBeat: (strength: number) => {},
   });
 
-  // Initialize playlist order on mount (before SecStream initialization)
+  // Initialize playlist on mount (before SecStream initialization)
+  // The playlist keeps its original order so indices stay aligned with the
+  // SecStream track mapping; shuffle is handled by ShuffleHistory instead
+  // Tracks come from the catalog API (built-in playlist as fallback), player
+  // settings from the config API; SecStream starts once both are in
   useEffect(() => {
-    if (AUDIO_PLAYLIST.length === 0) return;
+    let cancelled = false;
 
-    if (AUDIO_CONFIG.shufflePlay) {
-      const shuffled = shuffleArray(AUDIO_PLAYLIST);
-      setCurrentPlaylist(shuffled);
-    } else {
-      setCurrentPlaylist(AUDIO_PLAYLIST);
-    }
-    setCurrentTrackIndex(0);
+    const loadPlaylist = async () => {
+      const [tracks, settings] = await Promise.all([fetchCatalogTracks(), fetchClientSettings()]);
+      if (cancelled || tracks.length === 0) return;
+
+      settingsRef.current = settings;
+      volumeRef.current = settings.audio.volume;
+      setCurrentPlaylist(tracks);
+
+      if (playModeRef.current === PlayMode.SHUFFLE) {
+        setCurrentTrackIndex(shuffleHistoryRef.current.start(tracks.length));
+      } else {
+        setCurrentTrackIndex(0);
+      }
+    };
+
+    loadPlaylist();
+
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
+  // Notify the initial play mode
+  useEffect(() => {
+    onPlayModeChange?.(playModeRef.current);
+  }, [onPlayModeChange]);
+
   // Initialize SecStream audio analyzer and playlist on component mount
   useEffect(() => {
     // Wait for playlist to be initialized
@@ -68,7 +112,7 @@ const AudioManager = ({ onTrackChange, onPlayStateChange, onControlsReady, onSec
 
     const initializeSecStream = async () => {
       try {
-        secStreamRef.current = new SecStreamService();
+        secStreamRef.current = new SecStreamService(settingsRef.current);
         console.log('✅ SecStreamService instance created');
       } catch (error) {
         console.error('❌ Failed to create SecStreamService:', error);
@@ -118,12 +162,18 @@ const AudioManager = ({ onTrackChange, onPlayStateChange, onControlsReady, onSec
           audioContext.addEventListener('statechange', handleAudioContextStateChange);
         }
 
-        // Set up event listeners on the player
-        const player = secStreamRef.current.getPlayer();
-        if (player) {
+        // Set up event listeners on the service (forwarded from the active player deck)
+        const secStream = secStreamRef.current;
+        if (secStream.getPlayer()) {
           const handleSecStreamEnded = () => {
-            console.log('🏁 Track ended, transitioning to next...');
-            playNext();
+            console.log('🏁 Track ended');
+            handleTrackEndedRef.current(false);
+          };
+
+          // Fired shortly before the end so the next track can be crossfaded in
+          const handleSecStreamTrackEnding = () => {
+            console.log('🎚️ Track ending, crossfading to next...');
+            handleTrackEndedRef.current(true);
           };
 
           const handleSecStreamError = (event: Event) => {
@@ -146,10 +196,19 @@ const AudioManager = ({ onTrackChange, onPlayStateChange, onControlsReady, onSec
             }
           };
 
-          player.addEventListener('ended', handleSecStreamEnded);
-          player.addEventListener('error', handleSecStreamError);
-          player.addEventListener('suspended', handleSecStreamSuspended);
-          console.log('✅ Event listeners attached to player');
+          secStream.addEventListener('ended', handleSecStreamEnded);
+          secStream.addEventListener('trackending', handleSecStreamTrackEnding);
+          secStream.addEventListener('error', handleSecStreamError);
+          // Streaming quality tier, chosen from slice download throughput
+          const handleSecStreamQualityChange = (event: Event) => {
+            onQualityChange?.((event as CustomEvent<QualityChangeEventDetail>).detail);
+          };
+
+          secStream.addEventListener('suspended', handleSecStreamSuspended);
+          secStream.addEventListener('qualitychange', handleSecStreamQualityChange);
+          // Slices fetched during initialization may already have picked a tier
+          onQualityChange?.(secStream.getQualityTier());
+          console.log('✅ Event listeners attached to SecStream service');
         }
 
         // Mark SecStream as ready after successful initialization
@@ -185,7 +244,7 @@ const AudioManager = ({ onTrackChange, onPlayStateChange, onControlsReady, onSec
         audioAnalyzerRef.current = null;
       }
     };
-  }, [currentPlaylist.length]); // Only re-initialize if playlist length changes (not on shuffle)
+  }, [currentPlaylist.length]); // Only re-initialize if playlist length changes
 
   const getCurrentTrack = useCallback((): AudioTrack | null => {
     if (currentPlaylist.length === 0) return null;
@@ -195,42 +254,76 @@ const AudioManager = ({ onTrackChange, onPlayStateChange, onControlsReady, onSec
   const playNext = useCallback(() => {
     if (currentPlaylist.length === 0) return;
 
-    let nextIndex = currentTrackIndex + 1;
+    let nextIndex: number;
 
-    if (nextIndex >= currentPlaylist.length) {
-      if (AUDIO_CONFIG.loop) {
-        // Loop enabled: reshuffle playlist and restart from beginning
-        const newShuffled = AUDIO_CONFIG.shufflePlay ? shuffleArray(AUDIO_PLAYLIST) : AUDIO_PLAYLIST;
-        setCurrentPlaylist(newShuffled);
-        nextIndex = 0;
-        console.log('🔁 Playlist ended, looping and reshuffling...');
-      } else {
-        // No loop: stop playback and fade out background effects
-        console.log('🛑 Playlist ended, stopping playback...');
+    if (playMode === PlayMode.SHUFFLE) {
+      const shuffledIndex = shuffleHistoryRef.current.next(settingsRef.current.audio.loop);
+      if (shuffledIndex === null) {
+        console.log('🛑 Shuffle cycle ended, stopping playback...');
         setPlayState(PlayState.STOPPED);
         onPlayStateChange?.(PlayState.STOPPED);
         return;
       }
+      nextIndex = shuffledIndex;
+    } else {
+      nextIndex = currentTrackIndex + 1;
+
+      if (nextIndex >= currentPlaylist.length) {
+        if (settingsRef.current.audio.loop) {
+          // Loop enabled: restart from beginning
+          nextIndex = 0;
+          console.log('🔁 Playlist ended, looping...');
+        } else {
+          // No loop: stop playback and fade out background effects
+          console.log('🛑 Playlist ended, stopping playback...');
+          setPlayState(PlayState.STOPPED);
+          onPlayStateChange?.(PlayState.STOPPED);
+          return;
+        }
+      }
+    }
+
+    // Same track (e.g. single-track playlist) - index doesn't change, so replay explicitly
+    if (nextIndex === currentTrackIndex) {
+      replayCurrentTrackRef.current();
+      return;
     }
 
     // Smooth transition to next track
-    console.log(`⏭️ Transitioning to next track: ${nextIndex}`);
+    console.log(`⏭️ Transitioning to next track: ${nextIndex} (${playMode})`);
     trackDirectionRef.current = 'next';
     setCurrentTrackIndex(nextIndex);
-  }, [currentPlaylist, currentTrackIndex, onPlayStateChange]);
+  }, [currentPlaylist, currentTrackIndex, onPlayStateChange, playMode]);
 
   const playPrev = useCallback(() => {
     if (currentPlaylist.length === 0) return;
 
-    let prevIndex = currentTrackIndex - 1;
+    let prevIndex: number;
+
+    if (playMode === PlayMode.SHUFFLE) {
+      const historyIndex = shuffleHistoryRef.current.prev();
+      if (historyIndex === null) {
+        // Start of shuffle history - restart the current track
+        replayCurrentTrackRef.current();
+        return;
+      }
+      prevIndex = historyIndex;
+    } else {
+      prevIndex = currentTrackIndex - 1;
+
+      if (prevIndex < 0) {
+        prevIndex = currentPlaylist.length - 1;
+      }
+    }
 
-    if (prevIndex < 0) {
-      prevIndex = currentPlaylist.length - 1;
+    if (prevIndex === currentTrackIndex) {
+      replayCurrentTrackRef.current();
+      return;
     }
 
     trackDirectionRef.current = 'prev';
     setCurrentTrackIndex(prevIndex);
-  }, [currentPlaylist, currentTrackIndex]);
+  }, [currentPlaylist, currentTrackIndex, playMode]);
 
   const playTrack = useCallback(
     async (trackIndex: number, throwOnError: boolean = false) => {
@@ -247,8 +340,34 @@ const AudioManager = ({ onTrackChange, onPlayStateChange, onControlsReady, onSec
       }
 
       try {
+        // Overlap with the currently playing track when possible
+        const shouldCrossfade = secStreamRef.current.canCrossfade();
+
         setPlayState(PlayState.LOADING);
 
+        if (shouldCrossfade) {
+          console.log(`🎚️ Crossfading to track: ${track.title}`);
+
+          // Cancel a running fade-in so it does not fight the crossfade
+          if (fadeIntervalRef.current) {
+            clearInterval(fadeIntervalRef.current);
+            fadeIntervalRef.current = null;
+          }
+
+          secStreamRef.current.setVolume(volumeRef.current);
+          await secStreamRef.current.crossfadeToTrack(trackIndex);
+
+          setPlayState(PlayState.PLAYING);
+          setCurrentTrackIndex(trackIndex);
+
+          const direction = trackDirectionRef.current;
+          trackDirectionRef.current = 'none';
+
+          onTrackChange?.(track, trackIndex, direction);
+          onPlayStateChange?.(PlayState.PLAYING);
+          return;
+        }
+
         console.log(`🔐 Switching to track: ${track.title}`);
 
         // Switch to the track in the multi-track session
@@ -268,10 +387,11 @@ const AudioManager = ({ onTrackChange, onPlayStateChange, onControlsReady, onSec
           }
 
           // Apply fade-in effect after starting playback
-          if (AUDIO_CONFIG.fadeInDuration > 0) {
+          const { fadeInDuration } = settingsRef.current.audio;
+          if (fadeInDuration > 0) {
             secStreamRef.current.setVolume(0); // Start from zero
             const fadeSteps = 20;
-            const fadeInterval = AUDIO_CONFIG.fadeInDuration / fadeSteps;
+            const fadeInterval = fadeInDuration / fadeSteps;
             let step = 0;
 
             fadeIntervalRef.current = setInterval(() => {
@@ -445,6 +565,97 @@ const AudioManager = ({ onTrackChange, onPlayStateChange, onControlsReady, onSec
     fadeInVolume(volumeRef.current);
   }, [fadeInVolume, onPlayStateChange]);
 
+  // Restart the current track from the beginning (single loop, start of shuffle history)
+  const replayCurrentTrack = useCallback(async () => {
+    if (!secStreamRef.current) return;
+
+    try {
+      console.log('🔂 Replaying current track from the beginning');
+      await secStreamRef.current.seek(0);
+
+      // Keep paused/stopped tracks where they are; resume only after a natural end
+      if (playState === PlayState.PLAYING && !secStreamRef.current.isPlaying()) {
+        await secStreamRef.current.play();
+        secStreamRef.current.setVolume(volumeRef.current);
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to restart track in place, reloading it:', error);
+      await playTrack(currentTrackIndex);
+    }
+  }, [playState, playTrack, currentTrackIndex]);
+
+  replayCurrentTrackRef.current = replayCurrentTrack;
+
+  // Handle natural end of track according to the play mode
+  // crossfade is true when called ahead of the end (tail of the track still playing)
+  handleTrackEndedRef.current = (crossfade: boolean) => {
+    if (playModeRef.current === PlayMode.SINGLE_LOOP) {
+      console.log('🔂 Single loop: replaying track');
+      if (crossfade && secStreamRef.current) {
+        // Overlap the tail with the head of the same track on the standby deck
+        secStreamRef.current.crossfadeToTrack(currentTrackIndex).catch((error) => {
+          console.error('❌ Single loop crossfade failed:', error);
+        });
+      } else {
+        replayCurrentTrack();
+      }
+    } else {
+      console.log('⏭️ Transitioning to next track...');
+      playNext();
+    }
+  };
+
+  const setPlayMode = useCallback((mode: PlayMode) => {
+    if (mode === playModeRef.current) return;
+
+    // Start a fresh shuffle cycle from the current track
+    if (mode === PlayMode.SHUFFLE) {
+      shuffleHistoryRef.current.reset(currentTrackIndex, currentPlaylist.length);
+    }
+
+    playModeRef.current = mode;
+    setPlayModeState(mode);
+    savePlayMode(mode);
+    onPlayModeChange?.(mode);
+    console.log(`🔀 Play mode changed to: ${mode}`);
+  }, [currentTrackIndex, currentPlaylist.length, onPlayModeChange]);
+
+  const togglePlayMode = useCallback(() => {
+    setPlayMode(getNextPlayMode(playModeRef.current));
+  }, [setPlayMode]);
+
+  // Seek within the current track (clamped to the track duration)
+  const seek = useCallback((time: number) => {
+    const secStream = secStreamRef.current;
+    if (!secStream) return;
+
+    const duration = secStream.getDuration();
+    const target = Math.max(0, duration > 0 ? Math.min(time, duration - 0.1) : time);
+
+    console.log(`⏩ Seeking to ${target.toFixed(1)}s`);
+    secStream.seek(target).catch((error) => {
+      console.error('❌ Seek failed:', error);
+    });
+  }, []);
+
+  const seekBy = useCallback((deltaSeconds: number) => {
+    if (!secStreamRef.current) return;
+    seek(secStreamRef.current.getCurrentTime() + deltaSeconds);
+  }, [seek]);
+
+  const getPlaybackProgress = useCallback((): PlaybackProgress => {
+    const secStream = secStreamRef.current;
+    if (!secStream) {
+      return { currentTime: 0, duration: 0, bufferedRanges: [] };
+    }
+
+    return {
+      currentTime: secStream.getCurrentTime(),
+      duration: secStream.getDuration(),
+      bufferedRanges: secStream.getBufferedRanges(),
+    };
+  }, []);
+
   // Track the last played index to prevent re-playing the same track
   const lastPlayedIndexRef = useRef<number>(-1);
 
@@ -490,18 +701,19 @@ const AudioManager = ({ onTrackChange, onPlayStateChange, onControlsReady, onSec
   }, [playState, onPlayStateChange, playTrack, currentTrackIndex, onAudioContextSuspended, pauseWithFade, resumeWithFade]);
 
   useEffect(() => {
-    if (AUDIO_CONFIG.autoPlay &&
+    if (settingsRef.current.audio.autoPlay &&
         currentPlaylist.length > 0 &&
         !isInitializedRef.current &&
         isSecStreamReady &&
         playState === PlayState.STOPPED) {
       isInitializedRef.current = true;
-      lastPlayedIndexRef.current = 0; // Mark track 0 as being played to prevent duplicate
+      const initialIndex = currentTrackIndex;
+      lastPlayedIndexRef.current = initialIndex; // Mark initial track as being played to prevent duplicate
 
       setTimeout(async () => {
         try {
           console.log('🎵 Attempting autoplay...');
-          await playTrack(0, true);
+          await playTrack(initialIndex, true);
           console.log('✅ Autoplay started successfully');
         } catch (error) {
           console.log('⚠️ Autoplay blocked by browser (expected behavior):', error);
@@ -513,7 +725,7 @@ const AudioManager = ({ onTrackChange, onPlayStateChange, onControlsReady, onSec
         }
       }, 3000);
     }
-  }, [currentPlaylist, playState, playTrack, onPlayStateChange, onAudioContextSuspended, isSecStreamReady]);
+  }, [currentPlaylist, currentTrackIndex, playState, playTrack, onPlayStateChange, onAudioContextSuspended, isSecStreamReady]);
 
   const controls = useMemo<AudioControls>(
     () => ({
@@ -522,14 +734,94 @@ const AudioManager = ({ onTrackChange, onPlayStateChange, onControlsReady, onSec
       prevTrack: playPrev,
       getCurrentTrack,
       getPlayState: () => playState,
+      togglePlayMode,
+      setPlayMode,
+      getPlayMode: () => playMode,
+      seek,
+      seekBy,
+      getPlaybackProgress,
     }),
-    [togglePlayPause, playNext, playPrev, getCurrentTrack, playState]
+    [togglePlayPause, playNext, playPrev, getCurrentTrack, playState, togglePlayMode, setPlayMode, playMode, seek, seekBy, getPlaybackProgress]
   );
 
   useEffect(() => {
     onControlsReady?.(controls);
   }, [onControlsReady, controls]);
 
+  // Media Session: publish metadata on every track change
+  useEffect(() => {
+    if (currentPlaylist.length === 0) return;
+    updateMediaSessionMetadata(currentPlaylist[currentTrackIndex] || null);
+  }, [currentPlaylist, currentTrackIndex]);
+
+  // Media Session: map OS / hardware media keys onto the existing controls
+  useEffect(() => {
+    return registerMediaSessionHandlers({
+      play: () => {
+        if (playState !== PlayState.PLAYING) togglePlayPause();
+      },
+      pause: () => {
+        if (playState === PlayState.PLAYING) togglePlayPause();
+      },
+      nextTrack: playNext,
+      prevTrack: playPrev,
+      seekTo: seek,
+      seekBy,
+    });
+  }, [playState, togglePlayPause, playNext, playPrev, seek, seekBy]);
+
+  // Media Session: free the silent anchor when the player goes away
+  useEffect(() => releaseMediaSessionAnchor, []);
+
+  // Media Session: keep playback and position state in sync
+  useEffect(() => {
+    updateMediaSessionPlaybackState(playState);
+    setMediaSessionAnchorPlaying(playState === PlayState.PLAYING);
+
+    const updatePosition = () => {
+      const secStream = secStreamRef.current;
+      if (!secStream) return;
+      updateMediaSessionPositionState(secStream.getDuration(), secStream.getCurrentTime());
+    };
+
+    updatePosition();
+
+    if (playState !== PlayState.PLAYING) return;
+
+    // The OS extrapolates position from playbackRate; refresh to pick up seeks and duration
+    const interval = setInterval(updatePosition, 1000);
+    return () => clearInterval(interval);
+  }, [playState, currentTrackIndex]);
+
+  // End the server session when the page goes away (tab closed, navigation, bfcache)
+  useEffect(() => {
+    const handlePageHide = () => {
+      secStreamRef.current?.closeSession();
+    };
+
+    // Coming back (bfcache restore, or a tab backgrounded for hours): recover the session in place
+    const handlePageShow = (event: PageTransitionEvent) => {
+      if (event.persisted) {
+        secStreamRef.current?.resumeSession();
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        secStreamRef.current?.resumeSession();
+      }
+    };
+
+    window.addEventListener('pagehide', handlePageHide);
+    window.addEventListener('pageshow', handlePageShow);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      window.removeEventListener('pageshow', handlePageShow);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
   // Update audio analyzer play state
   useEffect(() => {
     if (audioAnalyzerRef.current) {
@@ -555,6 +847,11 @@ const AudioManager = ({ onTrackChange, onPlayStateChange, onControlsReady, onSec
         getCurrentTrack,
         getPlayState: () => playState,
         getPlaylist: () => currentPlaylist,
+        getPlayMode: () => playMode,
+        setPlayMode,
+        togglePlayMode,
+        seek,
+        seekBy,
         getSecStreamService: () => secStreamRef.current,
         setVolume: (vol: number) => {
           volumeRef.current = vol;
@@ -564,7 +861,7 @@ const AudioManager = ({ onTrackChange, onPlayStateChange, onControlsReady, onSec
         },
       };
     }
-  }, [playTrack, currentTrackIndex, stop, playNext, playPrev, togglePlayPause, getCurrentTrack, playState, currentPlaylist]);
+  }, [playTrack, currentTrackIndex, stop, playNext, playPrev, togglePlayPause, getCurrentTrack, playState, currentPlaylist, playMode, setPlayMode, togglePlayMode, seek, seekBy]);
 
   return null;
 };
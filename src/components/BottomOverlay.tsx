@@ -2,6 +2,8 @@ import { useEffect, useState } from 'react';
 import { Icon } from '@iconify/react';
 import { MUSIC_PLATFORM_LINKS, BRAND_CONFIG } from '../constants/links';
 import type { AudioTrack } from '../constants/playlist';
+import SeekBar from './SeekBar';
+import type { PlaybackProgress } from './SeekBar';
 
 // Music platform icon component
 const MusicPlatformIcon = ({ platform }: { platform: (typeof MUSIC_PLATFORM_LINKS)[0] }) => {
@@ -31,9 +33,11 @@ const MusicPlatformIcon = ({ platform }: { platform: (typeof MUSIC_PLATFORM_LINK
 
 interface BottomOverlayProps {
   currentTrack?: AudioTrack | null;
+  getPlaybackProgress?: () => PlaybackProgress;
+  onSeek?: (time: number) => void;
 }
 
-const BottomOverlay = ({ currentTrack }: BottomOverlayProps) => {
+const BottomOverlay = ({ currentTrack, getPlaybackProgress, onSeek }: BottomOverlayProps) => {
   const [isVisible, setIsVisible] = useState(false);
   const [showTrackInfo, setShowTrackInfo] = useState(false);
   const [trackSlotA, setTrackSlotA] = useState<AudioTrack | null>(null);
@@ -161,6 +165,13 @@ const BottomOverlay = ({ currentTrack }: BottomOverlayProps) => {
         ))}
       </div>
 
+      {/* Seek bar along the bottom edge */}
+      {currentTrack && getPlaybackProgress && onSeek && (
+        <div className="seek-section">
+          <SeekBar getProgress={getPlaybackProgress} onSeek={onSeek} />
+        </div>
+      )}
+
       <style>{`
         .bottom-overlay {
           position: fixed;
@@ -347,6 +358,14 @@ const BottomOverlay = ({ currentTrack }: BottomOverlayProps) => {
           pointer-events: auto;
         }
 
+        .seek-section {
+          position: absolute;
+          left: 2rem;
+          right: 2rem;
+          bottom: calc(0.375rem + env(safe-area-inset-bottom));
+          pointer-events: auto;
+        }
+
         .music-platform-button {
           width: 48px;
           height: 48px;
@@ -531,6 +550,14 @@ const BottomOverlay = ({ currentTrack }: BottomOverlayProps) => {
             gap: 0.75rem;
           }
 
+          .seek-section {
+            position: relative;
+            left: auto;
+            right: auto;
+            bottom: auto;
+            width: 100%;
+          }
+
           .music-platform-button {
             width: 44px;
             height: 44px;
@@ -0,0 +1,161 @@
+import { useEffect, useRef, useState } from 'react';
+import { Icon } from '@iconify/react';
+import { PlayMode, PlayState } from '../constants/playlist';
+
+interface PlayModeIndicatorProps {
+  playMode: PlayMode;
+  playState: PlayState;
+  onToggle: () => void;
+}
+
+const PLAY_MODE_ICONS: Record<PlayMode, string> = {
+  [PlayMode.SEQUENTIAL]: 'mdi:repeat',
+  [PlayMode.SHUFFLE]: 'mdi:shuffle-variant',
+  [PlayMode.SINGLE_LOOP]: 'mdi:repeat-once',
+};
+
+const PLAY_MODE_LABELS: Record<PlayMode, string> = {
+  [PlayMode.SEQUENTIAL]: 'Sequential',
+  [PlayMode.SHUFFLE]: 'Shuffle',
+  [PlayMode.SINGLE_LOOP]: 'Repeat one',
+};
+
+// How long the indicator stays visible after the mode changes
+const MODE_CHANGE_DISPLAY_MS = 2000;
+
+const PlayModeIndicator = ({ playMode, playState, onToggle }: PlayModeIndicatorProps) => {
+  const [isRecentlyChanged, setIsRecentlyChanged] = useState(false);
+  const isFirstRender = useRef(true);
+
+  // Briefly show the indicator whenever the mode changes (but not on mount)
+  useEffect(() => {
+    if (isFirstRender.current) {
+      isFirstRender.current = false;
+      return;
+    }
+
+    setIsRecentlyChanged(true);
+    const timer = setTimeout(() => {
+      setIsRecentlyChanged(false);
+    }, MODE_CHANGE_DISPLAY_MS);
+    return () => clearTimeout(timer);
+  }, [playMode]);
+
+  // Always visible next to the pause indicator while paused
+  const isVisible = isRecentlyChanged || playState === PlayState.PAUSED;
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      e.stopPropagation();
+      onToggle();
+    }
+  };
+
+  return (
+    <div
+      className={`play-mode-indicator ${isVisible ? 'visible' : ''}`}
+      role="button"
+      aria-label={`Play mode: ${PLAY_MODE_LABELS[playMode]}. Click to change`}
+      title={PLAY_MODE_LABELS[playMode]}
+      onClick={onToggle}
+      tabIndex={isVisible ? 0 : -1}
+      onKeyDown={handleKeyDown}
+    >
+      <Icon icon={PLAY_MODE_ICONS[playMode]} width="20" height="20" />
+      <span className="play-mode-label">{PLAY_MODE_LABELS[playMode]}</span>
+
+      <style>{`
+        .play-mode-indicator {
+          position: fixed;
+          top: calc(2rem + env(safe-area-inset-top));
+          left: calc(2rem + 48px + 0.75rem + env(safe-area-inset-left));
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          height: 48px;
+          padding: 0 1rem;
+          background: rgba(255, 255, 255, 0.1);
+          backdrop-filter: blur(10px);
+          -webkit-backdrop-filter: blur(10px);
+          border-radius: 24px;
+          color: #ffffff;
+          font-family: 'Inter', sans-serif;
+          font-size: 0.8rem;
+          font-weight: 600;
+          letter-spacing: 0.02em;
+          opacity: 0;
+          transform: scale(0.8) translateY(-10px);
+          transition: all 0.4s cubic-bezier(0.25, 0.46, 0.45, 0.94);
+          pointer-events: none;
+          z-index: 1000;
+          border: 1px solid rgba(255, 255, 255, 0.2);
+          box-shadow: 0 8px 32px rgba(0, 0, 0, 0.3);
+          cursor: pointer;
+          user-select: none;
+        }
+
+        .play-mode-indicator.visible {
+          opacity: 1;
+          transform: scale(1) translateY(0);
+          pointer-events: auto;
+        }
+
+        .play-mode-indicator:hover {
+          background: rgba(255, 255, 255, 0.18);
+        }
+
+        .play-mode-indicator:focus-visible {
+          outline: 2px solid rgba(255, 255, 255, 0.5);
+          outline-offset: 2px;
+        }
+
+        /* Responsive design */
+        @media (max-width: 768px) {
+          .play-mode-indicator {
+            top: 1.5rem;
+            left: calc(1.5rem + 44px + 0.5rem);
+            height: 44px;
+            padding: 0 0.875rem;
+          }
+        }
+
+        @media (max-width: 480px) {
+          .play-mode-indicator {
+            top: 1rem;
+            left: calc(1rem + 40px + 0.5rem);
+            height: 40px;
+            padding: 0 0.75rem;
+            font-size: 0.75rem;
+          }
+
+          .play-mode-indicator svg {
+            width: 18px;
+            height: 18px;
+          }
+        }
+
+        /* Reduced motion preferences */
+        @media (prefers-reduced-motion: reduce) {
+          .play-mode-indicator {
+            transition: none;
+          }
+
+          .play-mode-indicator.visible {
+            transform: none;
+          }
+        }
+
+        /* High contrast mode support */
+        @media (prefers-contrast: high) {
+          .play-mode-indicator {
+            background: rgba(255, 255, 255, 0.3);
+            border: 2px solid rgba(255, 255, 255, 0.8);
+          }
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default PlayModeIndicator;
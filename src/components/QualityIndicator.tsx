@@ -0,0 +1,99 @@
+import { Icon } from '@iconify/react';
+import type { QualityChangeEventDetail } from '../services/SecStreamService';
+
+interface QualityIndicatorProps {
+  quality: QualityChangeEventDetail;
+}
+
+const QualityIndicator = ({ quality }: QualityIndicatorProps) => {
+  const { current, target } = quality;
+  if (!current) return null;
+
+  // Anything below full quality was picked because of the connection
+  const isReduced = current.relativeBitrate < 1;
+  const isChanging = target !== null && target.id !== current.id;
+
+  const description = `Streaming quality: ${current.label}${isReduced ? ' (reduced for a slow connection)' : ''}`
+    + (isChanging ? `. Switching to ${target.label}` : '');
+
+  return (
+    <div
+      className={`quality-indicator ${isReduced ? 'reduced' : ''}`}
+      role="status"
+      aria-label={description}
+      title={description}
+    >
+      <Icon icon={isReduced ? 'mdi:signal-cellular-2' : 'mdi:signal-cellular-3'} width="14" height="14" />
+      <span className="quality-label">{current.label}</span>
+      {isChanging && (
+        <Icon icon={target.relativeBitrate > current.relativeBitrate ? 'mdi:arrow-up' : 'mdi:arrow-down'} width="12" height="12" />
+      )}
+
+      <style>{`
+        .quality-indicator {
+          position: fixed;
+          top: calc(2rem + env(safe-area-inset-top));
+          right: calc(2rem + env(safe-area-inset-right));
+          display: flex;
+          align-items: center;
+          gap: 0.25rem;
+          height: 24px;
+          padding: 0 0.5rem;
+          border-radius: 12px;
+          background: rgba(255, 255, 255, 0.06);
+          border: 1px solid rgba(255, 255, 255, 0.12);
+          color: #ffffff;
+          font-family: 'Inter', sans-serif;
+          font-size: 0.65rem;
+          font-weight: 600;
+          letter-spacing: 0.05em;
+          opacity: 0.35;
+          transition: opacity 0.4s ease;
+          pointer-events: auto;
+          user-select: none;
+          z-index: 1000;
+        }
+
+        .quality-indicator.reduced {
+          opacity: 0.7;
+        }
+
+        .quality-indicator:hover {
+          opacity: 1;
+        }
+
+        /* Responsive design */
+        @media (max-width: 768px) {
+          .quality-indicator {
+            top: 1.5rem;
+            right: 1.5rem;
+          }
+        }
+
+        @media (max-width: 480px) {
+          .quality-indicator {
+            top: 1rem;
+            right: 1rem;
+          }
+        }
+
+        /* Reduced motion preferences */
+        @media (prefers-reduced-motion: reduce) {
+          .quality-indicator {
+            transition: none;
+          }
+        }
+
+        /* High contrast mode support */
+        @media (prefers-contrast: high) {
+          .quality-indicator {
+            opacity: 1;
+            border: 2px solid rgba(255, 255, 255, 0.8);
+          }
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default QualityIndicator;
@@ -0,0 +1,237 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { BufferedRange } from '../services/SecStreamService';
+
+export interface PlaybackProgress {
+  currentTime: number;
+  duration: number;
+  bufferedRanges: BufferedRange[];
+}
+
+interface SeekBarProps {
+  getProgress: () => PlaybackProgress;
+  onSeek: (time: number) => void;
+}
+
+// Progress polling interval (no React re-render per audio frame)
+const PROGRESS_POLL_MS = 250;
+
+const formatTime = (seconds: number): string => {
+  if (!isFinite(seconds) || seconds < 0) return '0:00';
+  const totalSeconds = Math.floor(seconds);
+  const minutes = Math.floor(totalSeconds / 60);
+  const secs = totalSeconds % 60;
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+};
+
+const SeekBar = ({ getProgress, onSeek }: SeekBarProps) => {
+  const [progress, setProgress] = useState<PlaybackProgress>({ currentTime: 0, duration: 0, bufferedRanges: [] });
+  const [dragTime, setDragTime] = useState<number | null>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const getProgressRef = useRef(getProgress);
+  getProgressRef.current = getProgress;
+
+  // Poll playback progress
+  useEffect(() => {
+    const update = () => {
+      setProgress(getProgressRef.current());
+    };
+    update();
+    const interval = setInterval(update, PROGRESS_POLL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const { duration, currentTime, bufferedRanges } = progress;
+  const displayTime = dragTime ?? currentTime;
+  const playedPercent = duration > 0 ? Math.min(100, (displayTime / duration) * 100) : 0;
+
+  // Convert pointer position to track time
+  const getTimeFromPointer = useCallback(
+    (clientX: number): number => {
+      const rect = trackRef.current?.getBoundingClientRect();
+      if (!rect || rect.width === 0 || duration <= 0) return 0;
+      const ratio = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+      return ratio * duration;
+    },
+    [duration]
+  );
+
+  // Pointer events cover mouse, pen and touch
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (duration <= 0) return;
+    event.preventDefault();
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragTime(getTimeFromPointer(event.clientX));
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (dragTime === null) return;
+    event.preventDefault();
+    setDragTime(getTimeFromPointer(event.clientX));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (dragTime === null) return;
+    event.preventDefault();
+    event.stopPropagation();
+    const time = getTimeFromPointer(event.clientX);
+    setDragTime(null);
+    setProgress((prev) => ({ ...prev, currentTime: time }));
+    onSeek(time);
+  };
+
+  const handlePointerCancel = () => {
+    setDragTime(null);
+  };
+
+  return (
+    <div className={`seek-bar ${duration > 0 ? 'ready' : ''} ${dragTime !== null ? 'dragging' : ''}`}>
+      <span className="seek-time seek-time-elapsed">{formatTime(displayTime)}</span>
+      <div
+        ref={trackRef}
+        className="seek-track"
+        role="slider"
+        aria-label="Seek"
+        aria-valuemin={0}
+        aria-valuemax={Math.floor(duration)}
+        aria-valuenow={Math.floor(displayTime)}
+        aria-valuetext={`${formatTime(displayTime)} of ${formatTime(duration)}`}
+        tabIndex={-1}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
+      >
+        <div className="seek-rail">
+          {/* Buffered ranges (slices fetched so far) */}
+          {duration > 0 &&
+            bufferedRanges.map((range) => (
+              <div
+                key={range.start}
+                className="seek-buffered"
+                style={{
+                  left: `${(range.start / duration) * 100}%`,
+                  width: `${((range.end - range.start) / duration) * 100}%`,
+                }}
+              />
+            ))}
+          <div className="seek-played" style={{ width: `${playedPercent}%` }} />
+        </div>
+        <div className="seek-thumb" style={{ left: `${playedPercent}%` }} />
+      </div>
+      <span className="seek-time seek-time-total">{formatTime(duration)}</span>
+
+      <style>{`
+        .seek-bar {
+          display: flex;
+          align-items: center;
+          gap: 0.75rem;
+          width: 100%;
+          opacity: 0;
+          pointer-events: none;
+          transition: opacity 0.4s cubic-bezier(0.25, 0.46, 0.45, 0.94);
+        }
+
+        .seek-bar.ready {
+          opacity: 1;
+          pointer-events: auto;
+        }
+
+        .seek-time {
+          flex-shrink: 0;
+          min-width: 2.75rem;
+          font-family: 'Chivo Mono', monospace;
+          font-size: 0.7rem;
+          color: rgba(255, 255, 255, 0.55);
+          text-shadow: 1px 1px 2px rgba(0, 0, 0, 0.8);
+          font-variant-numeric: tabular-nums;
+        }
+
+        .seek-time-elapsed {
+          text-align: right;
+        }
+
+        .seek-track {
+          position: relative;
+          flex: 1;
+          height: 20px;
+          display: flex;
+          align-items: center;
+          cursor: pointer;
+          touch-action: none;
+        }
+
+        .seek-rail {
+          position: relative;
+          width: 100%;
+          height: 2px;
+          background: rgba(255, 255, 255, 0.12);
+          border-radius: 1px;
+          overflow: hidden;
+          transition: height 0.2s ease;
+        }
+
+        .seek-track:hover .seek-rail,
+        .seek-bar.dragging .seek-rail {
+          height: 4px;
+        }
+
+        .seek-buffered {
+          position: absolute;
+          top: 0;
+          bottom: 0;
+          background: rgba(255, 255, 255, 0.2);
+        }
+
+        .seek-played {
+          position: absolute;
+          top: 0;
+          bottom: 0;
+          left: 0;
+          background: rgba(255, 255, 255, 0.75);
+        }
+
+        .seek-thumb {
+          position: absolute;
+          top: 50%;
+          width: 10px;
+          height: 10px;
+          margin-left: -5px;
+          margin-top: -5px;
+          border-radius: 50%;
+          background: #ffffff;
+          box-shadow: 0 2px 6px rgba(0, 0, 0, 0.5);
+          opacity: 0;
+          transform: scale(0.6);
+          transition: opacity 0.2s ease, transform 0.2s ease;
+          pointer-events: none;
+        }
+
+        .seek-track:hover .seek-thumb,
+        .seek-bar.dragging .seek-thumb {
+          opacity: 1;
+          transform: scale(1);
+        }
+
+        /* Touch devices have no hover - keep the thumb visible */
+        @media (hover: none) and (pointer: coarse) {
+          .seek-thumb {
+            opacity: 1;
+            transform: scale(1);
+          }
+        }
+
+        /* Reduced motion preference */
+        @media (prefers-reduced-motion: reduce) {
+          .seek-bar,
+          .seek-rail,
+          .seek-thumb {
+            transition: none;
+          }
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default SeekBar;
@@ -6,16 +6,19 @@ interface UserInteractionControllerProps {
   onTogglePlayPause: () => void;
   onNextTrack: () => void;
   onPrevTrack: () => void;
+  onTogglePlayMode: () => void;
+  onSeekBy: (deltaSeconds: number) => void;
   onInitialPlay?: () => void;
 }
 
-const UserInteractionController = ({ playState, onTogglePlayPause, onNextTrack, onPrevTrack, onInitialPlay }: UserInteractionControllerProps) => {
+const UserInteractionController = ({ playState, onTogglePlayPause, onNextTrack, onPrevTrack, onTogglePlayMode, onSeekBy, onInitialPlay }: UserInteractionControllerProps) => {
   const touchStartY = useRef<number>(0);
   const touchStartX = useRef<number>(0);
   const touchStartTime = useRef<number>(0);
   const isScrolling = useRef<boolean>(false);
   const lastTrackChangeTime = useRef<number>(0);
   const TRACK_CHANGE_COOLDOWN = 500; // 500ms 冷却时间
+  const KEYBOARD_SEEK_STEP = 5; // Seconds per Shift+Arrow press
 
   // Track change with cooldown
   const handleNextTrackWithCooldown = useCallback(() => {
@@ -42,6 +45,13 @@ const UserInteractionController = ({ playState, onTogglePlayPause, onNextTrack,
         return;
       }
 
+      // Shift+Arrow seeks within the current track
+      if (event.shiftKey && (event.code === 'ArrowLeft' || event.code === 'ArrowRight')) {
+        event.preventDefault();
+        onSeekBy(event.code === 'ArrowRight' ? KEYBOARD_SEEK_STEP : -KEYBOARD_SEEK_STEP);
+        return;
+      }
+
       switch (event.code) {
         case 'Space':
           event.preventDefault();
@@ -72,9 +82,16 @@ const UserInteractionController = ({ playState, onTogglePlayPause, onNextTrack,
           event.preventDefault();
           handlePrevTrackWithCooldown();
           break;
+        case 'KeyM': // Cycle play mode
+          if (event.repeat || event.ctrlKey || event.metaKey || event.altKey) {
+            return;
+          }
+          event.preventDefault();
+          onTogglePlayMode();
+          break;
       }
     },
-    [onTogglePlayPause, handleNextTrackWithCooldown, handlePrevTrackWithCooldown, playState, onInitialPlay]
+    [onTogglePlayPause, handleNextTrackWithCooldown, handlePrevTrackWithCooldown, onTogglePlayMode, onSeekBy, playState, onInitialPlay]
   );
 
   // Handle desktop click events
@@ -83,7 +100,7 @@ const UserInteractionController = ({ playState, onTogglePlayPause, onNextTrack,
       const target = event.target as HTMLElement;
 
       // Check if clicked on interactive elements
-      const isInteractiveElement = target.closest('button') || target.closest('a') || target.closest('input') || target.closest('select') || target.closest('textarea') || target.closest('[role="button"]') || target.closest('.music-platform-button') || target.closest('.play-indicator') || target.closest('.pause-indicator');
+      const isInteractiveElement = target.closest('button') || target.closest('a') || target.closest('input') || target.closest('select') || target.closest('textarea') || target.closest('[role="button"]') || target.closest('[role="slider"]') || target.closest('.music-platform-button') || target.closest('.play-indicator') || target.closest('.pause-indicator');
 
       if (isInteractiveElement) {
         return;
@@ -130,7 +147,7 @@ const UserInteractionController = ({ playState, onTogglePlayPause, onNextTrack,
       const target = event.target as HTMLElement;
 
       // Check if touched interactive elements
-      const isInteractiveElement = target.closest('button') || target.closest('a') || target.closest('input') || target.closest('select') || target.closest('textarea') || target.closest('[role="button"]') || target.closest('.music-platform-button');
+      const isInteractiveElement = target.closest('button') || target.closest('a') || target.closest('input') || target.closest('select') || target.closest('textarea') || target.closest('[role="button"]') || target.closest('[role="slider"]') || target.closest('.music-platform-button');
 
       if (isInteractiveElement) {
         return;
@@ -162,9 +179,16 @@ const UserInteractionController = ({ playState, onTogglePlayPause, onNextTrack,
           // Swipe down - previous track
           handlePrevTrackWithCooldown();
         }
+        return;
+      }
+
+      // Horizontal swipe gesture - cycle play mode
+      if (Math.abs(deltaX) > minSwipeDistance && Math.abs(deltaX) > Math.abs(deltaY) && deltaTime < maxSwipeTime) {
+        event.preventDefault();
+        onTogglePlayMode();
       }
     },
-    [onTogglePlayPause, handleNextTrackWithCooldown, handlePrevTrackWithCooldown]
+    [onTogglePlayPause, handleNextTrackWithCooldown, handlePrevTrackWithCooldown, onTogglePlayMode]
   );
 
   useEffect(() => {
@@ -0,0 +1,59 @@
+/**
+ * Error protocol shared by the /api routes and the client transport
+ *
+ * Every error response carries a `code`; clients decide on retries and
+ * session recovery from the code, never from the message text.
+ */
+export enum ApiErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  NOT_FOUND = 'NOT_FOUND',
+  CONFLICT = 'CONFLICT',
+  SESSION_NOT_FOUND = 'SESSION_NOT_FOUND',
+  SESSION_EXPIRED = 'SESSION_EXPIRED',
+  SESSION_REVOKED = 'SESSION_REVOKED',
+  SESSION_BINDING_MISMATCH = 'SESSION_BINDING_MISMATCH',
+  TRACK_NOT_ALLOWED = 'TRACK_NOT_ALLOWED',
+  // The server released the track's keys: redo the key exchange on the same session
+  TRACK_NOT_KEYED = 'TRACK_NOT_KEYED',
+  CHALLENGE_REQUIRED = 'CHALLENGE_REQUIRED',
+  RATE_LIMITED = 'RATE_LIMITED',
+  STORAGE_UNAVAILABLE = 'STORAGE_UNAVAILABLE',
+  NOT_CONFIGURED = 'NOT_CONFIGURED',
+  INTERNAL_ERROR = 'INTERNAL_ERROR',
+  // Client-side only: the request failed before a response arrived
+  NETWORK_ERROR = 'NETWORK_ERROR',
+}
+
+// Default HTTP status for each code
+export const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  [ApiErrorCode.INVALID_REQUEST]: 400,
+  [ApiErrorCode.UNAUTHORIZED]: 401,
+  [ApiErrorCode.NOT_FOUND]: 404,
+  [ApiErrorCode.CONFLICT]: 409,
+  [ApiErrorCode.SESSION_NOT_FOUND]: 404,
+  [ApiErrorCode.SESSION_EXPIRED]: 410,
+  [ApiErrorCode.SESSION_REVOKED]: 403,
+  [ApiErrorCode.SESSION_BINDING_MISMATCH]: 403,
+  [ApiErrorCode.TRACK_NOT_ALLOWED]: 404,  // Same as a missing file, so the catalog isn't probed
+  [ApiErrorCode.TRACK_NOT_KEYED]: 409,
+  [ApiErrorCode.CHALLENGE_REQUIRED]: 403,
+  [ApiErrorCode.RATE_LIMITED]: 429,
+  [ApiErrorCode.STORAGE_UNAVAILABLE]: 503,
+  [ApiErrorCode.NOT_CONFIGURED]: 503,
+  [ApiErrorCode.INTERNAL_ERROR]: 500,
+  [ApiErrorCode.NETWORK_ERROR]: 0,
+};
+
+// JSON body of every error response
+export interface ApiErrorBody {
+  error: string;        // Short summary
+  code: ApiErrorCode;
+  message?: string;     // Longer explanation for display
+  details?: unknown;
+  retryAfter?: number;  // Seconds (RATE_LIMITED)
+}
+
+export function isApiErrorCode(value: unknown): value is ApiErrorCode {
+  return typeof value === 'string' && value in API_ERROR_STATUS;
+}
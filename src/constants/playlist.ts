@@ -1,4 +1,5 @@
 import type { CompressionLevel } from 'secstream/server';
+import type { QualityTierId, QualityTierSpec } from '../utils/audio/quality-tiers';
 
 export interface AudioTrack {
   id: number;
@@ -47,11 +48,65 @@ export const SECSTREAM_CONFIG = {
   serverCacheSize: 10,           // Keep 10 slices in memory
   serverCacheTtlMs: 300_000,     // Cache for 5 minutes
 
+  // Worker memory management (per isolate)
+  decodedAudioCacheMaxBytes: 64 * 1024 * 1024,  // Decoded audio shared across sessions (~6 min of 44.1kHz stereo)
+  sessionIdleTimeoutMs: 20 * 60 * 1000,         // Drop SessionManagers with no requests for 20 minutes
+  sessionMaxAgeMs: 8 * 60 * 60 * 1000,          // Never keep a SessionManager longer than a DO session can live (sessionExpiry)
+  sessionMaxLoadedTracks: 3,                    // Watermarked track copies per SessionManager (playing, next, one spare)
+
+  // Session lifetime (DO alarm, worker session cache and dev storage)
+  sessionExpiry: {
+    sliding: true,                          // Activity (slices, heartbeats) extends the session; false = fixed lifetime
+    absoluteTimeoutMs: 2 * 60 * 60 * 1000,  // Fixed lifetime when sliding is off
+    idleTimeoutMs: 30 * 60 * 1000,          // Sliding: expire after 30 minutes without activity
+    maxLifetimeMs: 8 * 60 * 60 * 1000,      // Sliding: never extend past 8 hours from creation
+    renewThrottleMs: 60 * 1000,             // Sliding: persist an extension at most once a minute
+  },
+
   // PCM Cache settings (R2-based decoded audio cache)
   pcmCache: {
     enabled: true,               // Enable PCM caching for 100x faster audio loading
     cachePrefix: 'pcm-cache/',   // R2 prefix for PCM cache files
     forceRegenerate: false,      // Force regeneration of cache (useful for debugging)
+    codec: 'deflate' as const,   // 'wav' (raw) or 'deflate' (lossless, smaller in R2)
+    edgeCacheTtlSeconds: 24 * 60 * 60,  // Keep entries read from R2 in the colo's Cache API (0 = off)
+  },
+
+  // Forensic watermark embedded per session before slicing (see utils/audio/watermark.ts)
+  watermark: {
+    enabled: true,
+    strength: 0.01,              // Amplitude relative to the music's RMS (≈ -40 dB)
+    recordPrefix: 'forensics/sessions/',  // R2 prefix for watermark ID -> session records
+  },
+
+  // Quality tiers for slow connections (see utils/audio/quality-tiers.ts)
+  // Rendered from the full-quality PCM and cached like it. Tiers stay 16-bit and
+  // at 22.05kHz or above: below that the forensic watermark is no longer recoverable
+  qualityTiers: {
+    enabled: true,
+    defaultTier: 'high' as QualityTierId,  // Used when a request names no tier
+    tiers: [                               // Best first
+      { id: 'high', label: 'HQ', decimation: 1, mono: false },    // 44.1kHz stereo
+      { id: 'medium', label: 'SD', decimation: 2, mono: false },  // 22.05kHz stereo
+      { id: 'low', label: 'LQ', decimation: 2, mono: true },      // 22.05kHz mono
+    ] as QualityTierSpec[],
+
+    // Client-side choice from slice download throughput (see utils/playback/quality-selector.ts)
+    selection: {
+      minSamples: 3,           // Slices measured before the first switch, and again after each one
+      smoothing: 0.3,          // Weight of the newest sample in the throughput average
+      downgradeHeadroom: 1.5,  // Drop a tier when throughput falls below 1.5x its bitrate
+      upgradeHeadroom: 3,      // Climb a tier when throughput reaches 3x the better tier's bitrate
+
+      // First choice without navigator.connection: throughput of the page's own downloads
+      probeLowBelowBytesPerSecond: 128 * 1024,     // ~1.5x the low tier's bitrate
+      probeMediumBelowBytesPerSecond: 256 * 1024,  // ~1.5x the medium tier's bitrate
+
+      // Re-key the playing track at a new tier (a key exchange, faded) at most this often,
+      // and not when so little is left that the next track can pick the tier up
+      midTrackSwitchMinIntervalMs: 60 * 1000,
+      midTrackSwitchMinRemainingMs: 30 * 1000,
+    },
   },
 
   // Client-side uses AggressiveBufferStrategy with LinearPrefetchStrategy
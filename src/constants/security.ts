@@ -0,0 +1,97 @@
+// Rate limit buckets, each with its own budget per client
+export type RateLimitBucket = 'sessionCreation' | 'keyExchange' | 'slice';
+
+export interface RateLimitBudget {
+  limit: number;      // Requests allowed per window
+  windowMs: number;   // Sliding window length
+}
+
+export const RATE_LIMIT_CONFIG = {
+  enabled: true,
+
+  // How clients are identified:
+  // - 'ip': CF-Connecting-IP only (clients behind one NAT share a budget)
+  // - 'ip-ua': hash of IP + User-Agent (default)
+  identity: 'ip-ua' as 'ip' | 'ip-ua',
+
+  budgets: {
+    sessionCreation: { limit: 10, windowMs: 60 * 1000 },    // New sessions per minute
+    keyExchange: { limit: 60, windowMs: 60 * 1000 },        // One per track switch, plus retries
+    slice: { limit: 600, windowMs: 60 * 1000 },             // 5s slices; generous for seeking and prefetch
+  } satisfies Record<RateLimitBucket, RateLimitBudget>,
+};
+
+// Per-session budgets (on top of the per-client budgets above)
+export const SESSION_RATE_LIMIT_CONFIG = {
+  keyExchange: { limit: 30, windowMs: 60 * 1000 },
+  slice: { limit: 240, windowMs: 60 * 1000 },
+} satisfies Record<'keyExchange' | 'slice', RateLimitBudget>;
+
+// Scraping detection - a flagged session is revoked
+export const ABUSE_DETECTION_CONFIG = {
+  enabled: true,
+
+  // Fetching far faster than real time, per track and quality tier:
+  // over budget when the distinct audio fetched > bufferAllowanceSeconds +
+  // time since the track was first fetched × maxPlaybackSpeed (seeking doesn't reset it)
+  maxPlaybackSpeed: 4,
+  bufferAllowanceSeconds: 90,   // Prewarm, prefetch and seeking headroom
+
+  // Parallel fetching of many tracks:
+  // a track is "streaming" with >= parallelTrackMinSlices slices inside the window
+  // (skipping through tracks only fetches the first few slices of each)
+  parallelTrackWindowMs: 15 * 1000,
+  parallelTrackMinSlices: 4,
+  maxParallelTracks: 2,         // Crossfade streams two tracks at once
+
+  // Over budget: slices are throttled (429) until playback catches up. Only a session
+  // that stays over budget in maxViolations separate windows is revoked
+  violationWindowMs: 60 * 1000,
+  maxViolations: 3,
+  violationMemoryMs: 10 * 60 * 1000,
+};
+
+export type AbuseDetectionPolicy = typeof ABUSE_DETECTION_CONFIG;
+
+// Client binding - ties a session to the browser that created it, so a shared
+// session ID is useless elsewhere. Strictness:
+// - 'off': sessions are not bound
+// - 'report': mismatches are logged and counted, requests still served
+// - 'token': the binding cookie must match; fingerprint changes are only reported (default,
+//   so switching between Wi-Fi and mobile data keeps playing)
+// - 'strict': cookie and fingerprint must both match
+export type SessionBindingMode = 'off' | 'report' | 'token' | 'strict';
+
+export const SESSION_BINDING_CONFIG = {
+  mode: 'token' as SessionBindingMode,
+
+  // Fingerprint recorded at creation:
+  // - 'none': cookie only
+  // - 'ua': User-Agent
+  // - 'network-ua': coarse network (IPv4 /24, IPv6 /48) + User-Agent (default)
+  fingerprint: 'network-ua' as 'none' | 'ua' | 'network-ua',
+
+  // HttpOnly cookie scoped to /api/sessions/<sessionId>, signed with SESSION_BINDING_SECRET
+  cookieName: 'secstream_binding',
+};
+
+// Proof-of-work gate in front of session creation (each session costs R2 reads
+// and PCM decoding). Clients solve a puzzle from GET /api/sessions/challenge in
+// a Web Worker first; the difficulty rises with the session creation rate
+// across isolates, so mass creation gets expensive while one listener's
+// puzzle stays well under a second at normal load.
+export const SESSION_CHALLENGE_CONFIG = {
+  enabled: true,
+  challengeTtlMs: 2 * 60 * 1000,
+
+  // Leading zero bits of SHA-256 (~2^bits hashes to solve) by recent
+  // POST /api/sessions rate, highest matching level wins
+  difficultyLevels: [
+    { sessionsPerMinute: 0, difficulty: 12 },
+    { sessionsPerMinute: 60, difficulty: 14 },
+    { sessionsPerMinute: 300, difficulty: 16 },
+    { sessionsPerMinute: 1000, difficulty: 18 },
+  ],
+  loadWindowMs: 5 * 60 * 1000,    // Window the rate is averaged over
+  loadRefreshMs: 15 * 1000,       // How long an isolate reuses the rate it read
+};
@@ -0,0 +1,57 @@
+import { DurableObject } from 'cloudflare:workers';
+import { MetricsAggregator } from '../utils/metrics/metrics-aggregator';
+import type { MetricsSummary } from '../utils/metrics/metrics-aggregator';
+import type { MetricsBatch } from '../utils/metrics/route-metrics';
+
+interface StoredTotals {
+  since: number;
+  totals: MetricsBatch;
+}
+
+/**
+ * Request metrics aggregated across all worker isolates
+ *
+ * A single instance (idFromName('global')) receives counter batches that each
+ * isolate flushes every few seconds. All-time totals are persisted; the
+ * per-minute buckets behind the recent-window figures live in memory only,
+ * like the RateLimiter's windows - after an eviction they refill within the hour.
+ */
+export class MetricsCollector extends DurableObject {
+  private aggregator = new MetricsAggregator();
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+
+    this.ctx.blockConcurrencyWhile(async () => {
+      const stored = await this.ctx.storage.get<StoredTotals>('totals');
+      if (stored) {
+        this.aggregator = new MetricsAggregator(stored.since, stored.totals);
+      }
+    });
+  }
+
+  /**
+   * Add a batch of counters from one isolate
+   */
+  async record(batch: MetricsBatch): Promise<void> {
+    this.aggregator.add(batch);
+    await this.ctx.storage.put<StoredTotals>('totals', {
+      since: this.aggregator.since,
+      totals: this.aggregator.getTotals(),
+    });
+  }
+
+  /**
+   * Counters over the most recent window (up to an hour)
+   */
+  async getRecentCounts(windowMs: number): Promise<MetricsBatch> {
+    return this.aggregator.recent(windowMs);
+  }
+
+  /**
+   * Totals plus the last hour / last five minutes
+   */
+  async getSummary(): Promise<MetricsSummary> {
+    return this.aggregator.summary();
+  }
+}
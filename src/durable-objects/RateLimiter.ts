@@ -0,0 +1,86 @@
+import { DurableObject } from 'cloudflare:workers';
+import { SlidingWindowLimiter } from '../utils/rate-limit/sliding-window';
+import type { RateLimitResult } from '../utils/rate-limit/sliding-window';
+import { SessionAccessMonitor } from '../utils/rate-limit/session-monitor';
+import type { SessionAccess, SessionAccessResult, SliceAccess } from '../utils/rate-limit/session-monitor';
+import type { AbuseDetectionPolicy } from '../constants/security';
+
+const REDEEMED_PREFIX = 'redeemed:';
+
+/**
+ * Per-client rate limiter Durable Object
+ *
+ * One instance per client identity (idFromName), so every request from a
+ * client is serialized through the same object and counters are atomic -
+ * unlike a KV read-modify-write. Sessions get their own instance
+ * ("session:<id>") for per-session budgets and scraping detection.
+ *
+ * Counters live in memory only: the object stays resident while the client is
+ * active, and if it is evicted after going idle its windows have (nearly)
+ * expired anyway. This keeps rate limiting free of storage writes.
+ * Redeemed one-time tokens are the exception: they are stored until they
+ * expire, so a replay is still refused after the object was evicted.
+ */
+export class RateLimiter extends DurableObject {
+  private limiter = new SlidingWindowLimiter();
+  private sessionMonitor = new SessionAccessMonitor();
+  private longestWindowMs = 0;
+
+  /**
+   * Consume one request from a budget
+   * @param bucket - Budget name (session creation, key exchange, slices...)
+   * @param limit - Requests allowed per window
+   * @param windowMs - Sliding window length
+   */
+  async consume(bucket: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+    this.longestWindowMs = Math.max(this.longestWindowMs, windowMs);
+    this.limiter.cleanup(this.longestWindowMs);
+    return this.limiter.consume(bucket, limit, windowMs);
+  }
+
+  /**
+   * Redeem a one-time token (session challenge nonce) for this client
+   * @param expiresAt - When the token stops being valid anyway, after which it is forgotten
+   * @returns false if it was already redeemed
+   */
+  async redeemToken(token: string, expiresAt: number): Promise<boolean> {
+    const now = Date.now();
+    const redeemed = await this.ctx.storage.list<number>({ prefix: REDEEMED_PREFIX });
+    const expired = [...redeemed].filter(([, expiry]) => expiry <= now).map(([key]) => key);
+    if (expired.length > 0) {
+      await this.ctx.storage.delete(expired);
+    }
+
+    const key = `${REDEEMED_PREFIX}${token}`;
+    if ((redeemed.get(key) ?? 0) > now) {
+      return false;
+    }
+    await this.ctx.storage.put(key, expiresAt);
+    return true;
+  }
+
+  /**
+   * Record a session access (per-session instances only)
+   */
+  async inspectSessionAccess(access: SessionAccess): Promise<SessionAccessResult> {
+    return this.sessionMonitor.inspect(access);
+  }
+
+  /**
+   * Refuse every later access to this session (it was revoked)
+   */
+  async revokeSession(reason: string): Promise<void> {
+    this.sessionMonitor.revoke(reason);
+  }
+
+  /**
+   * Scraping detection for a slice request of this session
+   */
+  async recordSessionSlice(
+    slice: SliceAccess,
+    policy: AbuseDetectionPolicy,
+    sliceDurationMs: number
+  ): Promise<SessionAccessResult> {
+    return this.sessionMonitor.recordSlice(slice, policy, sliceDurationMs);
+  }
+}
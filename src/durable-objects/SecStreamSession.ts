@@ -1,4 +1,8 @@
 import { DurableObject } from 'cloudflare:workers';
+import { createSessionExpiry, renewSessionExpiry } from '../utils/session/session-expiry';
+import type { SessionExpiry, SessionExpiryPolicy } from '../utils/session/session-expiry';
+import type { SessionBinding } from '../utils/session/session-binding';
+import { SECSTREAM_CONFIG } from '../constants/playlist';
 
 /**
  * Custom error for expired sessions
@@ -11,6 +15,45 @@ export class SessionExpiredError extends Error {
   }
 }
 
+/**
+ * Custom error for revoked sessions (e.g. flagged for scraping)
+ */
+export class SessionRevokedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionRevokedError';
+  }
+}
+
+/**
+ * Lifecycle state reported to workers revalidating a cached session
+ */
+export type SessionStatus = 'active' | 'revoked' | 'expired' | 'not_found';
+
+export interface SessionState {
+  status: SessionStatus;
+  expiry: SessionExpiry | null;  // null when the session does not exist
+}
+
+export interface StoredSessionMetadata {
+  sessionId: string;  // Internal secstream session ID
+  audioKeys: string[];
+  createdAt: number;
+  expiry: SessionExpiry;
+  sliceDurationMs?: number;  // Fixed at creation (missing for sessions stored before it was)
+  binding?: SessionBinding;  // Client the session is bound to (see session-binding.ts)
+}
+
+// Settings a session is created with, from the worker's runtime settings
+export interface SessionCreationSettings {
+  expiryPolicy: SessionExpiryPolicy;
+  sliceDurationMs: number;
+}
+
+export type SessionLookup =
+  | { status: 'active'; metadata: StoredSessionMetadata }
+  | { status: Exclude<SessionStatus, 'active'>; metadata?: undefined };
+
 /**
  * Lightweight Durable Object for session metadata storage ONLY
  *
@@ -26,9 +69,11 @@ export class SessionExpiredError extends Error {
  * - Worker processes audio locally (no DO bottleneck)
  *
  * Lifecycle:
- * - Sessions expire after 2 hours from creation (absolute timeout)
- * - Automatic cleanup via alarms
- * - Zero storage writes during playback
+ * - Absolute mode: sessions expire a fixed time after creation
+ * - Sliding mode: slice fetches and heartbeats extend expiry (and the alarm)
+ *   up to a maximum lifetime; extensions are throttled to one write a minute
+ * - Automatic cleanup via alarms, or explicit teardown via endSession()
+ * - Revocation keeps the metadata (flagged) until expiry so reuse is rejected
  */
 export class SecStreamSession extends DurableObject {
   // Session metadata (lightweight, persisted to DO storage)
@@ -37,16 +82,19 @@ export class SecStreamSession extends DurableObject {
     sessionId: string | null;  // Session ID (for secstream)
     audioKeys: string[];  // R2 keys for audio files
     createdAt: number;
+    expiry: SessionExpiry | null;
+    sliceDurationMs?: number;
+    binding?: SessionBinding;
+    revokedAt?: number;  // Set when the session is revoked
+    revokedReason?: string;
   } = {
     doId: null,
     sessionId: null,
     audioKeys: [],
     createdAt: 0,
+    expiry: null,
   };
 
-  // Session expires after 2 hours from creation (absolute timeout)
-  private readonly SESSION_TIMEOUT_MS = 2 * 60 * 60 * 1000;
-
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
 
@@ -55,20 +103,26 @@ export class SecStreamSession extends DurableObject {
       // Load session data from storage if it exists
       const stored = await this.ctx.storage.get<typeof this.sessionData>('sessionData');
       if (stored) {
-        this.sessionData = stored;
+        // Sessions stored before sliding expiry keep their absolute timeout
+        this.sessionData = {
+          ...stored,
+          expiry: stored.expiry ?? createSessionExpiry(stored.createdAt, {
+            ...SECSTREAM_CONFIG.sessionExpiry,
+            sliding: false,
+          }),
+        };
         console.log(`📂 Loaded session metadata from storage: DO ${stored.doId}`);
 
         // Check if session has expired
-        const now = Date.now();
-        const age = now - stored.createdAt;
-        if (age >= this.SESSION_TIMEOUT_MS) {
+        if (this.isSessionExpired()) {
+          const age = Date.now() - stored.createdAt;
           console.log(`⏰ Session expired (age: ${(age / 1000 / 60).toFixed(1)} min), cleaning up...`);
           await this.destroySession();
           return;
         }
 
         // Session is valid, ensure alarm is set for expiration
-        const expirationTime = stored.createdAt + this.SESSION_TIMEOUT_MS;
+        const expirationTime = this.sessionData.expiry!.expiresAt;
         const alarmTime = await this.ctx.storage.getAlarm();
         if (alarmTime === null || Math.abs(alarmTime - expirationTime) > 1000) {
           await this.ctx.storage.setAlarm(expirationTime);
@@ -79,11 +133,10 @@ export class SecStreamSession extends DurableObject {
   }
 
   /**
-   * Initialize cleanup alarm
+   * Set the cleanup alarm to the current expiry
    */
-  private async initializeAlarm() {
-    const now = Date.now();
-    const expirationTime = now + this.SESSION_TIMEOUT_MS;
+  private async scheduleAlarm() {
+    const expirationTime = this.sessionData.expiry!.expiresAt;
     await this.ctx.storage.setAlarm(expirationTime);
     console.log(`⏰ Alarm set for ${new Date(expirationTime).toISOString()}`);
   }
@@ -92,6 +145,12 @@ export class SecStreamSession extends DurableObject {
    * Alarm handler - cleanup expired session
    */
   async alarm() {
+    // A renewal may have raced the alarm; reschedule instead of destroying
+    if (!this.isSessionExpired()) {
+      await this.scheduleAlarm();
+      return;
+    }
+
     const now = Date.now();
     const age = this.sessionData.createdAt ? now - this.sessionData.createdAt : 0;
     console.log(`⏰ Alarm triggered for DO ${this.sessionData.doId} (age: ${(age / 1000 / 60).toFixed(1)} min), cleaning up...`);
@@ -107,6 +166,7 @@ export class SecStreamSession extends DurableObject {
       sessionId: null,
       audioKeys: [],
       createdAt: 0,
+      expiry: null,
     };
 
     await this.ctx.storage.deleteAlarm();
@@ -119,21 +179,22 @@ export class SecStreamSession extends DurableObject {
    * Check if session has expired
    */
   private isSessionExpired(): boolean {
-    if (!this.sessionData.createdAt) {
+    if (!this.sessionData.createdAt || !this.sessionData.expiry) {
       return true;
     }
-    const now = Date.now();
-    const age = now - this.sessionData.createdAt;
-    return age >= this.SESSION_TIMEOUT_MS;
+    return Date.now() >= this.sessionData.expiry.expiresAt;
   }
 
   /**
-   * Throw error if session is expired
+   * Throw error if session is expired or revoked
    */
   private checkSessionExpired(doId: string): void {
     if (this.isSessionExpired()) {
       throw new SessionExpiredError(`Session ${doId} has expired. Please create a new session.`);
     }
+    if (this.sessionData.revokedAt) {
+      throw new SessionRevokedError(`Session ${doId} has been revoked: ${this.sessionData.revokedReason ?? 'no reason given'}`);
+    }
   }
 
   /**
@@ -141,8 +202,17 @@ export class SecStreamSession extends DurableObject {
    * @param doId - Durable Object ID
    * @param sessionId - Session ID for secstream
    * @param audioKeys - R2 object keys for audio files
+   * @param settings - Expiry policy and slice duration the session keeps for its lifetime
+   * @param binding - Client binding, if binding is enabled
+   * @returns Expiry the client should renew against
    */
-  async createSession(doId: string, sessionId: string, audioKeys: string[]): Promise<void> {
+  async createSession(
+    doId: string,
+    sessionId: string,
+    audioKeys: string[],
+    settings: SessionCreationSettings,
+    binding?: SessionBinding
+  ): Promise<SessionExpiry> {
     const now = Date.now();
 
     this.sessionData = {
@@ -150,40 +220,45 @@ export class SecStreamSession extends DurableObject {
       sessionId,
       audioKeys,
       createdAt: now,
+      expiry: createSessionExpiry(now, settings.expiryPolicy),
+      sliceDurationMs: settings.sliceDurationMs,
+      binding,
     };
 
     // Persist metadata to storage
     await this.ctx.storage.put('sessionData', this.sessionData);
-    await this.initializeAlarm();
+    await this.scheduleAlarm();
 
     console.log(`✅ Created session metadata in DO ${doId}`);
     console.log(`📝 Session: ${sessionId}, Audio keys: ${audioKeys.join(', ')}`);
     console.log(`💾 Storage size: ~${JSON.stringify(this.sessionData).length} bytes`);
+
+    return this.sessionData.expiry!;
   }
 
   /**
    * Get session metadata
    * This is the ONLY data worker needs from DO (lightweight query)
+   * Never throws for a missing/expired/revoked session - the status says why
    */
-  async getSessionMetadata(doId: string): Promise<{
-    sessionId: string;
-    audioKeys: string[];
-    createdAt: number;
-  }> {
-    // Check if session has expired
-    this.checkSessionExpired(doId);
-
-    // Verify DO ID matches
-    if (this.sessionData.doId !== doId) {
-      throw new Error(`Session ${doId} not found in this Durable Object`);
+  async lookupSession(doId: string): Promise<SessionLookup> {
+    const { status } = await this.getSessionState(doId);
+    if (status !== 'active') {
+      return { status };
     }
 
     console.log(`📋 Retrieved metadata for session ${doId} (~${JSON.stringify(this.sessionData).length} bytes)`);
 
     return {
-      sessionId: this.sessionData.sessionId!,
-      audioKeys: this.sessionData.audioKeys,
-      createdAt: this.sessionData.createdAt,
+      status,
+      metadata: {
+        sessionId: this.sessionData.sessionId!,
+        audioKeys: this.sessionData.audioKeys,
+        createdAt: this.sessionData.createdAt,
+        expiry: this.sessionData.expiry!,
+        sliceDurationMs: this.sessionData.sliceDurationMs,
+        binding: this.sessionData.binding,
+      },
     };
   }
 
@@ -198,4 +273,68 @@ export class SecStreamSession extends DurableObject {
       return false;
     }
   }
+
+  /**
+   * Revoke the session (kept until the expiry alarm so reuse is rejected)
+   * @param doId - Durable Object ID
+   * @param reason - Why the session was revoked (logged and returned to lookups)
+   */
+  async revokeSession(doId: string, reason: string): Promise<boolean> {
+    if (this.sessionData.doId !== doId || this.isSessionExpired()) {
+      return false;
+    }
+
+    if (!this.sessionData.revokedAt) {
+      this.sessionData.revokedAt = Date.now();
+      this.sessionData.revokedReason = reason;
+      await this.ctx.storage.put('sessionData', this.sessionData);
+      console.warn(`🚫 Session ${doId} revoked: ${reason}`);
+    }
+
+    return true;
+  }
+
+  /**
+   * Report the session state without throwing
+   * Used by workers to revalidate their cached copy of the metadata
+   * @param renewPolicy - Record activity under this policy (sliding sessions extend their expiry and alarm)
+   */
+  async getSessionState(doId: string, renewPolicy?: SessionExpiryPolicy): Promise<SessionState> {
+    if (this.sessionData.doId !== doId) {
+      return { status: 'not_found', expiry: null };
+    }
+    if (this.isSessionExpired()) {
+      return { status: 'expired', expiry: this.sessionData.expiry };
+    }
+    if (this.sessionData.revokedAt) {
+      return { status: 'revoked', expiry: this.sessionData.expiry };
+    }
+
+    if (renewPolicy) {
+      const renewed = renewSessionExpiry(this.sessionData.expiry!, Date.now(), renewPolicy);
+      if (renewed) {
+        this.sessionData.expiry = renewed;
+        await this.ctx.storage.put('sessionData', this.sessionData);
+        await this.scheduleAlarm();
+      }
+    }
+
+    return { status: 'active', expiry: this.sessionData.expiry };
+  }
+
+  /**
+   * End the session explicitly (client teardown) and clear storage
+   * @returns Internal secstream session ID so the worker can free its SessionManager,
+   *          or null if the session does not exist
+   */
+  async endSession(doId: string): Promise<string | null> {
+    if (this.sessionData.doId !== doId) {
+      return null;
+    }
+
+    const sessionId = this.sessionData.sessionId;
+    console.log(`👋 Ending session ${doId} on client request`);
+    await this.destroySession();
+    return sessionId;
+  }
 }
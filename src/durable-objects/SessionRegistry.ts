@@ -0,0 +1,102 @@
+import { DurableObject } from 'cloudflare:workers';
+
+/**
+ * Registry entry for one live session (DO ID → summary)
+ */
+export interface RegisteredSession {
+  doId: string;
+  trackCount: number;
+  createdAt: number;
+  expiresAt: number;
+  revokedAt?: number;
+  revokedReason?: string;
+}
+
+/**
+ * Index of live sessions for admin listing and bulk revocation
+ *
+ * Session DOs are created with newUniqueId() and cannot be enumerated, so a
+ * single registry instance (idFromName('global')) records each session when it
+ * is created and drops it when it ends. Entries past their expiry are pruned
+ * lazily on every call, so no alarm is needed.
+ *
+ * The registry is bookkeeping only: the SecStreamSession DO stays the source
+ * of truth for whether a session is valid.
+ */
+export class SessionRegistry extends DurableObject {
+  private sessions = new Map<string, RegisteredSession>();
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+
+    this.ctx.blockConcurrencyWhile(async () => {
+      const stored = await this.ctx.storage.list<RegisteredSession>();
+      for (const entry of stored.values()) {
+        this.sessions.set(entry.doId, entry);
+      }
+      console.log(`📂 Session registry loaded ${this.sessions.size} entries`);
+    });
+  }
+
+  /**
+   * Drop entries whose session has expired
+   */
+  private async prune(): Promise<void> {
+    const now = Date.now();
+    const expired: string[] = [];
+
+    for (const [doId, entry] of this.sessions) {
+      if (now >= entry.expiresAt) {
+        expired.push(doId);
+      }
+    }
+
+    if (expired.length > 0) {
+      for (const doId of expired) {
+        this.sessions.delete(doId);
+      }
+      await this.ctx.storage.delete(expired);
+      console.log(`🧹 Session registry pruned ${expired.length} expired entries`);
+    }
+  }
+
+  /**
+   * Record a newly created session
+   */
+  async register(entry: RegisteredSession): Promise<void> {
+    await this.prune();
+    this.sessions.set(entry.doId, entry);
+    await this.ctx.storage.put(entry.doId, entry);
+  }
+
+  /**
+   * Remove a session that has ended
+   */
+  async unregister(doId: string): Promise<void> {
+    if (this.sessions.delete(doId)) {
+      await this.ctx.storage.delete(doId);
+    }
+  }
+
+  /**
+   * Record that a session was revoked (kept listed until it expires)
+   */
+  async markRevoked(doId: string, reason: string): Promise<void> {
+    const entry = this.sessions.get(doId);
+    if (!entry || entry.revokedAt) {
+      return;
+    }
+
+    entry.revokedAt = Date.now();
+    entry.revokedReason = reason;
+    await this.ctx.storage.put(doId, entry);
+  }
+
+  /**
+   * List live sessions, newest first
+   */
+  async list(): Promise<RegisteredSession[]> {
+    await this.prune();
+    return Array.from(this.sessions.values()).sort((a, b) => b.createdAt - a.createdAt);
+  }
+}
@@ -3,5 +3,20 @@
 type Runtime = import('@astrojs/cloudflare').Runtime<Env>;
 
 declare namespace App {
-  interface Locals extends Runtime {}
+  interface Locals extends Runtime {
+    // Set by sessionRoute() for /api/sessions/:sessionId/* routes
+    session?: import('./utils/session/session-route').ActiveSession;
+    timing?: import('./utils/api/request-timing').RequestTiming;
+  }
+}
+
+// Secrets (wrangler secret put / .dev.vars) are not emitted by `wrangler types`
+declare namespace Cloudflare {
+  interface Env {
+    ADMIN_API_TOKEN?: string;
+    SESSION_BINDING_SECRET?: string;
+    SESSION_CHALLENGE_SECRET?: string;
+    // Optional runtime settings overrides (see utils/config/settings.ts); env var overrides are read by name
+    SETTINGS_KV?: KVNamespace;
+  }
 }
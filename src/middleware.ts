@@ -0,0 +1,22 @@
+import { defineMiddleware } from 'astro:middleware';
+import { recordRequest } from './utils/metrics/metrics';
+
+/**
+ * Record latency and status of every /api request (see /api/stats)
+ * Requests are grouped by route pattern, so each session ID is not its own route.
+ */
+export const onRequest = defineMiddleware(async (context, next) => {
+  if (!context.url.pathname.startsWith('/api/')) {
+    return next();
+  }
+
+  const startedAt = Date.now();
+  let status = 500;
+  try {
+    const response = await next();
+    status = response.status;
+    return response;
+  } finally {
+    recordRequest(context.routePattern, status, Date.now() - startedAt, context.locals);
+  }
+});
@@ -0,0 +1,35 @@
+import type { APIRoute } from 'astro';
+import { requireAdmin, adminJson, adminError } from '../../../utils/admin/admin-auth.js';
+import { ApiErrorCode } from '../../../utils/api/api-error.js';
+import { AudioFileHandler } from '../../../utils/audio/secstream.js';
+
+/**
+ * List bucket contents
+ * Always includes the playable audio files; ?prefix=cover/ (etc.) adds a
+ * detailed object listing for that prefix
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  const unauthorized = requireAdmin(request, locals);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const bucket = locals.runtime.env.AUDIO_BUCKET;
+    if (!bucket) {
+      return adminError(ApiErrorCode.STORAGE_UNAVAILABLE, 'Audio storage not available');
+    }
+
+    const audioHandler = new AudioFileHandler();
+    const prefix = new URL(request.url).searchParams.get('prefix');
+
+    const audioFiles = await audioHandler.listAudioFiles(bucket);
+    const objects = prefix !== null ? await audioHandler.listObjects(bucket, prefix) : undefined;
+
+    return adminJson({
+      audioFiles,
+      ...(objects && { prefix, objects }),
+    });
+  } catch (error) {
+    console.error('❌ Admin list bucket error:', error);
+    return adminError(ApiErrorCode.INTERNAL_ERROR, 'Failed to list bucket contents');
+  }
+};
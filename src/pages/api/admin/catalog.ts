@@ -0,0 +1,59 @@
+import type { APIRoute } from 'astro';
+import { requireAdmin, adminJson, adminError } from '../../../utils/admin/admin-auth.js';
+import { ApiErrorCode } from '../../../utils/api/api-error.js';
+import { catalogService, validateCatalogManifest } from '../../../utils/catalog/catalog-service.js';
+
+/**
+ * Get the raw catalog manifest
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  const unauthorized = requireAdmin(request, locals);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const catalog = await catalogService.getCatalog(locals.runtime.env.AUDIO_BUCKET);
+    return adminJson({ source: catalog.source, manifest: catalog.manifest });
+  } catch (error) {
+    console.error('❌ Admin get catalog error:', error);
+    return adminError(ApiErrorCode.INTERNAL_ERROR, 'Failed to get catalog');
+  }
+};
+
+/**
+ * Replace the catalog manifest (reorder, hide or edit tracks in one go)
+ */
+export const PUT: APIRoute = async ({ request, locals }) => {
+  const unauthorized = requireAdmin(request, locals);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const bucket = locals.runtime.env.AUDIO_BUCKET;
+    if (!bucket) {
+      return adminError(ApiErrorCode.STORAGE_UNAVAILABLE, 'Audio storage not available');
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return adminError(ApiErrorCode.INVALID_REQUEST, 'Request body must be valid JSON');
+    }
+
+    const validation = validateCatalogManifest(body);
+    if (!validation.valid) {
+      return adminError(ApiErrorCode.INVALID_REQUEST, 'Invalid catalog manifest', { details: validation.errors });
+    }
+
+    const result = await catalogService.saveManifest(validation.manifest, bucket);
+    if (!result.valid) {
+      return adminError(ApiErrorCode.INVALID_REQUEST, 'Invalid catalog manifest', { details: result.errors });
+    }
+
+    return adminJson({ manifest: result.manifest });
+  } catch (error) {
+    console.error('❌ Admin save catalog error:', error);
+    return adminError(ApiErrorCode.INTERNAL_ERROR, 'Failed to save catalog', {
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
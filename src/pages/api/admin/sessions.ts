@@ -0,0 +1,72 @@
+import type { APIRoute } from 'astro';
+import { requireAdmin, adminJson, adminError } from '../../../utils/admin/admin-auth.js';
+import { ApiErrorCode } from '../../../utils/api/api-error.js';
+import { listSessions } from '../../../utils/storage/session-storage-adapter.js';
+import { revokeSessionEverywhere } from '../../../utils/session/session-lifecycle.js';
+
+// Revocations sent to session DOs at once during a bulk revoke
+const REVOKE_BATCH_SIZE = 10;
+
+/**
+ * List live sessions (from the session registry)
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  const unauthorized = requireAdmin(request, locals);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const sessions = await listSessions(locals);
+    return adminJson({
+      sessions,
+      total: sessions.length,
+      revoked: sessions.filter(session => session.revokedReason !== undefined).length,
+    });
+  } catch (error) {
+    console.error('❌ Admin list sessions error:', error);
+    return adminError(ApiErrorCode.INTERNAL_ERROR, 'Failed to list sessions', {
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Revoke every live session
+ * Optional JSON body: { reason }
+ */
+export const DELETE: APIRoute = async ({ request, locals }) => {
+  const unauthorized = requireAdmin(request, locals);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json().catch(() => ({})) as { reason?: unknown };
+    const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : 'Revoked by admin';
+
+    const sessions = (await listSessions(locals)).filter(session => session.revokedReason === undefined);
+    let revoked = 0;
+    const failed: string[] = [];
+
+    for (let i = 0; i < sessions.length; i += REVOKE_BATCH_SIZE) {
+      const batch = sessions.slice(i, i + REVOKE_BATCH_SIZE);
+      const results = await Promise.allSettled(
+        batch.map(session => revokeSessionEverywhere(session.doId, reason, locals))
+      );
+
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          if (result.value) revoked++;
+        } else {
+          console.error(`❌ Failed to revoke session ${batch[index].doId}:`, result.reason);
+          failed.push(batch[index].doId);
+        }
+      });
+    }
+
+    console.warn(`🚫 Admin revoked ${revoked} of ${sessions.length} sessions: ${reason}`);
+    return adminJson({ revoked, failed, reason });
+  } catch (error) {
+    console.error('❌ Admin revoke all sessions error:', error);
+    return adminError(ApiErrorCode.INTERNAL_ERROR, 'Failed to revoke sessions', {
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
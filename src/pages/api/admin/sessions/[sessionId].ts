@@ -0,0 +1,35 @@
+import type { APIRoute } from 'astro';
+import { requireAdmin, adminJson, adminError } from '../../../../utils/admin/admin-auth.js';
+import { ApiErrorCode } from '../../../../utils/api/api-error.js';
+import { revokeSessionEverywhere } from '../../../../utils/session/session-lifecycle.js';
+
+/**
+ * Revoke one session
+ * Optional JSON body: { reason }
+ */
+export const DELETE: APIRoute = async ({ params, request, locals }) => {
+  const unauthorized = requireAdmin(request, locals);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const sessionId = params.sessionId;  // DO ID, as returned to clients
+    if (!sessionId) {
+      return adminError(ApiErrorCode.INVALID_REQUEST, 'Session ID is required');
+    }
+
+    const body = await request.json().catch(() => ({})) as { reason?: unknown };
+    const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : 'Revoked by admin';
+
+    const revoked = await revokeSessionEverywhere(sessionId, reason, locals);
+    if (!revoked) {
+      return adminError(ApiErrorCode.SESSION_NOT_FOUND, 'Session not found or expired');
+    }
+
+    return adminJson({ sessionId, revoked, reason });
+  } catch (error) {
+    console.error('❌ Admin revoke session error:', error);
+    return adminError(ApiErrorCode.INTERNAL_ERROR, 'Failed to revoke session', {
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
@@ -0,0 +1,61 @@
+import type { APIRoute } from 'astro';
+import { requireAdmin, adminJson, adminError } from '../../../utils/admin/admin-auth.js';
+import { ApiErrorCode } from '../../../utils/api/api-error.js';
+import { settingsService } from '../../../utils/config/settings-service.js';
+
+/**
+ * Get the effective settings, where each one comes from, and the KV overrides
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  const unauthorized = requireAdmin(request, locals);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const kv = locals.runtime.env.SETTINGS_KV;
+    const resolved = await settingsService.resolve(locals);
+    return adminJson({
+      settings: resolved.settings,
+      sources: resolved.sources,
+      errors: resolved.errors,
+      overrides: kv ? await settingsService.getOverrides(kv) : null,
+    });
+  } catch (error) {
+    console.error('❌ Admin get settings error:', error);
+    return adminError(ApiErrorCode.INTERNAL_ERROR, 'Failed to get settings');
+  }
+};
+
+/**
+ * Replace the KV overrides (send {} to go back to env vars and defaults)
+ */
+export const PUT: APIRoute = async ({ request, locals }) => {
+  const unauthorized = requireAdmin(request, locals);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const kv = locals.runtime.env.SETTINGS_KV;
+    if (!kv) {
+      return adminError(ApiErrorCode.STORAGE_UNAVAILABLE, 'Settings storage not available');
+    }
+
+    let overrides: unknown;
+    try {
+      overrides = await request.json();
+    } catch {
+      return adminError(ApiErrorCode.INVALID_REQUEST, 'Request body must be valid JSON');
+    }
+
+    const result = await settingsService.saveOverrides(overrides, kv);
+    if (result.errors.length > 0) {
+      return adminError(ApiErrorCode.INVALID_REQUEST, 'Invalid settings', { details: result.errors });
+    }
+
+    const resolved = await settingsService.resolve(locals);
+    return adminJson({ settings: resolved.settings, sources: resolved.sources, overrides: result.settings });
+  } catch (error) {
+    console.error('❌ Admin save settings error:', error);
+    return adminError(ApiErrorCode.INTERNAL_ERROR, 'Failed to save settings', {
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
@@ -0,0 +1,167 @@
+import type { APIRoute } from 'astro';
+import { requireAdmin, adminJson, adminError } from '../../../utils/admin/admin-auth.js';
+import { ApiErrorCode } from '../../../utils/api/api-error.js';
+import { putUploadIfAbsent, slugifyTitle, validateAudioUpload, validateCoverUpload } from '../../../utils/admin/uploads.js';
+import { catalogService } from '../../../utils/catalog/catalog-service.js';
+import type { CatalogTrack, CatalogValidationResult } from '../../../utils/catalog/catalog-service.js';
+import { AudioFileHandler, createPcmCacheManager } from '../../../utils/audio/secstream.js';
+import { settingsService } from '../../../utils/config/settings-service.js';
+
+/**
+ * List all catalog tracks, including hidden ones
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  const unauthorized = requireAdmin(request, locals);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const bucket = locals.runtime.env.AUDIO_BUCKET;
+    const catalog = await catalogService.getCatalog(bucket);
+
+    return adminJson({
+      source: catalog.source,
+      updatedAt: catalog.manifest.updatedAt,
+      tracks: catalog.manifest.tracks,
+      count: catalog.manifest.tracks.length,
+    });
+  } catch (error) {
+    console.error('❌ Admin list tracks error:', error);
+    return adminError(ApiErrorCode.INTERNAL_ERROR, 'Failed to list tracks');
+  }
+};
+
+/**
+ * Upload a new track (multipart/form-data)
+ * Fields: audio (file, required), cover (file, optional), title (required),
+ * duration (seconds, optional), hidden ("true" to upload unpublished)
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  const unauthorized = requireAdmin(request, locals);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const bucket = locals.runtime.env.AUDIO_BUCKET;
+    if (!bucket) {
+      return adminError(ApiErrorCode.STORAGE_UNAVAILABLE, 'Audio storage not available');
+    }
+
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return adminError(ApiErrorCode.INVALID_REQUEST, 'Request body must be multipart form data');
+    }
+    const audio = formData.get('audio');
+    const cover = formData.get('cover');
+    const title = formData.get('title');
+    const duration = formData.get('duration');
+    const hidden = formData.get('hidden') === 'true';
+
+    if (!(audio instanceof File)) {
+      return adminError(ApiErrorCode.INVALID_REQUEST, 'Audio file is required');
+    }
+
+    if (typeof title !== 'string' || title.trim() === '') {
+      return adminError(ApiErrorCode.INVALID_REQUEST, 'Title is required');
+    }
+
+    const audioValidation = validateAudioUpload(audio);
+    if (!audioValidation.valid) {
+      return adminError(ApiErrorCode.INVALID_REQUEST, audioValidation.error);
+    }
+
+    const coverFile = cover instanceof File && cover.size > 0 ? cover : null;
+    const coverValidation = coverFile ? validateCoverUpload(coverFile) : null;
+    if (coverValidation && !coverValidation.valid) {
+      return adminError(ApiErrorCode.INVALID_REQUEST, coverValidation.error);
+    }
+
+    const parsedDuration = typeof duration === 'string' && duration !== '' ? Number(duration) : undefined;
+    if (parsedDuration !== undefined && (!isFinite(parsedDuration) || parsedDuration <= 0)) {
+      return adminError(ApiErrorCode.INVALID_REQUEST, 'Duration must be a positive number of seconds');
+    }
+
+    // Start from the current catalog (built-in playlist becomes the first manifest)
+    const catalog = await catalogService.getCatalog(bucket);
+    const tracks = catalog.manifest.tracks;
+
+    const slug = slugifyTitle(title);
+    const audioKey = `audio/${slug}.${audioValidation.extension}`;
+    const coverKey = coverValidation?.valid ? `cover/${slug}.${coverValidation.extension}` : undefined;
+
+    if (tracks.some(track => track.audioKey === audioKey)) {
+      return adminError(ApiErrorCode.CONFLICT, `A track already uses ${audioKey}`);
+    }
+
+    // Never overwrite objects that exist outside the catalog
+    if (coverKey && await bucket.head(coverKey)) {
+      return adminError(ApiErrorCode.CONFLICT, `An object already exists at ${coverKey}`);
+    }
+
+    // Store files in R2
+    if (!await putUploadIfAbsent(bucket, audioKey, audio)) {
+      return adminError(ApiErrorCode.CONFLICT, `An object already exists at ${audioKey}`);
+    }
+    // Objects this request wrote, removed again if the track isn't published
+    const uploadedKeys = [audioKey];
+    console.log(`📤 Uploaded audio: ${audioKey} (${(audio.size / 1024 / 1024).toFixed(2)} MB)`);
+
+    if (coverFile && coverKey) {
+      if (!await putUploadIfAbsent(bucket, coverKey, coverFile)) {
+        // Lost a race for the cover key: don't leave the audio behind
+        await bucket.delete(uploadedKeys);
+        return adminError(ApiErrorCode.CONFLICT, `An object already exists at ${coverKey}`);
+      }
+      uploadedKeys.push(coverKey);
+      console.log(`📤 Uploaded cover: ${coverKey}`);
+    }
+
+    const track: CatalogTrack = {
+      id: tracks.reduce((maxId, t) => Math.max(maxId, t.id), -1) + 1,
+      title: title.trim(),
+      audioKey,
+      ...(coverKey && { coverKey }),
+      ...(parsedDuration !== undefined && { duration: parsedDuration }),
+      ...(hidden && { hidden }),
+    };
+
+    // Orphaned uploads would make their keys CONFLICT forever
+    let result: CatalogValidationResult;
+    try {
+      result = await catalogService.saveManifest({
+        ...catalog.manifest,
+        tracks: [...tracks, track],
+      }, bucket);
+    } catch (error) {
+      await bucket.delete(uploadedKeys);
+      throw error;
+    }
+
+    if (!result.valid) {
+      await bucket.delete(uploadedKeys);
+      return adminError(ApiErrorCode.INVALID_REQUEST, 'Invalid catalog manifest', { details: result.errors });
+    }
+
+    // Decode to PCM in the background so the first listener doesn't pay for it
+    const audioHandler = new AudioFileHandler();
+    const prewarm = createPcmCacheManager(await settingsService.getSettings(locals)).prewarmCache(
+      [audioKey],
+      key => audioHandler.getAudioFromBucket(key, bucket),
+      bucket
+    );
+    const ctx = locals.runtime.ctx;
+    if (ctx && ctx.waitUntil) {
+      ctx.waitUntil(prewarm);
+    } else {
+      await prewarm;
+    }
+
+    console.log(`✅ Track published: ${track.title} (id ${track.id})`);
+    return adminJson({ track }, 201);
+  } catch (error) {
+    console.error('❌ Admin upload track error:', error);
+    return adminError(ApiErrorCode.INTERNAL_ERROR, 'Failed to upload track', {
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
@@ -0,0 +1,128 @@
+import type { APIRoute } from 'astro';
+import { requireAdmin, adminJson, adminError } from '../../../../utils/admin/admin-auth.js';
+import { ApiErrorCode } from '../../../../utils/api/api-error.js';
+import { catalogService } from '../../../../utils/catalog/catalog-service.js';
+import type { CatalogTrack } from '../../../../utils/catalog/catalog-service.js';
+import { createPcmCacheManager } from '../../../../utils/audio/secstream.js';
+
+function parseTrackId(value: string | undefined): number | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  return Number(value);
+}
+
+/**
+ * Edit track metadata (JSON body)
+ * Accepts: title, duration, hidden
+ */
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  const unauthorized = requireAdmin(request, locals);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const bucket = locals.runtime.env.AUDIO_BUCKET;
+    if (!bucket) {
+      return adminError(ApiErrorCode.STORAGE_UNAVAILABLE, 'Audio storage not available');
+    }
+
+    const trackId = parseTrackId(params.trackId);
+    if (trackId === null) {
+      return adminError(ApiErrorCode.INVALID_REQUEST, 'Invalid track ID');
+    }
+
+    let body: { title?: unknown; duration?: unknown; hidden?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return adminError(ApiErrorCode.INVALID_REQUEST, 'Request body must be valid JSON');
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return adminError(ApiErrorCode.INVALID_REQUEST, 'Request body must be a JSON object');
+    }
+
+    const catalog = await catalogService.getCatalog(bucket);
+    const existing = catalog.manifest.tracks.find(track => track.id === trackId);
+    if (!existing) {
+      return adminError(ApiErrorCode.NOT_FOUND, 'Track not found');
+    }
+
+    const updated: CatalogTrack = { ...existing };
+    if (body.title !== undefined) updated.title = body.title as string;
+    if (body.duration !== undefined) updated.duration = body.duration as number;
+    if (body.hidden !== undefined) updated.hidden = body.hidden as boolean;
+
+    // The manifest validator rejects bad field types/values
+    const result = await catalogService.saveManifest({
+      ...catalog.manifest,
+      tracks: catalog.manifest.tracks.map(track => (track.id === trackId ? updated : track)),
+    }, bucket);
+
+    if (!result.valid) {
+      return adminError(ApiErrorCode.INVALID_REQUEST, 'Invalid track metadata', { details: result.errors });
+    }
+
+    console.log(`✏️ Track ${trackId} updated`);
+    return adminJson({ track: updated });
+  } catch (error) {
+    console.error('❌ Admin update track error:', error);
+    return adminError(ApiErrorCode.INTERNAL_ERROR, 'Failed to update track', {
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Delete a track: removes it from the catalog and deletes its audio,
+ * cover (unless shared with another track) and PCM cache from R2
+ */
+export const DELETE: APIRoute = async ({ params, request, locals }) => {
+  const unauthorized = requireAdmin(request, locals);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const bucket = locals.runtime.env.AUDIO_BUCKET;
+    if (!bucket) {
+      return adminError(ApiErrorCode.STORAGE_UNAVAILABLE, 'Audio storage not available');
+    }
+
+    const trackId = parseTrackId(params.trackId);
+    if (trackId === null) {
+      return adminError(ApiErrorCode.INVALID_REQUEST, 'Invalid track ID');
+    }
+
+    const catalog = await catalogService.getCatalog(bucket);
+    const track = catalog.manifest.tracks.find(t => t.id === trackId);
+    if (!track) {
+      return adminError(ApiErrorCode.NOT_FOUND, 'Track not found');
+    }
+
+    const remainingTracks = catalog.manifest.tracks.filter(t => t.id !== trackId);
+
+    // Update the catalog first so the track stops being served immediately
+    const result = await catalogService.saveManifest({
+      ...catalog.manifest,
+      tracks: remainingTracks,
+    }, bucket);
+
+    if (!result.valid) {
+      return adminError(ApiErrorCode.INVALID_REQUEST, 'Invalid catalog manifest', { details: result.errors });
+    }
+
+    const deletedKeys = [track.audioKey];
+    await bucket.delete(track.audioKey);
+
+    if (track.coverKey && !remainingTracks.some(t => t.coverKey === track.coverKey)) {
+      await bucket.delete(track.coverKey);
+      deletedKeys.push(track.coverKey);
+    }
+
+    await createPcmCacheManager().clearCache([track.audioKey], bucket);
+
+    console.log(`🗑️ Track ${trackId} deleted (${deletedKeys.join(', ')})`);
+    return adminJson({ deleted: track, deletedKeys });
+  } catch (error) {
+    console.error('❌ Admin delete track error:', error);
+    return adminError(ApiErrorCode.INTERNAL_ERROR, 'Failed to delete track', {
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
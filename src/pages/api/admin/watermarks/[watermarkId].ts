@@ -0,0 +1,34 @@
+import type { APIRoute } from 'astro';
+import { requireAdmin, adminJson, adminError } from '../../../../utils/admin/admin-auth.js';
+import { ApiErrorCode } from '../../../../utils/api/api-error.js';
+import { getForensicRecord } from '../../../../utils/session/session-forensics.js';
+
+/**
+ * Trace a watermark ID (from `pnpm watermark:extract`) back to its session
+ */
+export const GET: APIRoute = async ({ params, request, locals }) => {
+  const unauthorized = requireAdmin(request, locals);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const watermarkId = params.watermarkId?.toLowerCase();
+    if (!watermarkId || !/^[0-9a-f]{12}$/.test(watermarkId)) {
+      return adminError(ApiErrorCode.INVALID_REQUEST, 'Watermark ID must be 12 hex digits');
+    }
+
+    const record = await getForensicRecord(watermarkId, locals);
+    if (!record) {
+      return adminError(ApiErrorCode.NOT_FOUND, 'No session recorded for this watermark ID');
+    }
+
+    return adminJson({
+      ...record,
+      createdAt: new Date(record.createdAt).toISOString(),
+    });
+  } catch (error) {
+    console.error('❌ Admin watermark lookup error:', error);
+    return adminError(ApiErrorCode.INTERNAL_ERROR, 'Failed to look up watermark', {
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
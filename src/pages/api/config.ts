@@ -0,0 +1,26 @@
+import type { APIRoute } from 'astro';
+import { settingsService } from '../../utils/config/settings-service.js';
+import { toClientSettings } from '../../utils/config/settings.js';
+import { errorResponse } from '../../utils/api/api-error.js';
+
+/**
+ * Player settings for the browser (see utils/config/settings.ts)
+ * Cached briefly, matching how long the worker caches the settings themselves
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    const settings = await settingsService.getSettings(locals);
+
+    return new Response(JSON.stringify(toClientSettings(settings)), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Connection': 'keep-alive',
+        'Cache-Control': 'public, max-age=60'
+      }
+    });
+  } catch (error: unknown) {
+    console.error('❌ Config error:', error);
+    return errorResponse(error, 'Failed to load config');
+  }
+};
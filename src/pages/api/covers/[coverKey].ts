@@ -1,9 +1,12 @@
 import type { APIRoute } from 'astro';
-import { AUDIO_PLAYLIST } from '../../../constants/playlist';
-import { decode as decodeJpeg } from '@jsquash/jpeg';
-import { decode as decodePng } from '@jsquash/png';
+import { catalogService } from '../../../utils/catalog/catalog-service';
+import { findTrackByCoverFilename } from '../../../utils/validation/playlist-validator';
+import { decode as decodeJpeg, encode as encodeJpeg } from '@jsquash/jpeg';
+import { decode as decodePng, encode as encodePng } from '@jsquash/png';
 import { encode as encodeWebp, decode as decodeWebp } from '@jsquash/webp';
 import { encode as encodeAvif } from '@jsquash/avif';
+import { downscaleImage, parseCoverSize } from '../../../utils/image/resize';
+import { apiError, ApiErrorCode, errorResponse } from '../../../utils/api/api-error';
 
 export const GET: APIRoute = async ({ params, request, locals }) => {
   try {
@@ -13,22 +16,17 @@ export const GET: APIRoute = async ({ params, request, locals }) => {
     const filename = pathParts[1] || params.coverKey;
 
     if (!filename) {
-      return new Response(JSON.stringify({ error: 'Cover filename is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' }
-      });
+      return apiError(ApiErrorCode.INVALID_REQUEST, 'Cover filename is required');
     }
 
-    // Look up the full cover key from AUDIO_PLAYLIST
-    const track = AUDIO_PLAYLIST.find(t => t.coverKey?.endsWith(filename));
+    // Look up the full cover key from the published catalog
+    const catalogTracks = await catalogService.getVisibleTracks(locals.runtime.env.AUDIO_BUCKET);
+    const track = findTrackByCoverFilename(filename, catalogTracks);
     const coverKey = track?.coverKey;
 
     if (!coverKey) {
       console.error(`❌ Cover not found in playlist for filename: ${filename}`);
-      return new Response(JSON.stringify({ error: 'Cover not found in playlist' }), {
-        status: 404,
-        headers: { 'Content-Type': 'application/json' }
-      });
+      return apiError(ApiErrorCode.NOT_FOUND, 'Cover not found in playlist');
     }
 
     console.log(`📷 Looking up cover: ${filename} -> ${coverKey}`);
@@ -38,13 +36,25 @@ export const GET: APIRoute = async ({ params, request, locals }) => {
     const supportsAvif = acceptHeader.includes('image/avif');
     const supportsWebp = acceptHeader.includes('image/webp');
 
+    // Optional downscaled variant (e.g. ?size=256 for Media Session artwork)
+    const sizeParam = url.searchParams.get('size');
+    const requestedSize = parseCoverSize(sizeParam);
+    if (sizeParam && !requestedSize) {
+      return apiError(ApiErrorCode.INVALID_REQUEST, 'Unsupported cover size');
+    }
+
     // Create format-specific cache key
-    let formatSuffix = '';
+    const cacheParams = new URLSearchParams();
     if (supportsAvif) {
-      formatSuffix = '?format=avif';
+      cacheParams.set('format', 'avif');
     } else if (supportsWebp) {
-      formatSuffix = '?format=webp';
+      cacheParams.set('format', 'webp');
     }
+    if (requestedSize) {
+      cacheParams.set('size', requestedSize.toString());
+    }
+    const cacheQuery = cacheParams.toString();
+    const formatSuffix = cacheQuery ? `?${cacheQuery}` : '';
 
     // Create cache key from request URL with format suffix
     const cache = locals.runtime.caches.default;
@@ -65,20 +75,14 @@ export const GET: APIRoute = async ({ params, request, locals }) => {
     const bucket = locals.runtime.env.AUDIO_BUCKET;
     if (!bucket) {
       console.error('❌ R2 bucket not available');
-      return new Response(JSON.stringify({ error: 'Cover storage not available' }), {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' }
-      });
+      return apiError(ApiErrorCode.STORAGE_UNAVAILABLE, 'Cover storage not available');
     }
 
     console.log(`📦 Retrieving cover: ${coverKey}`);
     const object = await bucket.get(coverKey);
 
     if (!object) {
-      return new Response(JSON.stringify({ error: 'Cover not found' }), {
-        status: 404,
-        headers: { 'Content-Type': 'application/json' }
-      });
+      return apiError(ApiErrorCode.NOT_FOUND, 'Cover not found');
     }
 
     // Determine content type from file extension
@@ -108,8 +112,11 @@ export const GET: APIRoute = async ({ params, request, locals }) => {
       console.log(`🔄 Converting ${coverKey} to WebP`);
     }
 
-    // Perform image conversion if needed using @jsquash
-    if (needsConversion) {
+    // Set when conversion failed and the original is served instead
+    let isFallback = false;
+
+    // Perform image conversion (and resizing) if needed using @jsquash
+    if (needsConversion || requestedSize) {
       try {
         // Decode the original image to ImageData
         let imageData: ImageData;
@@ -125,6 +132,11 @@ export const GET: APIRoute = async ({ params, request, locals }) => {
           imageData = await decodePng(imageBuffer);
         }
 
+        if (requestedSize) {
+          imageData = downscaleImage(imageData, requestedSize);
+          console.log(`📐 Resized ${coverKey} to ${imageData.width}x${imageData.height}`);
+        }
+
         // Encode to target format
         if (outputFormat === 'image/avif') {
           const converted = await encodeAvif(imageData);
@@ -136,10 +148,17 @@ export const GET: APIRoute = async ({ params, request, locals }) => {
           imageBuffer = converted instanceof ArrayBuffer ? converted : (converted as any).buffer;
           contentType = 'image/webp';
           console.log(`✅ Converted to WebP, original size: ${imageBuffer.byteLength} bytes`);
+        } else if (outputFormat === 'image/jpeg') {
+          imageBuffer = await encodeJpeg(imageData);
+        } else {
+          // Resized without a modern format - re-encode as PNG
+          imageBuffer = await encodePng(imageData);
+          contentType = 'image/png';
         }
       } catch (conversionError) {
         console.warn(`⚠️ Image conversion failed, serving original format:`, conversionError);
         // Fall back to original format if conversion fails
+        isFallback = true;
       }
     }
 
@@ -150,12 +169,15 @@ export const GET: APIRoute = async ({ params, request, locals }) => {
     expiresDate.setFullYear(expiresDate.getFullYear() + 1);
 
     // Create response with aggressive cache headers
+    // A fallback original is only cached briefly, so the converted variant is retried soon
     const response = new Response(imageBuffer, {
       status: 200,
       headers: {
         'Content-Type': contentType,
-        'Cache-Control': 'public, max-age=31536000, stale-while-revalidate=86400, immutable', // Cache for 1 year, allow stale for 1 day
-        'Expires': expiresDate.toUTCString(), // HTTP/1.0 compatibility
+        'Cache-Control': isFallback
+          ? 'public, max-age=300'
+          : 'public, max-age=31536000, stale-while-revalidate=86400, immutable', // Cache for 1 year, allow stale for 1 day
+        ...(!isFallback && { 'Expires': expiresDate.toUTCString() }), // HTTP/1.0 compatibility
         'ETag': object.etag || `"${coverKey}"`,
         'Last-Modified': object.uploaded?.toUTCString() || new Date().toUTCString(),
         'Vary': 'Accept', // Important: Tell caches that response varies by Accept header
@@ -164,8 +186,11 @@ export const GET: APIRoute = async ({ params, request, locals }) => {
 
     // Store in cache asynchronously (don't block response)
     // Note: Cache API works on custom domains, not on *.workers.dev
+    // The fallback is not cached: it would be served for the variant's cache key
     const ctx = locals.runtime.ctx;
-    if (ctx && ctx.waitUntil) {
+    if (isFallback) {
+      console.log(`⏭️ Not caching fallback cover: ${coverKey}${formatSuffix}`);
+    } else if (ctx && ctx.waitUntil) {
       ctx.waitUntil(cache.put(cacheKey as any, response.clone() as any));
       console.log(`💾 Caching cover: ${coverKey}`);
     }
@@ -173,9 +198,6 @@ export const GET: APIRoute = async ({ params, request, locals }) => {
     return response;
   } catch (error) {
     console.error('❌ Get cover error:', error);
-    return new Response(JSON.stringify({ error: 'Failed to get cover' }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    return errorResponse(error, 'Failed to get cover');
   }
 };
@@ -0,0 +1,29 @@
+import type { APIRoute } from 'astro';
+import { runHealthChecks } from '../../utils/health/health-check.js';
+import { errorResponse } from '../../utils/api/api-error.js';
+
+/**
+ * Health check for uptime monitoring
+ * 200 when healthy or degraded (covers / PCM cache / KV missing),
+ * 503 when an essential binding or track audio is broken.
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    const report = await runHealthChecks(locals);
+
+    if (report.status !== 'ok') {
+      console.warn(`⚠️ Health check ${report.status}:`, JSON.stringify(report.checks));
+    }
+
+    return new Response(JSON.stringify(report), {
+      status: report.status === 'unhealthy' ? 503 : 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Health check error:', error);
+    return errorResponse(error, 'Health check failed', { 'Cache-Control': 'no-store' });
+  }
+};
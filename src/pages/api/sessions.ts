@@ -1,96 +1,53 @@
 import type { APIRoute } from 'astro';
 import { createSessionDO } from '../../utils/storage/durable-objects.js';
 import { validateAudioKeys } from '../../utils/validation/playlist-validator.js';
+import { catalogService } from '../../utils/catalog/catalog-service.js';
 import { sessionCache } from '../../utils/session/session-cache.js';
 import { nanoid } from 'nanoid';
 import { isDevMode, createSession as createSessionStorage } from '../../utils/storage/session-storage-adapter.js';
-
-// Rate limiting configuration
-const MAX_SESSIONS_PER_WINDOW = 10;
-const SESSION_CREATION_WINDOW_MS = 60 * 1000;
-
-/**
- * Check session creation rate limit using Cloudflare KV
- * Uses sliding window algorithm with KV for distributed rate limiting
- */
-async function checkSessionCreationRateLimit(kv: KVNamespace): Promise<boolean> {
-  const now = Date.now();
-  const key = 'session_creation_rate_limit';
-
-  // Get existing timestamps from KV
-  const stored = await kv.get(key, 'json') as number[] | null;
-  const timestamps = stored || [];
-
-  // Remove old timestamps outside the window
-  const windowStart = now - SESSION_CREATION_WINDOW_MS;
-  const validTimestamps = timestamps.filter(ts => ts > windowStart);
-
-  // Check if limit exceeded
-  if (validTimestamps.length >= MAX_SESSIONS_PER_WINDOW) {
-    console.warn(`⚠️ Session creation rate limit exceeded`);
-    return false;
-  }
-
-  // Add current timestamp
-  validTimestamps.push(now);
-
-  // Store back to KV with TTL
-  await kv.put(key, JSON.stringify(validTimestamps), {
-    expirationTtl: Math.ceil(SESSION_CREATION_WINDOW_MS / 1000)
-  });
-
-  return true;
-}
+import { checkRateLimit, rateLimitResponse, getClientIdentity } from '../../utils/rate-limit/rate-limiter.js';
+import { recordSessionForensics } from '../../utils/session/session-forensics.js';
+import { issueSessionBinding, sessionBindingCookie } from '../../utils/session/session-binding.js';
+import { verifySessionChallenge } from '../../utils/challenge/session-challenge.js';
+import { toClientExpiry } from '../../utils/session/session-expiry.js';
+import { apiError, ApiErrorCode, errorResponse } from '../../utils/api/api-error.js';
 
 export const POST: APIRoute = async ({ request, locals }) => {
   try {
     console.log('📥 Received session creation request');
 
-    // Get KV namespace for rate limiting
-    const rateLimitKV = locals.runtime.env.RATE_LIMIT_KV;
-    if (!rateLimitKV) {
-      console.error('❌ Rate limit KV not available');
-      // Continue without rate limiting if KV is not available
-    } else {
-      // Check rate limit for session creation using KV
-      const allowed = await checkSessionCreationRateLimit(rateLimitKV);
-      if (!allowed) {
-        console.error('❌ Session creation rate limit exceeded');
-        return new Response(JSON.stringify({
-          error: 'Too many requests',
-          message: 'Please try again later.'
-        }), {
-          status: 429,
-          headers: { 'Content-Type': 'application/json', 'Connection': 'keep-alive' }
-        });
-      }
+    // Per-client rate limit for session creation
+    const rateLimit = await checkRateLimit('sessionCreation', request, locals);
+    if (!rateLimit.allowed) {
+      console.error(`❌ Session creation rate limit exceeded (retry in ${rateLimit.retryAfterMs}ms)`);
+      return rateLimitResponse(rateLimit);
     }
 
-    const body = await request.json() as { audioKey?: string; audioKeys?: string[] };
+    const body = await request.json() as { audioKey?: string; audioKeys?: string[]; challenge?: unknown };
     const { audioKey, audioKeys } = body;
 
+    // Proof-of-work gate (see /api/sessions/challenge)
+    const challengeRejected = await verifySessionChallenge(body.challenge, request, locals);
+    if (challengeRejected) {
+      return challengeRejected;
+    }
+
     // Support both single track (audioKey) and multi-track (audioKeys) sessions
     if (!audioKey && (!audioKeys || audioKeys.length === 0)) {
       console.error('❌ No audio key provided in request');
-      return new Response(JSON.stringify({ error: 'Audio key is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json', 'Connection': 'keep-alive' }
-      });
+      return apiError(ApiErrorCode.INVALID_REQUEST, 'Audio key is required');
     }
 
     // Prepare audio keys array for validation
     const keysToLoad = audioKeys && audioKeys.length > 0 ? audioKeys : [audioKey!];
 
-    // SECURITY: Validate that all requested audio keys are in the allowed AUDIO_PLAYLIST
-    const validation = validateAudioKeys(keysToLoad);
+    // SECURITY: Validate that all requested audio keys are published in the catalog
+    const catalogTracks = await catalogService.getVisibleTracks(locals.runtime.env.AUDIO_BUCKET);
+    const validation = validateAudioKeys(keysToLoad, catalogTracks);
     if (!validation.valid) {
       console.error(`❌ Unauthorized audio keys requested: ${validation.invalidKeys.join(', ')}`);
-      return new Response(JSON.stringify({
-        error: 'Audio file not found',
+      return apiError(ApiErrorCode.TRACK_NOT_ALLOWED, 'Audio file not found', {
         message: 'One or more requested audio files are not available'
-      }), {
-        status: 404,
-        headers: { 'Content-Type': 'application/json', 'Connection': 'keep-alive' }
       });
     }
 
@@ -99,10 +56,13 @@ export const POST: APIRoute = async ({ request, locals }) => {
     // Generate session ID for secstream (internal use)
     const sessionId = nanoid();
 
+    // Bind the session to this client (cookie token + optional fingerprint)
+    const issuedBinding = await issueSessionBinding(request, locals);
+
     // Create session (uses Durable Objects in prod, in-memory in dev)
     // Returns the DO ID (or session ID in dev mode) for client routing
     console.log(`🏗️ Creating session with internal ID: ${sessionId}`);
-    const doId = await createSessionStorage(sessionId, keysToLoad, locals);
+    const { doId, expiry, sliceDurationMs } = await createSessionStorage(sessionId, keysToLoad, locals, issuedBinding?.binding);
 
     console.log(`✅ Session created successfully. Internal ID: ${sessionId}, DO ID: ${doId}`);
 
@@ -114,24 +74,39 @@ export const POST: APIRoute = async ({ request, locals }) => {
       audioKeys: keysToLoad,
       createdAt: Date.now(),
       cachedAt: Date.now(),
+      expiresAt: expiry.expiresAt,
+      sliceDurationMs,
+      binding: issuedBinding?.binding,
     });
     console.log(`💾 Cached session metadata for ${doId} in worker memory`);
 
+    // Map the session's watermark ID back to the session, for tracing leaked recordings
+    await recordSessionForensics({
+      doId,
+      sessionId,
+      audioKeys: keysToLoad,
+      createdAt: Date.now(),
+      clientId: await getClientIdentity(request),
+    }, locals);
+
     const response = {
       sessionId: doId,  // Return doId to client for routing
       audioKeys: keysToLoad,
       trackCount: keysToLoad.length,
+      expiry: toClientExpiry(expiry),
       message: 'Session created successfully',
     };
 
-    console.log('📤 Sending successful response:', response);
-    return new Response(JSON.stringify(response), {
-      status: 200,
-      headers: {
-        'Content-Type': 'application/json',
-        'Connection': 'keep-alive'
-      }
+    const headers = new Headers({
+      'Content-Type': 'application/json',
+      'Connection': 'keep-alive'
     });
+    if (issuedBinding) {
+      headers.set('Set-Cookie', sessionBindingCookie(doId, issuedBinding.cookieValue, request, expiry.maxExpiresAt - Date.now()));
+    }
+
+    console.log('📤 Sending successful response:', response);
+    return new Response(JSON.stringify(response), { status: 200, headers });
   } catch (error: unknown) {
     console.error('❌ Session creation error:', error);
     console.error('❌ Error details:', {
@@ -140,18 +115,6 @@ export const POST: APIRoute = async ({ request, locals }) => {
       name: error instanceof Error ? error.name : 'Unknown error'
     });
 
-    const errorResponse = {
-      error: 'Failed to create session',
-      details: error instanceof Error ? error.message : 'Unknown error',
-      timestamp: new Date().toISOString()
-    };
-    console.error('📤 Sending error response:', errorResponse);
-    return new Response(JSON.stringify(errorResponse), {
-      status: 500,
-      headers: {
-        'Content-Type': 'application/json',
-        'Connection': 'keep-alive'
-      }
-    });
+    return errorResponse(error, 'Failed to create session');
   }
 };
\ No newline at end of file
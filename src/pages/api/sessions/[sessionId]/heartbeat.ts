@@ -0,0 +1,37 @@
+import { heartbeatSession, sessionErrorResponse } from '../../../../utils/session/session-lifecycle.js';
+import { sessionRoute } from '../../../../utils/session/session-route.js';
+import { toClientExpiry } from '../../../../utils/session/session-expiry.js';
+
+/**
+ * Keep a session alive while the page is open
+ * Sliding sessions are extended (up to their maximum lifetime); absolute
+ * sessions just report their remaining time.
+ */
+export const POST = sessionRoute({
+  name: 'heartbeat',
+  errorMessage: 'Failed to renew session',
+}, async ({ locals }, session, timing) => {
+  // Always ask storage: the renewal has to be persisted there
+  const state = await heartbeatSession(session.doId, locals);
+  timing.mark('Session renewed');
+
+  if (state.status !== 'active') {
+    return sessionErrorResponse(state.status);
+  }
+
+  if (!state.expiry) {
+    return sessionErrorResponse('not_found');
+  }
+
+  return new Response(JSON.stringify({
+    sessionId: session.doId,
+    expiry: toClientExpiry(state.expiry),
+  }), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Connection': 'keep-alive',
+      'Cache-Control': 'no-store'
+    }
+  });
+});
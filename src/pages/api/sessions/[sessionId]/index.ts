@@ -0,0 +1,45 @@
+import type { APIRoute } from 'astro';
+import { resolveSession, teardownSession } from '../../../../utils/session/session-lifecycle.js';
+import { checkSessionBinding } from '../../../../utils/session/session-binding.js';
+import { apiError, ApiErrorCode, errorResponse } from '../../../../utils/api/api-error.js';
+
+/**
+ * End a session explicitly (client teardown)
+ * Frees the DO storage and the worker SessionManager instead of waiting for expiry.
+ * Idempotent: ending a session that no longer exists still succeeds.
+ * Only the client the session is bound to may end it.
+ */
+export const DELETE: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const sessionId = params.sessionId;  // This is actually the DO ID
+    if (!sessionId) {
+      return apiError(ApiErrorCode.INVALID_REQUEST, 'Session ID is required');
+    }
+
+    console.log(`👋 endSession API START: session ${sessionId}`);
+
+    const resolved = await resolveSession(sessionId, locals);
+    if (resolved.status === 'active') {
+      const bindingRejected = await checkSessionBinding(resolved.session, request, locals);
+      if (bindingRejected) {
+        return bindingRejected;
+      }
+    }
+
+    const ended = await teardownSession(sessionId, locals);
+
+    return new Response(JSON.stringify({ sessionId, ended }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Connection': 'keep-alive'
+      }
+    });
+  } catch (error: unknown) {
+    console.error('❌ End session error:', error);
+    return errorResponse(error, 'Failed to end session');
+  }
+};
+
+// navigator.sendBeacon can only POST, so the pagehide beacon lands here
+export const POST: APIRoute = (context) => DELETE(context);
@@ -1,125 +1,117 @@
-import type { APIRoute } from 'astro';
-import { getSessionMetadata } from '../../../../../utils/storage/session-storage-adapter.js';
-import { sessionCache } from '../../../../../utils/session/session-cache.js';
 import { globalWorkerSessionManager } from '../../../../../utils/session/global-session-manager.js';
+import { sessionRoute } from '../../../../../utils/session/session-route.js';
+import { apiError, ApiErrorCode } from '../../../../../utils/api/api-error.js';
+import { isQualityTierId } from '../../../../../utils/audio/quality-tiers.js';
+import { rateLimitResponse } from '../../../../../utils/rate-limit/rate-limiter.js';
+import { checkSessionAccess, checkSliceAccess, parseSliceSequence, revokeFlaggedSession, sessionRevokedResponse } from '../../../../../utils/rate-limit/session-guard.js';
+
+// Slice fetches count as activity, so revalidation also extends sliding sessions
+export const GET = sessionRoute({
+  name: 'getSlice',
+  errorMessage: 'Failed to get slice',
+  rateLimit: 'slice',
+  activity: true,
+}, async ({ params, url, locals }, session, timing) => {
+  const sessionId = session.doId;
+  const sliceId = params.sliceId;
+  const trackId = url.searchParams.get('trackId') || undefined;
+
+  // Optional quality tier (see SECSTREAM_CONFIG.qualityTiers)
+  const tierParam = url.searchParams.get('tier');
+  if (tierParam !== null && !isQualityTierId(tierParam)) {
+    return apiError(ApiErrorCode.INVALID_REQUEST, `Unknown quality tier: ${tierParam}`);
+  }
+  const tier = tierParam ?? undefined;
 
-export const GET: APIRoute = async ({ params, url, locals }) => {
-  const startTime = Date.now();
-  try {
-    const sessionId = params.sessionId;  // This is actually the DO ID
-    const sliceId = params.sliceId;
-    const trackId = url.searchParams.get('trackId') || undefined;
+  if (!sliceId) {
+    return apiError(ApiErrorCode.INVALID_REQUEST, 'Slice ID is required');
+  }
 
-    if (!sessionId || !sliceId) {
-      return new Response(JSON.stringify({ error: 'Session ID and Slice ID are required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json', 'Connection': 'keep-alive' }
-      });
+  // Scraping detection for a slice position; a response means the slice must not be served
+  const checkPlayback = async (sequence: number): Promise<Response | null> => {
+    const playback = await checkSliceAccess(sessionId, {
+      trackId: trackId ?? 'default',
+      tier: tier ?? 'default',
+      sequence,
+    }, locals, session.sliceDurationMs);
+    if (playback.flagged) {
+      await revokeFlaggedSession(sessionId, session.sessionId, playback.reason ?? 'Abuse detected', locals);
+      return sessionRevokedResponse();
     }
-
-    console.log(`🔐 getSlice API START: session ${sessionId}, slice ${sliceId}`);
-
-    // Check worker memory cache for session metadata
-    let cachedSession = sessionCache.get(sessionId);
-
-    // Get R2 bucket (optional in dev mode)
-    const bucket = locals.runtime?.env?.AUDIO_BUCKET;
-
-    // If not in cache, fetch from storage (DO in prod, memory in dev)
-    if (!cachedSession) {
-      console.log(`⚠️ Cache MISS for session ${sessionId}, fetching from storage...`);
-
-      try {
-        const metadata = await getSessionMetadata(sessionId, locals);
-        console.log(`⏱️ [${Date.now() - startTime}ms] Fetched metadata from storage`);
-
-        // Cache for future requests
-        cachedSession = {
-          doId: sessionId,
-          sessionId: metadata.sessionId,
-          audioKeys: metadata.audioKeys,
-          createdAt: metadata.createdAt,
-          cachedAt: Date.now(),
-        };
-        sessionCache.set(sessionId, cachedSession);
-      } catch (doError: unknown) {
-        const errorMessage = doError instanceof Error ? doError.message : String(doError);
-
-        if (errorMessage.includes('not found') || errorMessage.includes('expired')) {
-          sessionCache.markDeleted(sessionId);
-          console.warn(`⚠️ Session ${sessionId} not found or expired in DO`);
-
-          return new Response(JSON.stringify({
-            error: 'Session not found or expired',
-            details: errorMessage
-          }), {
-            status: 404,
-            headers: { 'Content-Type': 'application/json', 'Connection': 'keep-alive' }
-          });
-        }
-
-        throw doError;
-      }
-    } else {
-      console.log(`✅ Cache HIT for session ${sessionId}`);
+    if (!playback.allowed) {
+      console.warn(`⚠️ Throttling slices for ${sessionId}: ${playback.reason}`);
+      return rateLimitResponse(playback);
     }
+    return null;
+  };
+
+  // Per-session budget
+  const sessionAccess = await checkSessionAccess(sessionId, { kind: 'slice', trackId: trackId ?? 'default' }, locals);
+  if (sessionAccess.flagged) {
+    await revokeFlaggedSession(sessionId, session.sessionId, sessionAccess.reason ?? 'Abuse detected', locals);
+    return sessionRevokedResponse();
+  }
+  if (!sessionAccess.allowed) {
+    console.warn(`⚠️ Per-session slice limit exceeded for ${sessionId}`);
+    return rateLimitResponse(sessionAccess);
+  }
 
-    console.log(`⏱️ [${Date.now() - startTime}ms] Starting slice generation in worker...`);
-
-    // Generate slice in WORKER (not DO!) - This is the key performance improvement
-    const slice = await globalWorkerSessionManager.getSlice(
-      cachedSession.sessionId,  // Use internal sessionId
-      cachedSession.audioKeys,
-      sliceId,
-      bucket,
-      trackId
-    );
+  // Scraping detection runs before generation, so a throttled session costs no slicing;
+  // only a slice ID without its sequence has to be generated first
+  const sequence = parseSliceSequence(sliceId);
+  if (sequence !== null) {
+    const blocked = await checkPlayback(sequence);
+    if (blocked) return blocked;
+  }
 
-    console.log(`⏱️ [${Date.now() - startTime}ms] Slice generation completed`);
+  // Generate slice in WORKER (not DO!) - This is the key performance improvement
+  const slice = await globalWorkerSessionManager.getSlice(
+    session.sessionId,  // Use internal sessionId
+    session,
+    sliceId,
+    trackId,
+    tier
+  );
 
-    if (!slice) {
-      return new Response(JSON.stringify({ error: 'Slice not found' }), {
-        status: 404,
-        headers: { 'Content-Type': 'application/json', 'Connection': 'keep-alive' }
-      });
-    }
+  timing.mark('Slice generation completed');
 
-    // Combine encrypted data and IV into single binary payload
-    const combinedData = new Uint8Array(slice.encryptedData.byteLength + slice.iv.byteLength);
-    combinedData.set(new Uint8Array(slice.encryptedData), 0);
-    combinedData.set(new Uint8Array(slice.iv), slice.encryptedData.byteLength);
+  if (!slice) {
+    return apiError(ApiErrorCode.NOT_FOUND, 'Slice not found');
+  }
 
-    // Create response with metadata in headers
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/octet-stream',
-      'Cache-Control': 'public, max-age=300',
-      'Connection': 'keep-alive',
-      'X-Slice-ID': slice.id,
-      'X-Slice-Sequence': slice.sequence.toString(),
-      'X-Session-ID': sessionId,  // Return DO ID to client
-      'X-Encrypted-Data-Length': slice.encryptedData.byteLength.toString(),
-      'X-IV-Length': slice.iv.byteLength.toString(),
-    };
+  if (sequence === null) {
+    const blocked = await checkPlayback(slice.sequence);
+    if (blocked) return blocked;
+  }
 
-    if (slice.trackId) {
-      headers['X-Track-ID'] = slice.trackId;
-    }
+  // Combine encrypted data and IV into single binary payload
+  const combinedData = new Uint8Array(slice.encryptedData.byteLength + slice.iv.byteLength);
+  combinedData.set(new Uint8Array(slice.encryptedData), 0);
+  combinedData.set(new Uint8Array(slice.iv), slice.encryptedData.byteLength);
+
+  // Create response with metadata in headers
+  // Encrypted with this session's key (and watermarked for it), so no cache may
+  // store or share it; the session-independent PCM is cached server-side instead
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/octet-stream',
+    'Cache-Control': 'private, no-store',
+    'Connection': 'keep-alive',
+    'X-Slice-ID': slice.id,
+    'X-Slice-Sequence': slice.sequence.toString(),
+    'X-Session-ID': sessionId,  // Return DO ID to client
+    'X-Encrypted-Data-Length': slice.encryptedData.byteLength.toString(),
+    'X-IV-Length': slice.iv.byteLength.toString(),
+  };
+
+  if (slice.trackId) {
+    headers['X-Track-ID'] = slice.trackId;
+  }
 
-    const response = new Response(combinedData.buffer, {
-      status: 200,
-      headers,
-    });
+  const response = new Response(combinedData.buffer, {
+    status: 200,
+    headers,
+  });
 
-    console.log(`🔐 Served slice ${sliceId}, size: ${combinedData.byteLength} bytes, TOTAL TIME: ${Date.now() - startTime}ms`);
-    return response;
-  } catch (error) {
-    console.error(`❌ Get slice error (after ${Date.now() - startTime}ms):`, error);
-    return new Response(JSON.stringify({
-      error: 'Failed to get slice',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json', 'Connection': 'keep-alive' }
-    });
-  }
-};
\ No newline at end of file
+  console.log(`🔐 Served slice ${sliceId}, size: ${combinedData.byteLength} bytes, TOTAL TIME: ${timing.elapsed()}ms`);
+  return response;
+});
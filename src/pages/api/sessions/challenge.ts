@@ -0,0 +1,28 @@
+import type { APIRoute } from 'astro';
+import { challengeNotConfigured, issueSessionChallenge } from '../../../utils/challenge/session-challenge.js';
+import { errorResponse } from '../../../utils/api/api-error.js';
+
+/**
+ * Proof-of-work challenge to solve before POST /api/sessions
+ * Returns { required: false } when the gate is disabled, 503 when its secret is missing.
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  try {
+    const challenge = await issueSessionChallenge(request, locals);
+    if (!challenge) {
+      return challengeNotConfigured();
+    }
+
+    return new Response(JSON.stringify(challenge), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Connection': 'keep-alive',
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error: unknown) {
+    console.error('❌ Session challenge error:', error);
+    return errorResponse(error, 'Failed to issue session challenge');
+  }
+};
@@ -1,24 +1,57 @@
 import type { APIRoute } from 'astro';
+import { requireAdmin, adminJson, adminError } from '../../utils/admin/admin-auth.js';
+import { ApiErrorCode } from '../../utils/api/api-error.js';
+import { catalogService } from '../../utils/catalog/catalog-service.js';
+import { sessionCache } from '../../utils/session/session-cache.js';
+import { globalWorkerSessionManager } from '../../utils/session/global-session-manager.js';
+import { getSessionBindingStats } from '../../utils/session/session-binding.js';
+import { routeMetrics } from '../../utils/metrics/route-metrics.js';
+import { getAggregatedMetrics } from '../../utils/metrics/metrics.js';
+import { settingsService } from '../../utils/config/settings-service.js';
+
+/**
+ * Operational statistics (admin only)
+ * - isolate: settings, caches, worker sessions, binding checks and per-route latency for the isolate
+ *   that served this request (each isolate has its own)
+ * - aggregate: request counters across all isolates (null if unavailable)
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  const unauthorized = requireAdmin(request, locals);
+  if (unauthorized) return unauthorized;
 
-export const GET: APIRoute = async () => {
   try {
-    const response = {
-      server: 'astro-cloudflare',
-      framework: 'secstream',
-      sessionStorage: 'durable-objects',
-      timestamp: new Date().toISOString(),
-      status: 'operational',
-    };
+    const bucket = locals.runtime?.env?.AUDIO_BUCKET;
+    const tracks = await catalogService.getVisibleTracks(bucket);
+    const settings = await settingsService.resolve(locals);
+    globalWorkerSessionManager.applySettings(settings.settings);
 
-    return new Response(JSON.stringify(response), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' }
+    const [pcmCache, aggregate] = await Promise.all([
+      globalWorkerSessionManager.getPcmCacheStats(tracks.map(track => track.audioKey), bucket),
+      getAggregatedMetrics(locals),
+    ]);
+
+    return adminJson({
+      timestamp: new Date().toISOString(),
+      isolate: {
+        startedAt: new Date(routeMetrics.since).toISOString(),
+        uptimeMs: Date.now() - routeMetrics.since,
+        settings: {
+          loadedAt: new Date(settings.loadedAt).toISOString(),
+          overridden: Object.fromEntries(Object.entries(settings.sources).filter(([, source]) => source !== 'default')),
+          errors: settings.errors,
+        },
+        sessionCache: sessionCache.getStats(),
+        workerSessions: globalWorkerSessionManager.getStats(),
+        sessionBinding: getSessionBindingStats(),
+        pcmCache,
+        routes: routeMetrics.getStats(),
+      },
+      aggregate,
     });
   } catch (error) {
     console.error('❌ Get stats error:', error);
-    return new Response(JSON.stringify({ error: 'Failed to get stats' }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
+    return adminError(ApiErrorCode.INTERNAL_ERROR, 'Failed to get stats', {
+      details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
-};
\ No newline at end of file
+};
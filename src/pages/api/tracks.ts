@@ -1,16 +1,23 @@
 import type { APIRoute } from 'astro';
-import { AUDIO_PLAYLIST } from '../../constants/playlist.js';
+import { catalogService } from '../../utils/catalog/catalog-service.js';
+import { ApiErrorCode } from '../../utils/api/api-error.js';
 
 export const GET: APIRoute = async ({ locals }) => {
-  try {
-    // Get R2 bucket from Cloudflare environment
-    const bucket = locals.runtime.env.AUDIO_BUCKET;
+  // Get R2 bucket from Cloudflare environment
+  const bucket = locals.runtime.env.AUDIO_BUCKET;
+
+  // Published tracks from the catalog (falls back to the built-in playlist)
+  const catalog = await catalogService.getCatalog(bucket);
+  const catalogTracks = await catalogService.getVisibleTracks(bucket);
 
+  try {
     if (!bucket) {
       console.error('❌ R2 bucket not available');
       return new Response(JSON.stringify({
         error: 'Audio storage not available',
-        tracks: AUDIO_PLAYLIST // Return all tracks as fallback (all use SecStream)
+        code: ApiErrorCode.STORAGE_UNAVAILABLE,
+        tracks: catalogTracks, // Return all tracks as fallback (all use SecStream)
+        source: catalog.source
       }), {
         status: 200,
         headers: { 'Content-Type': 'application/json' }
@@ -20,7 +27,7 @@ export const GET: APIRoute = async ({ locals }) => {
     // Verify that audio files exist in bucket
     const availableTracks = [];
 
-    for (const track of AUDIO_PLAYLIST) {
+    for (const track of catalogTracks) {
       try {
         const object = await bucket.head(track.audioKey);
         if (object) {
@@ -39,7 +46,9 @@ export const GET: APIRoute = async ({ locals }) => {
 
     return new Response(JSON.stringify({
       tracks: availableTracks,
-      count: availableTracks.length
+      count: availableTracks.length,
+      source: catalog.source,
+      updatedAt: catalog.manifest.updatedAt
     }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' }
@@ -48,10 +57,12 @@ export const GET: APIRoute = async ({ locals }) => {
     console.error('❌ Failed to list audio tracks:', error);
     return new Response(JSON.stringify({
       error: 'Failed to list audio tracks',
-      tracks: AUDIO_PLAYLIST // Return all tracks as fallback (all use SecStream)
+      code: ApiErrorCode.INTERNAL_ERROR,
+      tracks: catalogTracks, // Return all tracks as fallback (all use SecStream)
+      source: catalog.source
     }), {
       status: 500,
       headers: { 'Content-Type': 'application/json' }
     });
   }
-};
\ No newline at end of file
+};
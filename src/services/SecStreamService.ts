@@ -6,8 +6,15 @@ import {
   type TrackInfo
 } from 'secstream/client';
 import { ArtistPageTransport } from '../transport/ArtistPageTransport';
-import { SECSTREAM_CONFIG, AUDIO_PLAYLIST } from '../constants/playlist';
+import { TransportError, getTransportErrorCode } from '../transport/TransportError';
+import { ApiErrorCode } from '../constants/api-errors';
+import { fetchCatalogTracks } from '../utils/catalog/catalog-client';
+import { DEFAULT_CLIENT_SETTINGS } from '../utils/config/settings';
+import type { ClientSettings } from '../utils/config/settings';
+import { QualitySelector } from '../utils/playback/quality-selector';
+import type { SliceDownloadSample } from '../utils/playback/quality-selector';
 import type { AudioTrack } from '../constants/playlist';
+import type { QualityTierId, QualityTierInfo } from '../utils/audio/quality-tiers';
 
 interface SuspendedEventDetail {
   message: string;
@@ -21,6 +28,41 @@ interface SecureAudioPlayerInternal {
   gainNode: GainNode;
 }
 
+export interface BufferedRange {
+  start: number; // seconds
+  end: number;   // seconds
+}
+
+export interface TrackEndingEventDetail {
+  trackIndex: number | null;
+  remainingSeconds: number;
+}
+
+export interface QualityChangeEventDetail {
+  current: QualityTierInfo | null;  // Tier of the track on the active deck
+  target: QualityTierInfo | null;   // Tier being switched to (the next key exchange uses it)
+}
+
+// Player events re-dispatched by the service (only from the active deck)
+const FORWARDED_PLAYER_EVENTS = ['ended', 'error', 'suspended', 'trackchange'];
+
+// How often the active deck is checked for its tail (crossfade trigger)
+const TAIL_WATCH_INTERVAL_MS = 200;
+
+// Renew the session this long before it expires
+const SESSION_RENEW_MARGIN_MS = 2 * 60 * 1000;
+// Lower bound between renewal attempts (also the retry delay after a failed heartbeat)
+const SESSION_RENEW_MIN_DELAY_MS = 30 * 1000;
+
+// Fade applied around a session recovery while the track is playing
+const RECOVERY_FADE_MS = 300;
+
+interface RecoveryOptions {
+  position?: number;
+  resume?: boolean;
+  rekey?: boolean;
+}
+
 export class SecStreamService {
   private client: SecureAudioClient | null = null;
   private player: SecureAudioPlayer | null = null;
@@ -29,8 +71,33 @@ export class SecStreamService {
   private analyzerNode: AnalyserNode | null = null;
   private isSessionInitialized = false;
   private trackMapping: Map<number, string> = new Map(); // Maps playlist track index to SecStream trackId
+  private playlist: AudioTrack[] = [];
+
+  // Crossfade decks: two players on the shared AudioContext, each behind its own deck gain
+  // Graph: player.gainNode (volume) -> deck gain (crossfade) -> analyzer -> destination
+  private standbyPlayer: SecureAudioPlayer | null = null;
+  private deckGains: Map<SecureAudioPlayer, GainNode> = new Map();
+  private events = new EventTarget();
+  private crossfadeCleanupTimer: ReturnType<typeof setTimeout> | null = null;
+  private fadingOutPlayer: SecureAudioPlayer | null = null;
+  private tailWatchTimer: ReturnType<typeof setInterval> | null = null;
+  private trackEndingNotified = false;
+  private volume: number;
+  private sessionRenewTimer: ReturnType<typeof setTimeout> | null = null;
+  private recovery: Promise<void> | null = null;
+  // Track that was loaded when the session state was last reset (restored by recovery)
+  private lastTrackIndex: number | null = null;
+  // Adaptive quality: picks the tier for each track's key exchange from slice throughput
+  private qualitySelector: QualitySelector;
+  private lastQualityKey: string | null = null;
+  private lastMidTrackSwitchAt = 0;
 
-  constructor() {
+  /**
+   * @param settings - Player settings from /api/config (see utils/config/config-client.ts)
+   */
+  constructor(private readonly settings: ClientSettings = DEFAULT_CLIENT_SETTINGS) {
+    this.volume = settings.audio.volume;
+    this.qualitySelector = new QualitySelector(settings);
     this.initialize();
   }
 
@@ -42,10 +109,14 @@ export class SecStreamService {
       }
 
       this.transport = new ArtistPageTransport(window.location.origin);
+      this.transport.setQualityTier(this.qualitySelector.getTier());
+      this.transport.onSliceDownloaded((sample) => this.handleSliceDownloaded(sample));
 
       // Get worker URL from secstream package
+      // Workers are turned off for this client only, the settings stay as served
+      const workerConfig = { ...this.settings.workerConfig };
       let workerUrl: string | undefined;
-      if (SECSTREAM_CONFIG.workerConfig?.enabled && typeof Worker !== 'undefined') {
+      if (workerConfig.enabled && typeof Worker !== 'undefined') {
         try {
           // Use the worker from secstream package
           workerUrl = new URL('secstream/client/worker', import.meta.url).href;
@@ -53,21 +124,21 @@ export class SecStreamService {
         } catch (error) {
           console.warn('⚠️ Failed to load worker URL:', error);
           // Disable workers if URL loading fails
-          SECSTREAM_CONFIG.workerConfig.enabled = false;
+          workerConfig.enabled = false;
         }
-      } else if (SECSTREAM_CONFIG.workerConfig?.enabled) {
+      } else if (workerConfig.enabled) {
         console.warn('⚠️ Worker API not available, disabling workers');
-        SECSTREAM_CONFIG.workerConfig.enabled = false;
+        workerConfig.enabled = false;
       }
 
       this.client = new SecureAudioClient(this.transport, {
-        workerConfig: SECSTREAM_CONFIG.workerConfig,
+        workerConfig,
         workerUrl: workerUrl,
       });
 
       console.log('✅ SecStream initialized:', {
-        workerEnabled: SECSTREAM_CONFIG.workerConfig?.enabled,
-        workerCount: SECSTREAM_CONFIG.workerConfig?.workerCount,
+        workerEnabled: workerConfig.enabled,
+        workerCount: workerConfig.workerCount,
         clientCreated: !!this.client,
         transportCreated: !!this.transport,
       });
@@ -78,11 +149,20 @@ export class SecStreamService {
     }
   }
 
+  /**
+   * Recreate the session for the playlist the player already uses
+   * Re-fetching the catalog here could reorder tracks under AudioManager's indices,
+   * so the catalog is only loaded when no playlist was ever set
+   */
+  private reinitializePlaylist(): Promise<void> {
+    return this.initializePlaylist(this.playlist.length > 0 ? this.playlist : undefined);
+  }
+
   /**
    * Initialize the session with all tracks from the playlist
    * This creates a single session that can handle multiple tracks
    */
-  async initializePlaylist(playlist: AudioTrack[] = AUDIO_PLAYLIST): Promise<void> {
+  async initializePlaylist(playlist?: AudioTrack[]): Promise<void> {
     if (!this.client || !this.transport) {
       throw new Error('SecStream not initialized');
     }
@@ -93,10 +173,14 @@ export class SecStreamService {
     }
 
     try {
-      console.log('🔐 Creating multi-track session with', playlist.length, 'tracks');
+      // Default to the published catalog
+      const tracks = playlist ?? await fetchCatalogTracks();
+      this.playlist = tracks;
+
+      console.log('🔐 Creating multi-track session with', tracks.length, 'tracks');
 
       // Step 1: Create session with all tracks
-      const audioKeys = playlist.map(track => track.audioKey);
+      const audioKeys = tracks.map(track => track.audioKey);
       this.currentSessionId = await this.transport.createSessionFromTracks(audioKeys);
       console.log(`✅ Multi-track session created: ${this.currentSessionId}`);
 
@@ -109,35 +193,38 @@ export class SecStreamService {
       if (sessionData.tracks) {
         sessionData.tracks.forEach((trackInfo: TrackInfo, index: number) => {
           this.trackMapping.set(index, trackInfo.trackId);
-          console.log(`📌 Track ${index} (${playlist[index].title}) mapped to ${trackInfo.trackId}`);
+          console.log(`📌 Track ${index} (${tracks[index]?.title}) mapped to ${trackInfo.trackId}`);
         });
       }
 
-      // Step 4: Create player with the client (session is already initialized)
-      this.player = new SecureAudioPlayer(this.client, {
-        bufferStrategy: new AggressiveBufferStrategy(),
-        prefetchStrategy: new LinearPrefetchStrategy({
-          minPrefetchAhead: 3,
-        }),
-        smartPrefetchNextTrack: true, // Enable smart prefetching of next track
-        nextTrackPrefetchThreshold: 10, // Start prefetching 10 seconds before end
-      });
-      console.log('🎵 SecureAudioPlayer created with multi-track support');
+      // Step 4: Create players with the client (session is already initialized)
+      // The second player is the standby deck used for crossfading between tracks
+      if (!this.player) {
+        this.player = this.createPlayer();
+        this.standbyPlayer = this.createPlayer();
+        console.log('🎵 SecureAudioPlayer decks created with multi-track support');
 
-      // Step 5: Connect analyzer to the audio graph for real-time analysis
-      this.connectAnalyzer();
+        // Step 5: Connect analyzer to the audio graph for real-time analysis
+        this.connectAnalyzer();
 
-      // Step 6: Set up track change listener
-      this.setupTrackChangeListener();
+        // Step 6: Set up track change and event forwarding listeners
+        this.setupTrackChangeListener();
+        this.setupEventForwarding();
+
+        // Step 7: Watch the active deck's tail to trigger crossfades
+        this.startTailWatcher();
+      }
 
       this.isSessionInitialized = true;
+      this.lastTrackIndex = null;
+      this.scheduleSessionRenewal();
 
       console.log('✅ Multi-track playlist initialized successfully');
     } catch (error: unknown) {
       console.error('❌ Failed to initialize playlist:', error);
 
       // Check if error indicates session expired
-      if (this.isSessionExpiredError(error)) {
+      if (this.isSessionLostError(error)) {
         console.warn('⏰ Session expired, will recreate on next operation');
         // Clear session state to force recreation
         this.resetSessionState();
@@ -148,19 +235,46 @@ export class SecStreamService {
   }
 
   /**
-   * Check if error indicates session expiration
+   * Check if an error means the session is gone and a new one can replace it
+   * Revoked sessions are not included: recovering would undo the revocation.
+   * A binding mismatch (e.g. the binding cookie was cleared) is: the new
+   * session is bound to this browser.
+   */
+  private isSessionLostError(error: unknown): boolean {
+    const code = getTransportErrorCode(error);
+    return code === ApiErrorCode.SESSION_EXPIRED
+      || code === ApiErrorCode.SESSION_NOT_FOUND
+      || code === ApiErrorCode.SESSION_BINDING_MISMATCH;
+  }
+
+  /**
+   * Check if an error means the server released a track's keys (TRACK_NOT_KEYED)
+   * The session itself is fine: a new key exchange on it keys the track again.
+   */
+  private isTrackNotKeyedError(error: unknown): boolean {
+    return getTransportErrorCode(error) === ApiErrorCode.TRACK_NOT_KEYED;
+  }
+
+  /**
+   * Redo the key exchange on the current session
+   * Same session, track mapping and watermark; tracks are keyed again as they
+   * load, at the transport's current tier
    */
-  private isSessionExpiredError(error: unknown): boolean {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    return errorMessage.includes('expired') ||
-           errorMessage.includes('not found') ||
-           errorMessage.includes('404');
+  private async rekeySession(): Promise<void> {
+    if (!this.client || !this.currentSessionId) {
+      throw new Error('SecStream not initialized');
+    }
+
+    this.transport?.resetKeys();
+    await this.client.initializeSession(this.currentSessionId);
   }
 
   /**
    * Reset session state to allow recreation
    */
   private resetSessionState(): void {
+    this.cancelSessionRenewal();
+    this.lastTrackIndex = this.getCurrentTrackIndex() ?? this.lastTrackIndex;
     this.currentSessionId = null;
     this.isSessionInitialized = false;
     this.trackMapping.clear();
@@ -171,17 +285,561 @@ export class SecStreamService {
     console.log('🔄 Session state reset, ready for recreation');
   }
 
+  /**
+   * Schedule the next renewal of the current session, ahead of its expiry
+   * - Sliding sessions are kept alive with heartbeats while the page is open
+   * - Sessions that cannot be extended any further are closed while nothing
+   *   is loaded, so the next play starts on a fresh session instead of failing
+   */
+  private scheduleSessionRenewal(): void {
+    this.cancelSessionRenewal();
+
+    const deadline = this.transport?.getSessionDeadline();
+    if (!deadline || !this.currentSessionId) return;
+
+    const canExtend = deadline.sliding && deadline.maxExpiresAt - deadline.expiresAt > SESSION_RENEW_MARGIN_MS;
+    const delay = Math.max(SESSION_RENEW_MIN_DELAY_MS, deadline.expiresAt - Date.now() - SESSION_RENEW_MARGIN_MS);
+
+    this.sessionRenewTimer = setTimeout(() => {
+      this.sessionRenewTimer = null;
+      if (canExtend) {
+        this.renewSession();
+      } else {
+        this.retireExpiringSession();
+      }
+    }, delay);
+  }
+
+  private cancelSessionRenewal(): void {
+    if (this.sessionRenewTimer) {
+      clearTimeout(this.sessionRenewTimer);
+      this.sessionRenewTimer = null;
+    }
+  }
+
+  /**
+   * Send a heartbeat to extend the session, then schedule the next one
+   */
+  private async renewSession(): Promise<void> {
+    const sessionId = this.currentSessionId;
+    if (!this.transport || !sessionId) return;
+
+    try {
+      await this.transport.heartbeat(sessionId);
+      if (sessionId !== this.currentSessionId) return;
+      console.log(`💓 Session ${sessionId} renewed`);
+      this.scheduleSessionRenewal();
+    } catch (error: unknown) {
+      if (sessionId !== this.currentSessionId) return;
+
+      if (this.isSessionLostError(error)) {
+        console.warn('⏰ Session ended before renewal, will recreate on next operation');
+        this.resetSessionState();
+        return;
+      }
+
+      if (getTransportErrorCode(error) === ApiErrorCode.SESSION_REVOKED) {
+        console.warn('🚫 Session revoked, stopping renewal');
+        return;
+      }
+
+      // Network hiccup or rate limit: try again shortly (the margin leaves room for retries)
+      const retryAfterMs = error instanceof TransportError ? error.retryAfterMs ?? 0 : 0;
+      console.warn('⚠️ Session heartbeat failed, retrying:', error);
+      this.sessionRenewTimer = setTimeout(() => {
+        this.sessionRenewTimer = null;
+        this.renewSession();
+      }, Math.max(SESSION_RENEW_MIN_DELAY_MS, retryAfterMs));
+    }
+  }
+
+  /**
+   * The session is about to hit its hard expiry
+   * - Nothing loaded: close it, the next play starts on a fresh session
+   * - Paused: move the loaded track to a new session now (silent)
+   * - Playing: wait for a pause, switching sessions (with a short fade) only
+   *   when expiry is too close to wait any longer
+   */
+  private retireExpiringSession(): void {
+    if (!this.currentSessionId) return;
+
+    if (!this.isPlaying() && !this.isPaused()) {
+      console.log('⏰ Session reaching its maximum lifetime, closing so the next play starts fresh');
+      this.closeSession();
+      return;
+    }
+
+    const deadline = this.transport?.getSessionDeadline();
+    const timeLeft = deadline ? deadline.expiresAt - Date.now() : 0;
+
+    if (this.isPlaying() && timeLeft > 2 * SESSION_RENEW_MIN_DELAY_MS) {
+      this.sessionRenewTimer = setTimeout(() => {
+        this.sessionRenewTimer = null;
+        this.retireExpiringSession();
+      }, SESSION_RENEW_MIN_DELAY_MS);
+      return;
+    }
+
+    console.log('⏰ Session reaching its maximum lifetime, moving playback to a new session');
+    this.recoverSession().catch((error) => {
+      console.error('❌ Failed to move playback to a new session:', error);
+    });
+  }
+
+  /**
+   * Recreate the session and put playback back where it was
+   * New session, key exchange and track mapping; then the same track is
+   * reloaded at the same position. Playing tracks fade out and back in around
+   * the switch. If the AudioContext was suspended (e.g. tab backgrounded for
+   * hours) and cannot be resumed without a gesture, the track is left cued and
+   * a 'suspended' event asks the listener to press play.
+   * Concurrent callers share one recovery.
+   * @param options.position - Position to resume at (defaults to the current position)
+   * @param options.resume - Start playback afterwards (defaults to whether it was playing)
+   * @param options.rekey - Keep the session and only redo the key exchange (tracks are
+   *   keyed again as they load, at the transport's current tier)
+   */
+  private recoverSession(options: RecoveryOptions = {}): Promise<void> {
+    if (!this.recovery) {
+      this.recovery = this.performRecovery(options).finally(() => {
+        this.recovery = null;
+      });
+    }
+    return this.recovery;
+  }
+
+  private async performRecovery(options: RecoveryOptions): Promise<void> {
+    if (!this.player || !this.client) {
+      throw new Error('SecStream not initialized');
+    }
+
+    // Snapshot playback before tearing anything down
+    const trackIndex = this.getCurrentTrackIndex() ?? this.lastTrackIndex;
+    const position = options.position ?? this.player.currentTime;
+    const resume = options.resume ?? this.player.isPlaying;
+    const audioContext = this.client.getAudioContext();
+
+    console.log(`🩹 ${options.rekey ? 'Re-keying' : 'Recovering'} session (track ${trackIndex}, ${position.toFixed(1)}s, ${resume ? 'playing' : 'paused'})`);
+
+    this.finishCrossfade();
+    const deckGain = this.deckGains.get(this.player);
+
+    if (this.player.isPlaying) {
+      if (deckGain) {
+        const now = audioContext.currentTime;
+        deckGain.gain.cancelScheduledValues(now);
+        deckGain.gain.setValueAtTime(deckGain.gain.value, now);
+        deckGain.gain.linearRampToValueAtTime(0, now + RECOVERY_FADE_MS / 1000);
+        await new Promise(resolve => setTimeout(resolve, RECOVERY_FADE_MS));
+      }
+      this.player.stop();
+    }
+
+    if (options.rekey && this.currentSessionId) {
+      await this.rekeySession();
+    } else {
+      // New session + key exchange + track mapping (same playlist, so indices line up)
+      if (this.currentSessionId) {
+        this.transport?.closeSession(this.currentSessionId);
+      }
+      this.resetSessionState();
+      await this.reinitializePlaylist();
+    }
+
+    const trackId = trackIndex !== null ? this.trackMapping.get(trackIndex) : undefined;
+    if (!trackId) {
+      console.log('✅ Session recovered (no track to restore)');
+      deckGain?.gain.setValueAtTime(1, audioContext.currentTime);
+      return;
+    }
+
+    this.trackEndingNotified = false;
+    await this.player.switchTrack(trackId, false);
+    if (position > 0) {
+      await this.player.seekToTime(position);
+    }
+
+    if (!resume) {
+      deckGain?.gain.setValueAtTime(1, audioContext.currentTime);
+      console.log('✅ Session recovered, track cued at previous position');
+      return;
+    }
+
+    // A long-backgrounded tab may have had its AudioContext suspended
+    if (audioContext.state === 'suspended') {
+      await audioContext.resume().catch(() => undefined);
+    }
+    if (audioContext.state === 'suspended') {
+      deckGain?.gain.setValueAtTime(1, audioContext.currentTime);
+      const detail: SuspendedEventDetail = {
+        message: 'AudioContext suspended while recovering the session',
+        state: audioContext.state,
+      };
+      this.events.dispatchEvent(new CustomEvent('suspended', { detail }));
+      console.log('✅ Session recovered, waiting for user interaction to resume');
+      return;
+    }
+
+    if (deckGain) {
+      const now = audioContext.currentTime;
+      deckGain.gain.cancelScheduledValues(now);
+      deckGain.gain.setValueAtTime(0, now);
+      deckGain.gain.linearRampToValueAtTime(1, now + RECOVERY_FADE_MS / 1000);
+    }
+    await this.player.play();
+    console.log('✅ Session recovered, playback resumed');
+  }
+
+  /**
+   * Make sure the session is still usable after the page comes back
+   * (tab made visible again, or restored from the back/forward cache after
+   * the pagehide teardown). Recovers in place if it ended in the meantime.
+   */
+  async resumeSession(): Promise<void> {
+    if (!this.player || this.recovery) return;
+
+    const trackLoaded = !!this.player.getCurrentTrack();
+    const deadline = this.transport?.getSessionDeadline();
+    const sessionEnded = !this.currentSessionId || (!!deadline && deadline.expiresAt <= Date.now());
+
+    if (!sessionEnded) return;
+
+    if (!trackLoaded) {
+      // Nothing to restore - the next operation creates a session as usual
+      this.resetSessionState();
+      return;
+    }
+
+    try {
+      await this.recoverSession();
+    } catch (error: unknown) {
+      console.error('❌ Failed to recover session after page resume:', error);
+    }
+  }
+
+  /**
+   * Create a player (deck) bound to the shared client
+   */
+  private createPlayer(): SecureAudioPlayer {
+    if (!this.client) {
+      throw new Error('SecStream not initialized');
+    }
+
+    return new SecureAudioPlayer(this.client, {
+      bufferStrategy: new AggressiveBufferStrategy(),
+      prefetchStrategy: new LinearPrefetchStrategy({
+        minPrefetchAhead: 3,
+      }),
+      smartPrefetchNextTrack: true, // Enable smart prefetching of next track
+      nextTrackPrefetchThreshold: 10, // Start prefetching 10 seconds before end
+    });
+  }
+
+  /**
+   * Get both decks (active first)
+   */
+  private getDecks(): SecureAudioPlayer[] {
+    return [this.player, this.standbyPlayer].filter((p): p is SecureAudioPlayer => p !== null);
+  }
+
   /**
    * Set up event listener for track changes
    */
   private setupTrackChangeListener(): void {
-    if (!this.player) return;
+    for (const deck of this.getDecks()) {
+      deck.addEventListener('trackchange', (event: Event) => {
+        if (deck !== this.player) return;
+        const customEvent = event as CustomEvent;
+        const trackInfo = customEvent.detail?.track as TrackInfo;
+        console.log('🎵 Track changed to:', trackInfo?.trackId, trackInfo?.title);
+        this.notifyQualityChange();
+      });
+    }
+  }
 
-    this.player.addEventListener('trackchange', (event) => {
-      const customEvent = event as CustomEvent;
-      const trackInfo = customEvent.detail?.track as TrackInfo;
-      console.log('🎵 Track changed to:', trackInfo?.trackId, trackInfo?.title);
-    });
+  /**
+   * Re-dispatch player events from the active deck on the service
+   * Events from the standby/fading-out deck are dropped, so a track that is
+   * fading out does not report 'ended' after the next one has taken over
+   */
+  private setupEventForwarding(): void {
+    for (const deck of this.getDecks()) {
+      for (const type of FORWARDED_PLAYER_EVENTS) {
+        deck.addEventListener(type, (event: Event) => {
+          if (deck !== this.player) return;
+
+          // The tail watcher already announced this end - the listener has handled it
+          if (type === 'ended' && this.trackEndingNotified) {
+            console.log('🏁 Track ended after trackending was handled, not forwarding');
+            return;
+          }
+
+          const detail = (event as CustomEvent).detail;
+
+          // Slice fetches failing because the session ended: recover in place instead of erroring
+          if (type === 'error' && this.isSessionLostError(detail?.error ?? detail)) {
+            console.warn('⏰ Session ended during playback, recovering...');
+            this.recoverSession().catch(() => {
+              this.events.dispatchEvent(new CustomEvent(type, { detail }));
+            });
+            return;
+          }
+
+          // The server released the track's keys: key it again on the same session
+          if (type === 'error' && this.isTrackNotKeyedError(detail?.error ?? detail)) {
+            console.warn('🔑 Track keys released during playback, re-keying...');
+            this.recoverSession({ rekey: true }).catch(() => {
+              this.events.dispatchEvent(new CustomEvent(type, { detail }));
+            });
+            return;
+          }
+
+          this.events.dispatchEvent(new CustomEvent(type, { detail }));
+        });
+      }
+    }
+  }
+
+  /**
+   * Watch the active deck and dispatch 'trackending' once per track when the
+   * remaining time drops below the crossfade duration
+   */
+  private startTailWatcher(): void {
+    if (this.tailWatchTimer || this.settings.audio.crossFadeDuration <= 0) return;
+
+    const crossfadeSeconds = this.settings.audio.crossFadeDuration / 1000;
+
+    this.tailWatchTimer = setInterval(() => {
+      const player = this.player;
+      if (!player || !player.isPlaying || this.fadingOutPlayer) return;
+
+      const duration = player.duration;
+      if (!duration || !isFinite(duration)) return;
+
+      const remaining = duration - player.currentTime;
+
+      // Re-arm after a seek back out of the tail
+      if (remaining > crossfadeSeconds) {
+        this.trackEndingNotified = false;
+        return;
+      }
+
+      if (!this.trackEndingNotified && remaining > 0) {
+        this.trackEndingNotified = true;
+        const detail: TrackEndingEventDetail = {
+          trackIndex: this.getCurrentTrackIndex(),
+          remainingSeconds: remaining,
+        };
+        console.log(`🎚️ Track ending in ${remaining.toFixed(2)}s, requesting crossfade`);
+        this.events.dispatchEvent(new CustomEvent('trackending', { detail }));
+      }
+    }, TAIL_WATCH_INTERVAL_MS);
+  }
+
+  /**
+   * Feed a slice download into the quality selector
+   * A new tier applies from the next key exchange (next track, or prefetch of
+   * it), and the playing track is re-keyed at it (see switchTierMidTrack)
+   */
+  private handleSliceDownloaded(sample: SliceDownloadSample): void {
+    if (!this.transport) return;
+
+    this.qualitySelector.setTiers(this.transport.getQualityTiers());
+    const tier = this.qualitySelector.recordSlice(sample);
+    if (tier) {
+      this.transport.setQualityTier(tier);
+      this.switchTierMidTrack(tier);
+    }
+    this.notifyQualityChange();
+  }
+
+  /**
+   * Move the playing track to a new tier instead of waiting for the next track
+   * Each tier of a track has its own server-side keys, and the client keys a
+   * track once per key exchange of the session, so the switch redoes the key
+   * exchange on the current session (see recoverSession's rekey option): the
+   * track is keyed again at the new tier and resumes at the current position,
+   * faded around the switch. Skipped near the end of the track and rate-limited.
+   */
+  private switchTierMidTrack(tier: QualityTierId): void {
+    if (!this.player || !this.transport || this.recovery || this.fadingOutPlayer || !this.player.isPlaying) return;
+
+    const keyedTier = this.transport.getKeyedTier(this.player.getCurrentTrack()?.trackId);
+    if (!keyedTier || keyedTier === tier) return;
+
+    const { midTrackSwitchMinIntervalMs, midTrackSwitchMinRemainingMs } = this.settings.qualityTiers.selection;
+    const remainingMs = (this.player.duration - this.player.currentTime) * 1000;
+    if (remainingMs < midTrackSwitchMinRemainingMs || Date.now() - this.lastMidTrackSwitchAt < midTrackSwitchMinIntervalMs) {
+      return;
+    }
+
+    this.lastMidTrackSwitchAt = Date.now();
+    console.log(`📶 Re-keying the current track at ${tier} (was ${keyedTier})`);
+    const position = this.player.currentTime;
+    this.recoverSession({ rekey: true })
+      .then(() => this.notifyQualityChange())
+      .catch((error: unknown) => {
+        console.error('❌ Failed to switch quality tier mid-track:', error);
+        // The session ended in the meantime: move to a new one (at the new tier)
+        if (this.isSessionLostError(error)) {
+          this.recoverSession({ position, resume: true }).catch(() => undefined);
+        }
+      });
+  }
+
+  /**
+   * Current and upcoming quality tier (nulls until the server advertised tiers)
+   */
+  getQualityTier(): QualityChangeEventDetail {
+    const trackId = this.player?.getCurrentTrack()?.trackId;
+    const keyedTier = this.transport?.getKeyedTier(trackId);
+    return {
+      current: keyedTier ? this.qualitySelector.getTierInfo(keyedTier) : null,
+      target: this.qualitySelector.getTierInfo(this.qualitySelector.getTier()),
+    };
+  }
+
+  /**
+   * Dispatch 'qualitychange' when the current or upcoming tier changed
+   */
+  private notifyQualityChange(): void {
+    const detail = this.getQualityTier();
+    const key = `${detail.current?.id}:${detail.target?.id}`;
+    if (key === this.lastQualityKey) return;
+
+    this.lastQualityKey = key;
+    this.events.dispatchEvent(new CustomEvent('qualitychange', { detail }));
+  }
+
+  /**
+   * Get the playlist index of the track on the active deck
+   */
+  getCurrentTrackIndex(): number | null {
+    const trackId = this.player?.getCurrentTrack()?.trackId;
+    if (!trackId) return null;
+
+    for (const [index, mappedTrackId] of this.trackMapping.entries()) {
+      if (mappedTrackId === trackId) {
+        return index;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Whether a crossfade can be performed right now
+   */
+  canCrossfade(): boolean {
+    return this.settings.audio.crossFadeDuration > 0 &&
+      !!this.player &&
+      !!this.standbyPlayer &&
+      this.deckGains.size === 2 &&
+      this.player.isPlaying;
+  }
+
+  /**
+   * Crossfade from the active deck into a track on the standby deck
+   * The tail of the current track overlaps the head of the next one; both deck
+   * gains are ramped on the AudioContext clock with linearRampToValueAtTime
+   * Falls back to a hard switch when nothing is playing
+   */
+  async crossfadeToTrack(trackIndex: number, durationMs: number = this.settings.audio.crossFadeDuration): Promise<void> {
+    if (!this.player || !this.client) {
+      throw new Error('SecStream not initialized');
+    }
+
+    if (!this.canCrossfade() || durationMs <= 0) {
+      await this.switchToTrack(trackIndex, true);
+      return;
+    }
+
+    const trackId = this.trackMapping.get(trackIndex);
+    if (!trackId) {
+      throw new Error(`Track index ${trackIndex} not found in mapping`);
+    }
+
+    // Finish any crossfade still in progress before starting a new one
+    this.finishCrossfade();
+
+    const outgoing = this.player;
+    const incoming = this.standbyPlayer!;
+    const outgoingGain = this.deckGains.get(outgoing)!;
+    const incomingGain = this.deckGains.get(incoming)!;
+    const audioContext = this.client.getAudioContext();
+
+    try {
+      console.log(`🎚️ Crossfading to track ${trackIndex} (${trackId}) over ${durationMs}ms`);
+
+      // Prepare the incoming deck silently
+      incomingGain.gain.cancelScheduledValues(audioContext.currentTime);
+      incomingGain.gain.setValueAtTime(0, audioContext.currentTime);
+      await incoming.switchTrack(trackId, false);
+      incoming.setVolume(this.volume);
+      await incoming.play();
+    } catch (error: unknown) {
+      console.error('❌ Failed to start incoming deck, falling back to hard switch:', error);
+      incoming.stop();
+      incomingGain.gain.setValueAtTime(1, audioContext.currentTime);
+      await this.switchToTrack(trackIndex, true);
+      return;
+    }
+
+    // Schedule both ramps on the audio clock
+    const now = audioContext.currentTime;
+    const end = now + durationMs / 1000;
+
+    outgoingGain.gain.cancelScheduledValues(now);
+    outgoingGain.gain.setValueAtTime(outgoingGain.gain.value, now);
+    outgoingGain.gain.linearRampToValueAtTime(0, end);
+
+    incomingGain.gain.cancelScheduledValues(now);
+    incomingGain.gain.setValueAtTime(0, now);
+    incomingGain.gain.linearRampToValueAtTime(1, end);
+
+    // Swap decks - the incoming deck is now the active player
+    this.player = incoming;
+    this.standbyPlayer = outgoing;
+    this.fadingOutPlayer = outgoing;
+    this.trackEndingNotified = false;
+    this.notifyQualityChange();
+
+    // Stop the outgoing deck once it is silent
+    this.crossfadeCleanupTimer = setTimeout(() => {
+      this.finishCrossfade();
+    }, durationMs + 50);
+
+    console.log('✅ Crossfade started');
+  }
+
+  /**
+   * Complete (or cut short) a running crossfade: stop the outgoing deck and
+   * settle both deck gains
+   */
+  private finishCrossfade(): void {
+    if (this.crossfadeCleanupTimer) {
+      clearTimeout(this.crossfadeCleanupTimer);
+      this.crossfadeCleanupTimer = null;
+    }
+
+    const outgoing = this.fadingOutPlayer;
+    if (!outgoing) return;
+
+    this.fadingOutPlayer = null;
+    outgoing.stop();
+
+    const audioContext = this.client?.getAudioContext();
+    if (audioContext) {
+      const now = audioContext.currentTime;
+      const outgoingGain = this.deckGains.get(outgoing);
+      outgoingGain?.gain.cancelScheduledValues(now);
+      outgoingGain?.gain.setValueAtTime(0, now);
+
+      const activeGain = this.player ? this.deckGains.get(this.player) : undefined;
+      activeGain?.gain.cancelScheduledValues(now);
+      activeGain?.gain.setValueAtTime(1, now);
+    }
+
+    console.log('🎚️ Crossfade finished, outgoing deck stopped');
   }
 
   /**
@@ -193,7 +851,7 @@ export class SecStreamService {
     }
 
     if (!this.isSessionInitialized) {
-      await this.initializePlaylist();
+      await this.reinitializePlaylist();
     }
 
     try {
@@ -202,19 +860,34 @@ export class SecStreamService {
         throw new Error(`Track index ${trackIndex} not found in mapping`);
       }
 
+      // A hard switch cancels any crossfade in progress
+      this.finishCrossfade();
+      this.trackEndingNotified = false;
+
       console.log(`🔄 Switching to track ${trackIndex} (${trackId})`);
       await this.player.switchTrack(trackId, autoPlay);
       console.log('✅ Track switched successfully');
     } catch (error: unknown) {
       console.error('❌ Failed to switch track:', error);
 
+      if (this.isTrackNotKeyedError(error)) {
+        console.warn('🔑 Track keys released on the server, re-keying...');
+        await this.rekeySession();
+        const trackId = this.trackMapping.get(trackIndex);
+        if (trackId) {
+          await this.player!.switchTrack(trackId, autoPlay);
+          console.log('✅ Track switched successfully after re-keying');
+          return;
+        }
+      }
+
       // Check if error indicates session expired
-      if (this.isSessionExpiredError(error)) {
+      if (this.isSessionLostError(error)) {
         console.warn('⏰ Session expired during track switch, reinitializing...');
         this.resetSessionState();
 
         // Retry once after recreating session
-        await this.initializePlaylist();
+        await this.reinitializePlaylist();
         const trackId = this.trackMapping.get(trackIndex);
         if (trackId) {
           await this.player!.switchTrack(trackId, autoPlay);
@@ -236,23 +909,36 @@ export class SecStreamService {
     }
 
     if (!this.isSessionInitialized) {
-      await this.initializePlaylist();
+      await this.reinitializePlaylist();
     }
 
     try {
       console.log('⏭️ Switching to next track');
-      await this.player.nextTrack(autoPlay);
+      const currentIndex = this.getCurrentTrackIndex();
+      if (autoPlay && currentIndex !== null && this.canCrossfade()) {
+        await this.crossfadeToTrack((currentIndex + 1) % this.trackMapping.size);
+      } else {
+        await this.player.nextTrack(autoPlay);
+      }
       console.log('✅ Switched to next track');
     } catch (error: unknown) {
       console.error('❌ Failed to switch to next track:', error);
 
+      if (this.isTrackNotKeyedError(error)) {
+        console.warn('🔑 Track keys released on the server, re-keying...');
+        await this.rekeySession();
+        await this.player.nextTrack(autoPlay);
+        console.log('✅ Switched to next track after re-keying');
+        return;
+      }
+
       // Check if error indicates session expired
-      if (this.isSessionExpiredError(error)) {
+      if (this.isSessionLostError(error)) {
         console.warn('⏰ Session expired during next track, reinitializing...');
         this.resetSessionState();
 
         // Retry once after recreating session
-        await this.initializePlaylist();
+        await this.reinitializePlaylist();
         await this.player.nextTrack(autoPlay);
         console.log('✅ Switched to next track after session recreation');
         return;
@@ -271,23 +957,37 @@ export class SecStreamService {
     }
 
     if (!this.isSessionInitialized) {
-      await this.initializePlaylist();
+      await this.reinitializePlaylist();
     }
 
     try {
       console.log('⏮️ Switching to previous track');
-      await this.player.previousTrack(autoPlay);
+      const currentIndex = this.getCurrentTrackIndex();
+      if (autoPlay && currentIndex !== null && this.canCrossfade()) {
+        const trackCount = this.trackMapping.size;
+        await this.crossfadeToTrack((currentIndex - 1 + trackCount) % trackCount);
+      } else {
+        await this.player.previousTrack(autoPlay);
+      }
       console.log('✅ Switched to previous track');
     } catch (error: unknown) {
       console.error('❌ Failed to switch to previous track:', error);
 
+      if (this.isTrackNotKeyedError(error)) {
+        console.warn('🔑 Track keys released on the server, re-keying...');
+        await this.rekeySession();
+        await this.player.previousTrack(autoPlay);
+        console.log('✅ Switched to previous track after re-keying');
+        return;
+      }
+
       // Check if error indicates session expired
-      if (this.isSessionExpiredError(error)) {
+      if (this.isSessionLostError(error)) {
         console.warn('⏰ Session expired during previous track, reinitializing...');
         this.resetSessionState();
 
         // Retry once after recreating session
-        await this.initializePlaylist();
+        await this.reinitializePlaylist();
         await this.player.previousTrack(autoPlay);
         console.log('✅ Switched to previous track after session recreation');
         return;
@@ -325,11 +1025,11 @@ export class SecStreamService {
     try {
       // Initialize playlist if not already done
       if (!this.isSessionInitialized) {
-        await this.initializePlaylist();
+        await this.reinitializePlaylist();
       }
 
       // Find the track index in the playlist
-      const trackIndex = AUDIO_PLAYLIST.findIndex(t => t.id === track.id);
+      const trackIndex = this.playlist.findIndex(t => t.id === track.id);
       if (trackIndex === -1) {
         throw new Error(`Track ${track.title} not found in playlist`);
       }
@@ -356,7 +1056,8 @@ export class SecStreamService {
 
   /**
    * Connect an analyzer node to the audio graph for real-time analysis
-   * This inserts the analyzer between the player's gain node and the audio destination
+   * Each deck's gain node is routed through its own crossfade gain stage,
+   * and both stages are mixed into the analyzer before the destination
    */
   private connectAnalyzer(): void {
     if (!this.player || !this.client) {
@@ -367,27 +1068,35 @@ export class SecStreamService {
     try {
       const audioContext = this.client.getAudioContext();
 
-      // Access the player's private gainNode (TypeScript private is compile-time only)
-      const playerGainNode = (this.player as unknown as SecureAudioPlayerInternal).gainNode;
-
-      if (!playerGainNode) {
-        console.error('Could not access player gain node');
-        return;
-      }
-
       // Create analyzer node
       this.analyzerNode = audioContext.createAnalyser();
       this.analyzerNode.fftSize = 2048;
       this.analyzerNode.smoothingTimeConstant = 0.8;
       this.analyzerNode.minDecibels = -90;
       this.analyzerNode.maxDecibels = -10;
-
-      // Reconnect audio graph: gainNode -> analyzer -> destination
-      playerGainNode.disconnect();
-      playerGainNode.connect(this.analyzerNode);
       this.analyzerNode.connect(audioContext.destination);
 
-      console.log('✅ Audio analyzer connected to SecStream audio graph');
+      for (const deck of this.getDecks()) {
+        // Access the player's private gainNode (TypeScript private is compile-time only)
+        const playerGainNode = (deck as unknown as SecureAudioPlayerInternal).gainNode;
+
+        if (!playerGainNode) {
+          console.error('Could not access player gain node');
+          continue;
+        }
+
+        // Active deck starts audible, standby deck starts silent
+        const deckGain = audioContext.createGain();
+        deckGain.gain.value = deck === this.player ? 1 : 0;
+
+        // Reconnect audio graph: gainNode -> deck gain -> analyzer -> destination
+        playerGainNode.disconnect();
+        playerGainNode.connect(deckGain);
+        deckGain.connect(this.analyzerNode);
+        this.deckGains.set(deck, deckGain);
+      }
+
+      console.log(`✅ Audio analyzer connected to SecStream audio graph (${this.deckGains.size} decks)`);
     } catch (error: unknown) {
       console.error('❌ Failed to connect analyzer:', error);
     }
@@ -457,14 +1166,12 @@ export class SecStreamService {
       console.error('❌ Error message:', errorMessage);
 
       // Check if error indicates session expired
-      if (this.isSessionExpiredError(error)) {
-        console.warn('⏰ Session expired during play, reinitializing...');
-        this.resetSessionState();
+      if (this.isSessionLostError(error)) {
+        console.warn('⏰ Session expired during play, recovering...');
 
-        // Retry once after recreating session
-        await this.initializePlaylist();
-        await this.player.play();
-        console.log('✅ Play succeeded after session recreation');
+        // Recreate the session and resume the same track where it stopped
+        await this.recoverSession({ resume: true });
+        console.log('✅ Play succeeded after session recovery');
         return;
       }
 
@@ -487,20 +1194,25 @@ export class SecStreamService {
   }
 
   pause(): void {
+    this.finishCrossfade();
     if (this.player) {
       this.player.pause();
     }
   }
 
   stop(): void {
+    this.finishCrossfade();
     if (this.player) {
       this.player.stop();
     }
   }
 
   setVolume(volume: number): void {
-    if (this.player) {
-      this.player.setVolume(Math.max(0, Math.min(1, volume)));
+    // Volume applies to both decks; the crossfade stage is separate
+    const clamped = Math.max(0, Math.min(1, volume));
+    this.volume = clamped;
+    for (const deck of this.getDecks()) {
+      deck.setVolume(clamped);
     }
   }
 
@@ -509,20 +1221,21 @@ export class SecStreamService {
       throw new Error('No SecStream player available');
     }
 
+    // Seeking cuts a running crossfade short
+    this.finishCrossfade();
+
     try {
       await this.player.seekToTime(time);
     } catch (error: unknown) {
       console.error('❌ SecStream seek failed:', error);
 
       // Check if error indicates session expired
-      if (this.isSessionExpiredError(error)) {
-        console.warn('⏰ Session expired during seek, reinitializing...');
-        this.resetSessionState();
+      if (this.isSessionLostError(error)) {
+        console.warn('⏰ Session expired during seek, recovering...');
 
-        // Retry once after recreating session
-        await this.initializePlaylist();
-        await this.player.seekToTime(time);
-        console.log('✅ Seek succeeded after session recreation');
+        // Recreate the session and reload the same track at the seek target
+        await this.recoverSession({ position: time });
+        console.log('✅ Seek succeeded after session recovery');
         return;
       }
 
@@ -538,6 +1251,41 @@ export class SecStreamService {
     return this.player ? this.player.duration : 0;
   }
 
+  /**
+   * Get time ranges of the current track covered by fetched slices
+   * Derived from the slice sequences the transport has downloaded
+   */
+  getBufferedRanges(): BufferedRange[] {
+    if (!this.player || !this.transport) return [];
+
+    const duration = this.getDuration();
+    if (!duration) return [];
+
+    const trackId = this.player.getCurrentTrack()?.trackId;
+    const sliceDurationMs = this.transport.getSliceDurationMs();
+    if (!sliceDurationMs) return [];
+
+    const sequences = this.transport.getFetchedSliceSequences(trackId);
+    const sliceSeconds = sliceDurationMs / 1000;
+
+    // Merge contiguous slices into ranges
+    const ranges: BufferedRange[] = [];
+    for (const sequence of sequences) {
+      const start = sequence * sliceSeconds;
+      const end = Math.min(duration, start + sliceSeconds);
+      if (start >= duration) continue;
+
+      const last = ranges[ranges.length - 1];
+      if (last && start <= last.end) {
+        last.end = Math.max(last.end, end);
+      } else {
+        ranges.push({ start, end });
+      }
+    }
+
+    return ranges;
+  }
+
   isPlaying(): boolean {
     return this.player ? this.player.isPlaying : false;
   }
@@ -546,23 +1294,46 @@ export class SecStreamService {
     return this.player ? this.player.isPaused : false;
   }
 
+  /**
+   * Listen to events from the active deck ('ended', 'error', 'suspended',
+   * 'trackchange') and service events ('trackending', 'qualitychange')
+   */
   addEventListener(event: string, listener: EventListener): void {
-    if (this.player) {
-      this.player.addEventListener(event, listener);
-    }
+    this.events.addEventListener(event, listener);
   }
 
   removeEventListener(event: string, listener: EventListener): void {
-    if (this.player) {
-      this.player.removeEventListener(event, listener);
-    }
+    this.events.removeEventListener(event, listener);
+  }
+
+  /**
+   * End the server session (e.g. on pagehide) so it doesn't linger until expiry
+   * The next playback operation creates a fresh session.
+   */
+  closeSession(): void {
+    if (!this.transport || !this.currentSessionId) return;
+
+    console.log(`👋 Closing session ${this.currentSessionId}`);
+    this.transport.closeSession(this.currentSessionId);
+    this.resetSessionState();
   }
 
   destroy(): void {
-    if (this.player) {
-      this.player.stop();
-      this.player = null;
+    this.closeSession();
+    if (this.tailWatchTimer) {
+      clearInterval(this.tailWatchTimer);
+      this.tailWatchTimer = null;
+    }
+    this.finishCrossfade();
+    for (const deck of this.getDecks()) {
+      deck.stop();
+    }
+    for (const deckGain of this.deckGains.values()) {
+      deckGain.disconnect();
     }
+    this.deckGains.clear();
+    this.player = null;
+    this.standbyPlayer = null;
     if (this.client) {
       this.client.destroy();
       this.client = null;
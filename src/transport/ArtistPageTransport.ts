@@ -4,6 +4,30 @@ import type {
   ProcessorKeyExchangeRequest as KeyExchangeRequest,
   ProcessorKeyExchangeResponse as KeyExchangeResponse
 } from 'secstream/client';
+import type { ClientSessionExpiry } from '../utils/session/session-expiry';
+import { ApiErrorCode } from '../constants/api-errors';
+import { TransportError } from './TransportError';
+import { solveProofOfWork } from '../utils/challenge/proof-of-work';
+import type { ChallengeSolution, SessionChallengeResponse } from '../utils/challenge/proof-of-work';
+import type { QualityTierId, QualityTierInfo, QualityTierSessionInfo } from '../utils/audio/quality-tiers';
+import type { SliceDownloadSample } from '../utils/playback/quality-selector';
+
+export { TransportError };
+
+// Retries for idempotent GETs (session info, slices)
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+// Longer rate-limit waits are left to the caller
+const MAX_RATE_LIMIT_WAIT_MS = 5000;
+
+/**
+ * Session expiry on the client's clock
+ */
+export interface SessionDeadline {
+  sliding: boolean;     // Heartbeats can extend expiresAt (up to maxExpiresAt)
+  expiresAt: number;
+  maxExpiresAt: number;
+}
 
 /**
  * Transport implementation for the artist page application
@@ -12,11 +36,82 @@ import type {
  */
 export class ArtistPageTransport implements Transport {
   private baseUrl: string;
+  // Slice sequences fetched per track (key '' for single-track sessions)
+  private fetchedSlices: Map<string, Set<number>> = new Map();
+  // Expiry of the current session, from session creation and heartbeats
+  private sessionDeadline: SessionDeadline | null = null;
+  // Quality tier requested at the next key exchange (server default when null)
+  private qualityTier: QualityTierId | null = null;
+  // Tier each track was keyed at; its slices must use the same one (key '' = first track)
+  private keyedTiers: Map<string, QualityTierId> = new Map();
+  // Tiers advertised by the server
+  private qualityTiers: QualityTierInfo[] = [];
+  // Slice duration of the current session, from its session info
+  private sliceDurationMs: number | null = null;
+  private sliceDownloadListener: ((sample: SliceDownloadSample) => void) | null = null;
 
   constructor(baseUrl: string = '') {
     this.baseUrl = baseUrl.replace(/\/$/, '');
   }
 
+  /**
+   * fetch() that throws TransportError for network failures and non-OK responses
+   */
+  private async send(url: string, init: RequestInit): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      throw TransportError.fromNetworkError(error);
+    }
+
+    if (!response.ok) {
+      throw await TransportError.fromResponse(response);
+    }
+    return response;
+  }
+
+  /**
+   * send() for idempotent requests, retrying transient failures
+   * Network and storage errors back off exponentially; rate limits wait for
+   * Retry-After when it is short.
+   */
+  private async sendWithRetry(url: string, init: RequestInit): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send(url, init);
+      } catch (error) {
+        const delayMs = attempt < MAX_RETRIES ? this.retryDelay(error, attempt) : null;
+        if (delayMs === null) {
+          throw error;
+        }
+        console.warn(`⚠️ ${(error as TransportError).code}, retrying in ${delayMs}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  /**
+   * Delay before retrying, or null if the error should not be retried
+   */
+  private retryDelay(error: unknown, attempt: number): number | null {
+    if (!(error instanceof TransportError)) {
+      return null;
+    }
+
+    switch (error.code) {
+      case ApiErrorCode.NETWORK_ERROR:
+      case ApiErrorCode.STORAGE_UNAVAILABLE:
+        return RETRY_BASE_DELAY_MS * 2 ** attempt;
+      case ApiErrorCode.RATE_LIMITED:
+        return error.retryAfterMs !== undefined && error.retryAfterMs <= MAX_RATE_LIMIT_WAIT_MS
+          ? error.retryAfterMs
+          : null;
+      default:
+        return null;
+    }
+  }
+
   async createSession(audioData: File | ArrayBuffer): Promise<string> {
     throw new Error('File upload not supported. Use createSessionFromTrack or createSessionFromTracks instead.');
   }
@@ -25,46 +120,198 @@ export class ArtistPageTransport implements Transport {
    * Create a session with a single track (legacy method)
    */
   async createSessionFromTrack(audioKey: string): Promise<string> {
-    const response = await fetch(`${this.baseUrl}/api/sessions`, {
+    return await this.postSession({ audioKey });
+  }
+
+  /**
+   * Create a session with multiple tracks
+   */
+  async createSessionFromTracks(audioKeys: string[]): Promise<string> {
+    // Slices and keys from a previous session are not valid for the new one
+    this.resetKeys();
+    this.sliceDurationMs = null;
+
+    return await this.postSession({ audioKeys });
+  }
+
+  /**
+   * Forget which tracks were keyed (and the slices fetched with those keys)
+   * Before a new session, or a new key exchange on the current one
+   */
+  resetKeys(): void {
+    this.fetchedSlices.clear();
+    this.keyedTiers.clear();
+  }
+
+  /**
+   * POST /api/sessions with a solved challenge
+   * A rejected challenge (expired, or the gate was just enabled) is solved again once
+   */
+  private async postSession(body: { audioKey?: string; audioKeys?: string[] }): Promise<string> {
+    const create = async () => this.send(`${this.baseUrl}/api/sessions`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'Connection': 'keep-alive'
       },
-      body: JSON.stringify({ audioKey }),
+      body: JSON.stringify({ ...body, challenge: await this.solveSessionChallenge() }),
       keepalive: true,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`HTTP ${response.status}: ${response.statusText} - ${errorText}`);
+    let response: Response;
+    try {
+      response = await create();
+    } catch (error) {
+      if (!(error instanceof TransportError) || error.code !== ApiErrorCode.CHALLENGE_REQUIRED) {
+        throw error;
+      }
+      console.warn('⚠️ Session challenge rejected, solving a new one');
+      response = await create();
     }
 
-    const result = await response.json() as { sessionId: string };
+    const result = await response.json() as { sessionId: string; expiry?: ClientSessionExpiry };
+    this.recordExpiry(result.expiry);
     return result.sessionId;
   }
 
   /**
-   * Create a session with multiple tracks
+   * Fetch and solve the session creation challenge
+   * @returns undefined when the server does not require one
    */
-  async createSessionFromTracks(audioKeys: string[]): Promise<string> {
-    const response = await fetch(`${this.baseUrl}/api/sessions`, {
+  private async solveSessionChallenge(): Promise<ChallengeSolution | undefined> {
+    const response = await this.sendWithRetry(`${this.baseUrl}/api/sessions/challenge`, {
+      headers: { 'Connection': 'keep-alive' },
+    });
+    const challenge = await response.json() as SessionChallengeResponse;
+    if (!challenge.required) {
+      return undefined;
+    }
+
+    const startTime = performance.now();
+    const counter = await this.runProofOfWork(challenge.token, challenge.difficulty);
+    console.log(`🧩 Session challenge solved (${challenge.difficulty} bits, ${Math.round(performance.now() - startTime)}ms)`);
+    return { token: challenge.token, counter };
+  }
+
+  /**
+   * Solve a puzzle in a Web Worker, or on the main thread where workers are unavailable
+   */
+  private runProofOfWork(token: string, difficulty: number): Promise<number> {
+    if (typeof Worker === 'undefined') {
+      return solveProofOfWork(token, difficulty);
+    }
+
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('./ProofOfWorkWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<{ counter: number }>) => {
+        worker.terminate();
+        resolve(event.data.counter);
+      };
+      worker.onerror = (error) => {
+        worker.terminate();
+        reject(new Error(`Challenge worker failed: ${error.message}`));
+      };
+      worker.postMessage({ token, difficulty });
+    });
+  }
+
+  /**
+   * Convert a server expiry (relative durations) to the local clock
+   */
+  private recordExpiry(expiry: ClientSessionExpiry | undefined): void {
+    if (!expiry) {
+      this.sessionDeadline = null;
+      return;
+    }
+
+    const now = Date.now();
+    this.sessionDeadline = {
+      sliding: expiry.sliding,
+      expiresAt: now + expiry.expiresInMs,
+      maxExpiresAt: now + expiry.maxExpiresInMs,
+    };
+  }
+
+  /**
+   * Expiry of the current session, if the server reported one
+   */
+  getSessionDeadline(): SessionDeadline | null {
+    return this.sessionDeadline;
+  }
+
+  /**
+   * Renew the session (extends sliding sessions) and return its new expiry
+   */
+  async heartbeat(sessionId: string): Promise<SessionDeadline | null> {
+    const response = await this.send(`${this.baseUrl}/api/sessions/${sessionId}/heartbeat`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Connection': 'keep-alive'
-      },
-      body: JSON.stringify({ audioKeys }),
+      headers: { 'Connection': 'keep-alive' },
       keepalive: true,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`HTTP ${response.status}: ${response.statusText} - ${errorText}`);
-    }
+    const result = await response.json() as { expiry?: ClientSessionExpiry };
+    this.recordExpiry(result.expiry);
+    return this.sessionDeadline;
+  }
 
-    const result = await response.json() as { sessionId: string };
-    return result.sessionId;
+  /**
+   * Choose the quality tier for tracks keyed from now on
+   * Tracks that already have keys keep their tier
+   */
+  setQualityTier(tier: QualityTierId): void {
+    this.qualityTier = tier;
+  }
+
+  /**
+   * Tier a track was keyed at (null if it has no keys yet)
+   */
+  getKeyedTier(trackId?: string): QualityTierId | null {
+    // The session's first key exchange names no track
+    return this.keyedTiers.get(trackId ?? '') ?? this.keyedTiers.get('') ?? null;
+  }
+
+  /**
+   * Quality tiers advertised by the server (best first)
+   */
+  getQualityTiers(): QualityTierInfo[] {
+    return this.qualityTiers;
+  }
+
+  /**
+   * Slice duration of the current session (null until its session info arrives)
+   */
+  getSliceDurationMs(): number | null {
+    return this.sliceDurationMs;
+  }
+
+  /**
+   * Called with the size and download time of every fetched slice
+   */
+  onSliceDownloaded(listener: ((sample: SliceDownloadSample) => void) | null): void {
+    this.sliceDownloadListener = listener;
+  }
+
+  /**
+   * Session route URL with the optional track and tier query parameters
+   */
+  private sessionUrl(path: string, trackId?: string, tier?: QualityTierId | null): string {
+    const params = new URLSearchParams();
+    if (trackId) params.set('trackId', trackId);
+    if (tier) params.set('tier', tier);
+    const query = params.toString();
+    return `${this.baseUrl}/api/sessions/${path}${query ? `?${query}` : ''}`;
+  }
+
+  /**
+   * Remember the tiers and slice duration the server reported along with session info
+   */
+  private recordSessionInfo(sessionInfo: QualityTierSessionInfo | undefined): void {
+    if (sessionInfo?.qualityTiers) {
+      this.qualityTiers = sessionInfo.qualityTiers;
+    }
+    if (sessionInfo?.sliceDurationMs) {
+      this.sliceDurationMs = sessionInfo.sliceDurationMs;
+    }
   }
 
   async performKeyExchange<TRequestData = unknown, TResponseData = unknown, TSessionInfo = SessionInfo>(
@@ -72,12 +319,8 @@ export class ArtistPageTransport implements Transport {
     request: KeyExchangeRequest<TRequestData>,
     trackId?: string
   ): Promise<KeyExchangeResponse<TResponseData, TSessionInfo>> {
-    // Build URL with optional trackId query parameter
-    const url = trackId
-      ? `${this.baseUrl}/api/sessions/${sessionId}/key-exchange?trackId=${encodeURIComponent(trackId)}`
-      : `${this.baseUrl}/api/sessions/${sessionId}/key-exchange`;
-
-    const response = await fetch(url, {
+    const tier = this.qualityTier;
+    const response = await this.send(this.sessionUrl(`${sessionId}/key-exchange`, trackId, tier), {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -87,46 +330,67 @@ export class ArtistPageTransport implements Transport {
       keepalive: true,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`HTTP ${response.status}: ${response.statusText} - ${errorText}`);
-    }
+    const result = await response.json() as KeyExchangeResponse<TResponseData, TSessionInfo>;
+    const sessionInfo = result.sessionInfo as QualityTierSessionInfo | undefined;
+    this.recordSessionInfo(sessionInfo);
 
-    return await response.json();
+    // The server reports the tier it actually keyed
+    const keyedTier = sessionInfo?.qualityTier ?? tier;
+    if (keyedTier) {
+      this.keyedTiers.set(trackId ?? '', keyedTier);
+    }
+    return result;
   }
 
   async getSessionInfo(sessionId: string): Promise<SessionInfo> {
-    const response = await fetch(`${this.baseUrl}/api/sessions/${sessionId}/info`, {
+    const response = await this.sendWithRetry(this.sessionUrl(`${sessionId}/info`, undefined, this.getKeyedTier() ?? this.qualityTier), {
       headers: { 'Connection': 'keep-alive' },
       keepalive: true,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`HTTP ${response.status}: ${response.statusText} - ${errorText}`);
+    const info = await response.json() as SessionInfo;
+    this.recordSessionInfo(info as QualityTierSessionInfo);
+    return info;
+  }
+
+  /**
+   * End a session on the server
+   * Safe to call while the page is unloading: uses sendBeacon (POST) when
+   * available, otherwise a keepalive DELETE. Fire-and-forget.
+   */
+  closeSession(sessionId: string): void {
+    const url = `${this.baseUrl}/api/sessions/${sessionId}`;
+    this.sessionDeadline = null;
+
+    if (typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function' && navigator.sendBeacon(url)) {
+      return;
     }
 
-    return await response.json();
+    fetch(url, { method: 'DELETE', keepalive: true }).catch((error) => {
+      console.warn(`⚠️ Failed to close session ${sessionId}:`, error);
+    });
   }
 
   async fetchSlice(sessionId: string, sliceId: string, trackId?: string): Promise<EncryptedSlice> {
-    // Build URL with optional trackId query parameter
-    const url = trackId
-      ? `${this.baseUrl}/api/sessions/${sessionId}/slices/${sliceId}?trackId=${encodeURIComponent(trackId)}`
-      : `${this.baseUrl}/api/sessions/${sessionId}/slices/${sliceId}`;
+    // Slices come from the variant the track was keyed at
+    const tier = this.getKeyedTier(trackId);
+    const startTime = performance.now();
 
-    const response = await fetch(url, {
+    const response = await this.sendWithRetry(this.sessionUrl(`${sessionId}/slices/${sliceId}`, trackId, tier), {
       headers: { 'Connection': 'keep-alive' },
       keepalive: true,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`HTTP ${response.status}: ${response.statusText} - ${errorText}`);
-    }
-
     // Get binary data
     const binaryData = await response.arrayBuffer();
+    if (tier && this.sliceDurationMs) {
+      this.sliceDownloadListener?.({
+        tier,
+        bytes: binaryData.byteLength,
+        durationMs: performance.now() - startTime,
+        sliceDurationMs: this.sliceDurationMs,
+      });
+    }
 
     // Parse metadata from HTTP headers
     const sliceIdHeader = response.headers.get('X-Slice-ID');
@@ -149,6 +413,8 @@ export class ArtistPageTransport implements Transport {
     const encryptedData = binaryData.slice(0, encryptedDataLength);
     const iv = binaryData.slice(encryptedDataLength, encryptedDataLength + ivLength);
 
+    this.recordFetchedSlice(trackIdHeader || trackId, sequence);
+
     console.log(`✅ Artist page transport: Fetched slice ${sliceId} (${binaryData.byteLength} bytes)${trackId ? ` for track ${trackId}` : ''}`);
 
     return {
@@ -161,35 +427,48 @@ export class ArtistPageTransport implements Transport {
     };
   }
 
+  /**
+   * Remember which slices have been fetched, for buffered-range display
+   */
+  private recordFetchedSlice(trackId: string | null | undefined, sequence: number): void {
+    if (!Number.isFinite(sequence)) return;
+
+    const key = trackId ?? '';
+    let sequences = this.fetchedSlices.get(key);
+    if (!sequences) {
+      sequences = new Set();
+      this.fetchedSlices.set(key, sequences);
+    }
+    sequences.add(sequence);
+  }
+
+  /**
+   * Get the sequence numbers of slices fetched for a track
+   */
+  getFetchedSliceSequences(trackId?: string): number[] {
+    const sequences = this.fetchedSlices.get(trackId ?? '');
+    return sequences ? Array.from(sequences).sort((a, b) => a - b) : [];
+  }
+
   async addTrack(
     sessionId: string,
     audioData: File | ArrayBuffer,
     metadata?: { title?: string; artist?: string; album?: string }
   ): Promise<TrackInfo> {
-    const response = await fetch(`${this.baseUrl}/api/sessions/${sessionId}/tracks`, {
+    const response = await this.send(`${this.baseUrl}/api/sessions/${sessionId}/tracks`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ audioData, metadata }),
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`HTTP ${response.status}: ${response.statusText} - ${errorText}`);
-    }
-
     return await response.json();
   }
 
   async removeTrack(sessionId: string, trackIdOrIndex: string | number): Promise<SessionInfo> {
-    const response = await fetch(`${this.baseUrl}/api/sessions/${sessionId}/tracks/${trackIdOrIndex}`, {
+    const response = await this.send(`${this.baseUrl}/api/sessions/${sessionId}/tracks/${trackIdOrIndex}`, {
       method: 'DELETE',
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`HTTP ${response.status}: ${response.statusText} - ${errorText}`);
-    }
-
     return await response.json();
   }
 }
\ No newline at end of file
@@ -0,0 +1,12 @@
+/**
+ * Web Worker that solves session challenges off the main thread
+ * Receives { token, difficulty }, replies { counter }
+ */
+
+import { solveProofOfWork } from '../utils/challenge/proof-of-work';
+
+self.onmessage = async (event: MessageEvent<{ token: string; difficulty: number }>) => {
+  const { token, difficulty } = event.data;
+  const counter = await solveProofOfWork(token, difficulty);
+  self.postMessage({ counter });
+};
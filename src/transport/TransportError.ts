@@ -0,0 +1,95 @@
+import { ApiErrorCode, isApiErrorCode } from '../constants/api-errors';
+import type { ApiErrorBody } from '../constants/api-errors';
+
+/**
+ * Code to assume when an error response has no (recognised) code in its body
+ */
+function codeFromStatus(status: number): ApiErrorCode {
+  switch (status) {
+    case 400: return ApiErrorCode.INVALID_REQUEST;
+    case 401: return ApiErrorCode.UNAUTHORIZED;
+    case 403: return ApiErrorCode.SESSION_REVOKED;
+    case 404: return ApiErrorCode.NOT_FOUND;
+    case 409: return ApiErrorCode.CONFLICT;
+    case 410: return ApiErrorCode.SESSION_EXPIRED;
+    case 429: return ApiErrorCode.RATE_LIMITED;
+    case 502:
+    case 503:
+    case 504: return ApiErrorCode.STORAGE_UNAVAILABLE;
+    default: return ApiErrorCode.INTERNAL_ERROR;
+  }
+}
+
+/**
+ * Error thrown by ArtistPageTransport for failed API requests
+ * Callers branch on `code` (see constants/api-errors.ts), never on the message.
+ */
+export class TransportError extends Error {
+  constructor(
+    public readonly code: ApiErrorCode,
+    message: string,
+    public readonly status: number = 0,
+    public readonly retryAfterMs?: number,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'TransportError';
+  }
+
+  /**
+   * Build from a non-OK response, reading the API error body when there is one
+   */
+  static async fromResponse(response: Response): Promise<TransportError> {
+    let body: Partial<ApiErrorBody> = {};
+    try {
+      body = await response.json() as Partial<ApiErrorBody>;
+    } catch {
+      // Not JSON (proxy error page, empty body)
+    }
+
+    const code = isApiErrorCode(body.code) ? body.code : codeFromStatus(response.status);
+    const retryAfterSeconds = body.retryAfter ?? Number(response.headers.get('Retry-After'));
+    const retryAfterMs = retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : undefined;
+    const summary = body.error ?? response.statusText;
+
+    return new TransportError(
+      code,
+      `HTTP ${response.status}: ${summary}${body.message ? ` - ${body.message}` : ''}`,
+      response.status,
+      retryAfterMs,
+      body.details
+    );
+  }
+
+  /**
+   * Wrap a fetch() rejection (offline, DNS, connection reset)
+   */
+  static fromNetworkError(error: unknown): TransportError {
+    const message = error instanceof Error ? error.message : String(error);
+    return new TransportError(ApiErrorCode.NETWORK_ERROR, `Network error: ${message}`);
+  }
+}
+
+/**
+ * Find the API error code behind an error
+ * The secstream player may wrap transport errors, so this follows `cause`
+ * and accepts any error-like object carrying a known code.
+ */
+export function getTransportErrorCode(error: unknown): ApiErrorCode | null {
+  let current: unknown = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (current instanceof TransportError) {
+      return current.code;
+    }
+    if (typeof current === 'object') {
+      const { code, cause } = current as { code?: unknown; cause?: unknown };
+      if (isApiErrorCode(code)) {
+        return code;
+      }
+      current = cause;
+    } else {
+      return null;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,74 @@
+/**
+ * Admin API authentication
+ *
+ * All /api/admin/* routes require `Authorization: Bearer <ADMIN_API_TOKEN>`.
+ * The token is a worker secret; when it is not configured the admin API is
+ * disabled entirely rather than left open.
+ */
+
+import { apiError, ApiErrorCode } from '../api/api-error.js';
+import type { ApiErrorOptions } from '../api/api-error.js';
+
+const JSON_HEADERS = { 'Content-Type': 'application/json' };
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
+/**
+ * Constant-time string comparison to avoid leaking the token through timing
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+
+  // Compare against itself on length mismatch so the loop still runs
+  const compareTo = aBytes.length === bBytes.length ? bBytes : aBytes;
+  let diff = aBytes.length === bBytes.length ? 0 : 1;
+
+  for (let i = 0; i < aBytes.length; i++) {
+    diff |= aBytes[i] ^ compareTo[i];
+  }
+
+  return diff === 0;
+}
+
+/**
+ * Verify the admin bearer token
+ * @returns null when authorized, otherwise the error response to return
+ */
+export function requireAdmin(request: Request, locals: App.Locals): Response | null {
+  const expectedToken = locals.runtime?.env?.ADMIN_API_TOKEN;
+
+  if (!expectedToken) {
+    console.error('❌ Admin API requested but ADMIN_API_TOKEN is not configured');
+    return adminError(ApiErrorCode.NOT_CONFIGURED, 'Admin API not configured');
+  }
+
+  const authorization = request.headers.get('Authorization') || '';
+  const match = authorization.match(/^Bearer\s+(.+)$/i);
+
+  if (!match || !timingSafeEqual(match[1].trim(), expectedToken)) {
+    console.warn('⚠️ Unauthorized admin API request');
+    return adminError(ApiErrorCode.UNAUTHORIZED, 'Unauthorized', {
+      headers: { 'WWW-Authenticate': 'Bearer' }
+    });
+  }
+
+  return null;
+}
+
+/**
+ * JSON response helper for admin routes
+ */
+export function adminJson(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...JSON_HEADERS, ...NO_STORE }
+  });
+}
+
+/**
+ * Error response helper for admin routes (never cached)
+ */
+export function adminError(code: ApiErrorCode, error: string, options: ApiErrorOptions = {}): Response {
+  return apiError(code, error, { ...options, headers: { ...NO_STORE, ...options.headers } });
+}
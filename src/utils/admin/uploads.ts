@@ -0,0 +1,100 @@
+/**
+ * Upload validation for the admin API
+ */
+
+import { SECSTREAM_CONFIG } from '../../constants/playlist';
+
+// Cover formats the cover route can decode
+const ALLOWED_COVER_FORMATS = ['image/png', 'image/jpeg', 'image/webp'];
+const MAX_COVER_SIZE = 10 * 1024 * 1024;
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/mp3': 'mp3',
+  'audio/mpeg': 'mp3',
+  'audio/flac': 'flac',
+  'audio/ogg': 'ogg',
+};
+
+const COVER_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+export type UploadValidationResult =
+  | { valid: true; extension: string }
+  | { valid: false; error: string };
+
+/**
+ * Validate an uploaded audio file against SECSTREAM_CONFIG
+ */
+export function validateAudioUpload(file: File): UploadValidationResult {
+  if (!SECSTREAM_CONFIG.allowedFormats.includes(file.type)) {
+    return { valid: false, error: `Unsupported audio format: ${file.type || 'unknown'}` };
+  }
+
+  if (file.size === 0) {
+    return { valid: false, error: 'Audio file is empty' };
+  }
+
+  if (file.size > SECSTREAM_CONFIG.maxFileSize) {
+    return {
+      valid: false,
+      error: `Audio file too large: ${(file.size / 1024 / 1024).toFixed(1)} MB (max ${SECSTREAM_CONFIG.maxFileSize / 1024 / 1024} MB)`,
+    };
+  }
+
+  return { valid: true, extension: AUDIO_EXTENSIONS[file.type] };
+}
+
+/**
+ * Validate an uploaded cover image
+ */
+export function validateCoverUpload(file: File): UploadValidationResult {
+  if (!ALLOWED_COVER_FORMATS.includes(file.type)) {
+    return { valid: false, error: `Unsupported cover format: ${file.type || 'unknown'}` };
+  }
+
+  if (file.size === 0) {
+    return { valid: false, error: 'Cover file is empty' };
+  }
+
+  if (file.size > MAX_COVER_SIZE) {
+    return { valid: false, error: `Cover file too large (max ${MAX_COVER_SIZE / 1024 / 1024} MB)` };
+  }
+
+  return { valid: true, extension: COVER_EXTENSIONS[file.type] };
+}
+
+/**
+ * Store an uploaded file without replacing an existing object
+ * The head check covers the common case; If-None-Match closes the race with a concurrent upload
+ * @returns false when the key is already taken (nothing is written)
+ */
+export async function putUploadIfAbsent(bucket: R2Bucket, key: string, file: File): Promise<boolean> {
+  if (await bucket.head(key)) {
+    return false;
+  }
+
+  const written = await bucket.put(key, file.stream(), {
+    httpMetadata: { contentType: file.type },
+    onlyIf: new Headers({ 'If-None-Match': '*' }),
+  });
+  return written !== null;
+}
+
+/**
+ * Turn a track title into a bucket-safe file name (e.g. "Guide Line" -> "guide_line")
+ */
+export function slugifyTitle(title: string): string {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+  // Titles without latin characters still need a usable key
+  return slug || `track_${Date.now()}`;
+}
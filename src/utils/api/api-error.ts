@@ -0,0 +1,64 @@
+/**
+ * Error responses for /api routes (see constants/api-errors.ts)
+ */
+
+import { ApiErrorCode, API_ERROR_STATUS } from '../../constants/api-errors';
+import type { ApiErrorBody } from '../../constants/api-errors';
+
+export { ApiErrorCode };
+
+export interface ApiErrorOptions {
+  status?: number;   // Overrides the code's default status
+  message?: string;
+  details?: unknown;
+  retryAfter?: number;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Error thrown inside route helpers and turned into a response by errorResponse()
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly code: ApiErrorCode,
+    message: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Build an error response with a machine-readable code
+ */
+export function apiError(code: ApiErrorCode, error: string, options: ApiErrorOptions = {}): Response {
+  const body: ApiErrorBody = { error, code };
+  if (options.message !== undefined) body.message = options.message;
+  if (options.details !== undefined) body.details = options.details;
+  if (options.retryAfter !== undefined) body.retryAfter = options.retryAfter;
+
+  return new Response(JSON.stringify(body), {
+    status: options.status ?? API_ERROR_STATUS[code],
+    headers: {
+      'Content-Type': 'application/json',
+      'Connection': 'keep-alive',
+      ...options.headers
+    }
+  });
+}
+
+/**
+ * Response for an exception caught by a route
+ * ApiErrors keep their code; anything else is an INTERNAL_ERROR
+ */
+export function errorResponse(error: unknown, fallback: string, headers?: Record<string, string>): Response {
+  if (error instanceof ApiError) {
+    return apiError(error.code, error.message, { details: error.details, headers });
+  }
+
+  return apiError(ApiErrorCode.INTERNAL_ERROR, fallback, {
+    details: error instanceof Error ? error.message : 'Unknown error',
+    headers
+  });
+}
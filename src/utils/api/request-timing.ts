@@ -0,0 +1,47 @@
+/**
+ * Per-request timing for /api routes
+ *
+ * Marks are logged as they happen (same `⏱️ [Nms]` lines the routes always
+ * printed) and summarised in a Server-Timing header, so slow phases show up
+ * in the browser's network panel without reading worker logs.
+ */
+
+interface TimingMark {
+  label: string;
+  at: number;   // ms since the request started
+}
+
+export class RequestTiming {
+  readonly startedAt = Date.now();
+  private marks: TimingMark[] = [];
+
+  /**
+   * Milliseconds since the request started
+   */
+  elapsed(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  /**
+   * Record (and log) the end of a phase
+   */
+  mark(label: string): void {
+    const at = this.elapsed();
+    this.marks.push({ label, at });
+    console.log(`⏱️ [${at}ms] ${label}`);
+  }
+
+  /**
+   * Server-Timing value: one entry per mark (duration since the previous mark) plus the total
+   */
+  toServerTiming(): string {
+    let previous = 0;
+    const entries = this.marks.map(({ label, at }, index) => {
+      const entry = `m${index};desc="${label.replace(/["\\]/g, '')}";dur=${at - previous}`;
+      previous = at;
+      return entry;
+    });
+    entries.push(`total;dur=${this.elapsed()}`);
+    return entries.join(', ');
+  }
+}
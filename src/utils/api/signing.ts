@@ -0,0 +1,48 @@
+/**
+ * HMAC signing for tokens handed to clients
+ * (session binding cookies, session challenges)
+ */
+
+export function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function importHmacKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  );
+}
+
+/**
+ * HMAC-SHA256 of a value, base64url encoded
+ */
+export async function hmacSign(value: string, secret: string): Promise<string> {
+  const key = await importHmacKey(secret, 'sign');
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(value));
+  return toBase64Url(new Uint8Array(signature));
+}
+
+/**
+ * Check a base64url HMAC-SHA256 signature
+ * crypto.subtle.verify compares in constant time, so the signature can't be probed byte by byte
+ */
+export async function hmacVerify(value: string, signature: string, secret: string): Promise<boolean> {
+  let signatureBytes: Uint8Array<ArrayBuffer>;
+  try {
+    signatureBytes = fromBase64Url(signature);
+  } catch {
+    return false;
+  }
+
+  const key = await importHmacKey(secret, 'verify');
+  return crypto.subtle.verify('HMAC', key, signatureBytes, new TextEncoder().encode(value));
+}
@@ -0,0 +1,131 @@
+/**
+ * Lightweight audio header probing
+ *
+ * OfflineAudioContext.decodeAudioData() resamples to the context's sample rate,
+ * so the context has to be created with the source's native rate and channel
+ * count to keep the decoded PCM lossless. This reads just enough of the
+ * container header (WAV, FLAC, MP3, Ogg Vorbis/Opus) to find them.
+ */
+
+export interface AudioFormatInfo {
+  sampleRate: number;
+  channels: number;
+}
+
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000],  // MPEG 2.5
+};
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  let result = '';
+  for (let i = 0; i < length && offset + i < bytes.length; i++) {
+    result += String.fromCharCode(bytes[offset + i]);
+  }
+  return result;
+}
+
+function probeWav(view: DataView, bytes: Uint8Array): AudioFormatInfo | null {
+  if (readAscii(bytes, 0, 4) !== 'RIFF' || readAscii(bytes, 8, 4) !== 'WAVE') return null;
+
+  // Walk chunks until "fmt "
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const chunkId = readAscii(bytes, offset, 4);
+    const chunkSize = view.getUint32(offset + 4, true);
+    if (chunkId === 'fmt ' && offset + 16 <= bytes.length) {
+      return {
+        channels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true),
+      };
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  return null;
+}
+
+function probeFlac(bytes: Uint8Array): AudioFormatInfo | null {
+  // "fLaC" + metadata block header (4 bytes) + STREAMINFO
+  if (readAscii(bytes, 0, 4) !== 'fLaC' || bytes.length < 8 + 18) return null;
+  if ((bytes[4] & 0x7f) !== 0) return null; // First block must be STREAMINFO
+
+  // STREAMINFO bytes 10-12: 20-bit sample rate, 3-bit (channels - 1)
+  const base = 8;
+  const sampleRate = (bytes[base + 10] << 12) | (bytes[base + 11] << 4) | (bytes[base + 12] >> 4);
+  const channels = ((bytes[base + 12] >> 1) & 0x07) + 1;
+  return sampleRate > 0 ? { sampleRate, channels } : null;
+}
+
+function probeMp3(bytes: Uint8Array): AudioFormatInfo | null {
+  let offset = 0;
+
+  // Skip ID3v2 tag (synchsafe size)
+  if (readAscii(bytes, 0, 3) === 'ID3' && bytes.length >= 10) {
+    const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+    offset = 10 + size;
+  }
+
+  // Scan for the first frame sync within a reasonable window
+  const end = Math.min(bytes.length - 4, offset + 64 * 1024);
+  for (let i = offset; i < end; i++) {
+    if (bytes[i] !== 0xff || (bytes[i + 1] & 0xe0) !== 0xe0) continue;
+
+    const versionBits = (bytes[i + 1] >> 3) & 0x03;
+    const layerBits = (bytes[i + 1] >> 1) & 0x03;
+    const sampleRateIndex = (bytes[i + 2] >> 2) & 0x03;
+    const channelMode = (bytes[i + 3] >> 6) & 0x03;
+
+    if (versionBits === 1 || layerBits === 0 || sampleRateIndex === 3) continue;
+
+    return {
+      sampleRate: MP3_SAMPLE_RATES[versionBits][sampleRateIndex],
+      channels: channelMode === 3 ? 1 : 2,
+    };
+  }
+  return null;
+}
+
+function probeOgg(view: DataView, bytes: Uint8Array): AudioFormatInfo | null {
+  if (readAscii(bytes, 0, 4) !== 'OggS' || bytes.length < 28) return null;
+
+  // First packet starts after the page header and segment table
+  const segmentCount = bytes[26];
+  const packet = 27 + segmentCount;
+
+  // Vorbis identification header
+  if (bytes[packet] === 0x01 && readAscii(bytes, packet + 1, 6) === 'vorbis' && packet + 16 <= bytes.length) {
+    return {
+      channels: bytes[packet + 11],
+      sampleRate: view.getUint32(packet + 12, true),
+    };
+  }
+
+  // Opus always decodes at 48 kHz
+  if (readAscii(bytes, packet, 8) === 'OpusHead' && packet + 10 <= bytes.length) {
+    return { channels: bytes[packet + 9], sampleRate: 48000 };
+  }
+
+  return null;
+}
+
+/**
+ * Probe sample rate and channel count from the file header
+ * @returns null when the format is not recognised
+ */
+export function probeAudioFormat(audioData: ArrayBuffer): AudioFormatInfo | null {
+  const bytes = new Uint8Array(audioData);
+  const view = new DataView(audioData);
+
+  try {
+    const info = probeWav(view, bytes) ?? probeFlac(bytes) ?? probeOgg(view, bytes) ?? probeMp3(bytes);
+
+    // Reject values OfflineAudioContext would not accept
+    if (!info || info.channels < 1 || info.channels > 32 || info.sampleRate < 3000 || info.sampleRate > 768000) {
+      return null;
+    }
+    return info;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Per-isolate LRU of decoded (PCM WAV) audio buffers
+ *
+ * Every SessionManager needs the decoded audio for its tracks. Without this
+ * cache each new session re-fetches the PCM from R2 even when another session
+ * in the same isolate already holds the exact same bytes.
+ *
+ * - Keyed by audioKey + source etag, so a re-uploaded file never serves old audio
+ * - Bounded by total bytes (not entry count), since track sizes vary a lot
+ * - Least recently used entries are evicted first
+ */
+
+interface DecodedAudioEntry {
+  data: ArrayBuffer;
+  size: number;
+}
+
+export class DecodedAudioCache {
+  // Map iteration order doubles as LRU order (oldest first)
+  private entries = new Map<string, DecodedAudioEntry>();
+  private totalBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(private maxBytes: number) {}
+
+  private getKey(audioKey: string, etag: string): string {
+    return `${audioKey}@${etag}`;
+  }
+
+  /**
+   * Get decoded audio, marking it as most recently used
+   */
+  get(audioKey: string, etag: string): ArrayBuffer | null {
+    const key = this.getKey(audioKey, etag);
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.data;
+  }
+
+  /**
+   * Store decoded audio, evicting least recently used entries to stay in budget
+   */
+  set(audioKey: string, etag: string, data: ArrayBuffer): void {
+    const key = this.getKey(audioKey, etag);
+    const size = data.byteLength;
+
+    if (size > this.maxBytes) {
+      console.log(`⚠️ Decoded audio cache: ${audioKey} (${(size / 1024 / 1024).toFixed(2)} MB) exceeds budget, not cached`);
+      return;
+    }
+
+    // Drop older versions of the same audio (different etag)
+    for (const existingKey of this.entries.keys()) {
+      if (existingKey.startsWith(`${audioKey}@`)) {
+        this.remove(existingKey);
+      }
+    }
+
+    while (this.totalBytes + size > this.maxBytes && this.entries.size > 0) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.remove(oldestKey);
+      this.evictions++;
+      console.log(`🗑️ Decoded audio cache: Evicted ${oldestKey} (LRU)`);
+    }
+
+    this.entries.set(key, { data, size });
+    this.totalBytes += size;
+    console.log(`💾 Decoded audio cache: Stored ${key} (${(this.totalBytes / 1024 / 1024).toFixed(2)}/${(this.maxBytes / 1024 / 1024).toFixed(0)} MB used)`);
+  }
+
+  /**
+   * Change the byte budget, evicting least recently used entries if it shrank
+   */
+  resize(maxBytes: number): void {
+    if (maxBytes === this.maxBytes) {
+      return;
+    }
+
+    this.maxBytes = maxBytes;
+    while (this.totalBytes > this.maxBytes && this.entries.size > 0) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.remove(oldestKey);
+      this.evictions++;
+      console.log(`🗑️ Decoded audio cache: Evicted ${oldestKey} (budget reduced)`);
+    }
+    console.log(`💾 Decoded audio cache: Budget set to ${(maxBytes / 1024 / 1024).toFixed(0)} MB`);
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.totalBytes -= entry.size;
+    }
+  }
+
+  getStats() {
+    const lookups = this.hits + this.misses;
+    return {
+      entries: this.entries.size,
+      totalBytes: this.totalBytes,
+      maxBytes: this.maxBytes,
+      utilizationPercent: (this.totalBytes / this.maxBytes) * 100,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? (this.hits / lookups) * 100 : 0,
+      evictions: this.evictions,
+    };
+  }
+}
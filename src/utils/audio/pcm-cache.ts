@@ -12,8 +12,25 @@
  *
  * Architecture:
  * 1. Check R2 for cached PCM (audioKey + ".pcm.wav")
- * 2. If exists: Return cached WAV (fast path)
- * 3. If not: Decode original audio → WAV → Cache in R2 → Return WAV
+ * 2. If exists and its source etag matches the original: Return cached WAV (fast path)
+ * 3. If not (or stale): Decode original audio → WAV → Cache in R2 → Return WAV
+ *
+ * Storage format is pluggable (see pcm-codecs.ts): plain WAV or a lossless
+ * deflate-framed container. The cache format version and codec are part of the
+ * cache key, so changing either never reads an incompatible entry.
+ *
+ * Each cache entry carries its decode metadata (sample rate, channels, frames,
+ * duration, source etag) as R2 custom metadata, so a re-uploaded source file is
+ * detected as stale without downloading the cached WAV.
+ *
+ * Entries read from R2 are also kept in the colo's edge cache (Cache API),
+ * keyed by cache key + source etag, so a new isolate in the same colo skips
+ * the R2 read. The PCM is session-independent and stays unencrypted at rest;
+ * watermarking and encryption happen per session afterwards.
+ *
+ * Renderings of a track (quality tiers, see quality-tiers.ts) are cached the
+ * same way under a variant key next to the full-quality entry, and go stale
+ * with the same source etag.
  *
  * Benefits:
  * - First request: Decode once and cache (one-time cost)
@@ -21,6 +38,13 @@
  * - Scales across all worker instances
  */
 
+import { probeAudioFormat } from './audio-probe';
+import { PCM_CACHE_CODECS, getPcmCacheCodec } from './pcm-codecs';
+import type { PcmCacheCodec, PcmCacheCodecId } from './pcm-codecs';
+
+// Bump when the cache layout or metadata changes (1 = legacy "<key>.pcm.wav")
+export const PCM_CACHE_FORMAT_VERSION = 2;
+
 export interface PcmCacheConfig {
   // R2 bucket for caching PCM data
   pcmCacheBucket?: R2Bucket;
@@ -33,6 +57,15 @@ export interface PcmCacheConfig {
 
   // Force re-generation of cache (useful for debugging)
   forceRegenerate?: boolean;
+
+  // Storage codec for new cache entries
+  codec?: PcmCacheCodecId;
+
+  // Edge cache (Cache API) lifetime for entries read from R2, 0 to disable
+  edgeCacheTtlSeconds?: number;
+
+  // Variant names that may be cached per track (removed along with the track's entry)
+  variants?: string[];
 }
 
 export interface PcmCacheResult {
@@ -47,14 +80,67 @@ export interface PcmCacheResult {
 
   // Time taken to retrieve/generate in milliseconds
   timeMs: number;
+
+  // Decode metadata (absent when falling back to the original audio)
+  metadata?: PcmCacheEntryMetadata;
+
+  // Codec of the cache entry the data came from / was written with
+  codec?: PcmCacheCodecId;
+}
+
+interface CodecTiming {
+  hits: number;
+  totalHitMs: number;
+}
+
+/**
+ * Metadata stored alongside each cached WAV (as R2 custom metadata)
+ */
+export interface PcmCacheEntryMetadata {
+  originalAudioKey: string;
+  // Etag of the source object the PCM was decoded from ('' if unknown)
+  sourceEtag: string;
+  sampleRate: number;
+  channels: number;
+  // Samples per channel
+  frames: number;
+  durationSeconds: number;
+  generatedAt: string;
+  // Size of the decoded WAV (the stored object may be smaller)
+  wavBytes: number;
+}
+
+// Synthetic origin for edge cache keys (never fetched)
+const EDGE_CACHE_ORIGIN = 'https://pcm-cache.internal';
+
+/**
+ * The colo's default cache (caches.default in Workers; absent under Node in local dev)
+ */
+function getDefaultEdgeCache(): Cache | null {
+  const storage = (globalThis as { caches?: CacheStorage & { default?: Cache } }).caches;
+  return storage?.default ?? null;
 }
 
+// Fallback decode format when the source header can't be probed
+const DEFAULT_SAMPLE_RATE = 44100;
+const DEFAULT_CHANNELS = 2;
+
 /**
  * PCM Cache Manager
  * Handles caching of decoded PCM audio data in R2 bucket
  */
 export class PcmCacheManager {
   private config: Required<PcmCacheConfig>;
+  private codec: PcmCacheCodec;
+
+  // In-isolate hit/miss timing
+  private timing: Record<PcmCacheCodecId, CodecTiming> = {
+    wav: { hits: 0, totalHitMs: 0 },
+    deflate: { hits: 0, totalHitMs: 0 },
+  };
+  private misses = 0;
+  private totalMissMs = 0;
+  private edgeHits = 0;
 
   constructor(config: PcmCacheConfig = {}) {
     this.config = {
@@ -62,20 +148,76 @@ export class PcmCacheManager {
       pcmCachePrefix: config.pcmCachePrefix ?? 'pcm-cache/',
       enabled: config.enabled ?? true,
       forceRegenerate: config.forceRegenerate ?? false,
+      codec: config.codec ?? 'wav',
+      edgeCacheTtlSeconds: config.edgeCacheTtlSeconds ?? 0,
+      variants: config.variants ?? [],
     } as Required<PcmCacheConfig>;
+    this.codec = getPcmCacheCodec(this.config.codec);
   }
 
   /**
    * Get PCM cache key for an audio file
+   * e.g. "audio/guide_line.mp3" -> "pcm-cache/audio/guide_line.pcm.v2.pcmz"
+   * or, for a variant, "pcm-cache/audio/guide_line.low.pcm.v2.pcmz"
+   */
+  private getCacheKey(audioKey: string, codec: PcmCacheCodec = this.codec, variant?: string): string {
+    const baseKey = audioKey.replace(/\.[^.]+$/, '');
+    const variantSuffix = variant ? `.${variant}` : '';
+    return `${this.config.pcmCachePrefix}${baseKey}${variantSuffix}.pcm.v${PCM_CACHE_FORMAT_VERSION}.${codec.extension}`;
+  }
+
+  /**
+   * Pre-versioning cache key (only used for cleanup)
    */
-  private getCacheKey(audioKey: string): string {
-    // Remove extension and add .pcm.wav suffix
+  private getLegacyCacheKey(audioKey: string): string {
     const baseKey = audioKey.replace(/\.[^.]+$/, '');
     return `${this.config.pcmCachePrefix}${baseKey}.pcm.wav`;
   }
 
   /**
-   * Check if PCM cache exists for an audio file
+   * Parse cache entry metadata from R2 custom metadata
+   * Returns null for legacy entries written without decode metadata
+   */
+  private parseEntryMetadata(customMetadata?: Record<string, string>): PcmCacheEntryMetadata | null {
+    if (!customMetadata || customMetadata.sourceEtag === undefined || !customMetadata.sampleRate) {
+      return null;
+    }
+
+    return {
+      originalAudioKey: customMetadata.originalAudioKey,
+      sourceEtag: customMetadata.sourceEtag,
+      sampleRate: Number(customMetadata.sampleRate),
+      channels: Number(customMetadata.channels),
+      frames: Number(customMetadata.frames),
+      durationSeconds: Number(customMetadata.durationSeconds),
+      generatedAt: customMetadata.generatedAt,
+      wavBytes: Number(customMetadata.wavBytes),
+    };
+  }
+
+  /**
+   * Check whether a cache entry was generated from the current source object
+   */
+  private isFresh(metadata: PcmCacheEntryMetadata | null, sourceEtag: string | null): boolean {
+    if (!metadata) {
+      return false; // Legacy entry without metadata - regenerate
+    }
+    if (!sourceEtag || !metadata.sourceEtag) {
+      return true; // Can't compare, trust the entry
+    }
+    return metadata.sourceEtag === sourceEtag;
+  }
+
+  /**
+   * Get the etag of the original audio object
+   */
+  private async getSourceEtag(audioKey: string, bucket: R2Bucket): Promise<string | null> {
+    const source = await bucket.head(audioKey);
+    return source?.etag ?? null;
+  }
+
+  /**
+   * Check if a fresh PCM cache exists for an audio file
    */
   private async cacheExists(audioKey: string, bucket?: R2Bucket): Promise<boolean> {
     if (!bucket || !this.config.enabled || this.config.forceRegenerate) {
@@ -83,63 +225,209 @@ export class PcmCacheManager {
     }
 
     const cacheKey = this.getCacheKey(audioKey);
-    const object = await bucket.head(cacheKey);
-    return object !== null;
+    const [object, sourceEtag] = await Promise.all([
+      bucket.head(cacheKey),
+      this.getSourceEtag(audioKey, bucket),
+    ]);
+
+    return object !== null && this.isFresh(this.parseEntryMetadata(object.customMetadata), sourceEtag);
+  }
+
+  /**
+   * Edge cache and request URL for an entry, or null if the edge cache is unavailable
+   * The source etag is part of the key, so a re-uploaded source never hits a stale entry
+   */
+  private getEdgeCacheEntry(cacheKey: string, sourceEtag: string | null): { cache: Cache; url: string } | null {
+    const cache = getDefaultEdgeCache();
+    if (this.config.edgeCacheTtlSeconds <= 0 || !sourceEtag || !cache) {
+      return null;
+    }
+    return {
+      cache,
+      url: `${EDGE_CACHE_ORIGIN}/${encodeURI(cacheKey)}?etag=${encodeURIComponent(sourceEtag)}`,
+    };
+  }
+
+  private async getEdgeCachedPcm(
+    cacheKey: string,
+    sourceEtag: string | null
+  ): Promise<{ stored: ArrayBuffer; metadata: PcmCacheEntryMetadata } | null> {
+    const entry = this.getEdgeCacheEntry(cacheKey, sourceEtag);
+    if (!entry) {
+      return null;
+    }
+
+    try {
+      const response = await entry.cache.match(entry.url);
+      const metadataHeader = response?.headers.get('X-Pcm-Metadata');
+      if (!response || !metadataHeader) {
+        return null;
+      }
+      return {
+        stored: await response.arrayBuffer(),
+        metadata: JSON.parse(decodeURIComponent(metadataHeader)) as PcmCacheEntryMetadata,
+      };
+    } catch (error) {
+      console.warn(`⚠️ Edge PCM cache read failed for ${cacheKey}:`, error);
+      return null;
+    }
+  }
+
+  private putEdgeCachedPcm(cacheKey: string, sourceEtag: string | null, stored: ArrayBuffer, metadata: PcmCacheEntryMetadata): void {
+    const entry = this.getEdgeCacheEntry(cacheKey, sourceEtag);
+    if (!entry) {
+      return;
+    }
+
+    const response = new Response(stored, {
+      headers: {
+        'Content-Type': this.codec.contentType,
+        'Cache-Control': `public, max-age=${this.config.edgeCacheTtlSeconds}`,
+        'X-Pcm-Metadata': encodeURIComponent(JSON.stringify(metadata)),
+      },
+    });
+
+    // Async, don't wait (like the R2 write on a miss)
+    entry.cache.put(entry.url, response).catch((error: unknown) => {
+      console.warn(`⚠️ Edge PCM cache write failed for ${cacheKey}:`, error);
+    });
   }
 
   /**
-   * Get cached PCM data from R2
+   * Get cached PCM data from the edge cache or R2
+   * Stale entries (source changed since decoding) are treated as a miss
    */
-  private async getCachedPcm(audioKey: string, bucket?: R2Bucket): Promise<ArrayBuffer | null> {
+  private async getCachedPcm(
+    audioKey: string,
+    sourceEtag: string | null,
+    bucket?: R2Bucket,
+    variant?: string
+  ): Promise<{ data: ArrayBuffer; metadata: PcmCacheEntryMetadata } | null> {
     if (!bucket || !this.config.enabled || this.config.forceRegenerate) {
       return null;
     }
 
-    const cacheKey = this.getCacheKey(audioKey);
+    const cacheKey = this.getCacheKey(audioKey, this.codec, variant);
+
+    const edgeHit = await this.getEdgeCachedPcm(cacheKey, sourceEtag);
+    if (edgeHit) {
+      this.edgeHits++;
+      console.log(`⚡ Edge PCM cache HIT for ${cacheKey}`);
+      return { data: await this.codec.decode(edgeHit.stored), metadata: edgeHit.metadata };
+    }
+
     const object = await bucket.get(cacheKey);
 
     if (!object) {
       return null;
     }
 
-    return await object.arrayBuffer();
+    const metadata = this.parseEntryMetadata(object.customMetadata);
+    if (!metadata || !this.isFresh(metadata, sourceEtag)) {
+      console.log(`♻️ PCM cache STALE for ${cacheKey} (source etag ${sourceEtag ?? 'unknown'}, cached ${metadata?.sourceEtag || 'none'})`);
+      // Release the body stream we won't read
+      await object.body.cancel();
+      return null;
+    }
+
+    const stored = await object.arrayBuffer();
+    this.putEdgeCachedPcm(cacheKey, sourceEtag, stored, metadata);
+    const data = await this.codec.decode(stored);
+
+    if (this.codec.id !== 'wav') {
+      console.log(`📦 Decoded ${this.codec.id} PCM cache: ${(stored.byteLength / 1024 / 1024).toFixed(2)} MB -> ${(data.byteLength / 1024 / 1024).toFixed(2)} MB`);
+    }
+
+    return { data, metadata };
   }
 
   /**
-   * Store PCM data in R2 cache
+   * Store PCM data in R2 cache (and the edge cache) along with its decode metadata
    */
-  private async storePcmCache(audioKey: string, pcmWavData: ArrayBuffer, bucket?: R2Bucket): Promise<void> {
+  private async storePcmCache(
+    audioKey: string,
+    pcmWavData: ArrayBuffer,
+    metadata: PcmCacheEntryMetadata,
+    bucket?: R2Bucket,
+    variant?: string
+  ): Promise<void> {
     if (!bucket || !this.config.enabled) {
       return;
     }
 
-    const cacheKey = this.getCacheKey(audioKey);
+    const cacheKey = this.getCacheKey(audioKey, this.codec, variant);
+    const stored = await this.codec.encode(pcmWavData);
+
+    // Fresh decodes and renders go to the edge cache too, so other isolates here skip R2 as well
+    this.putEdgeCachedPcm(cacheKey, metadata.sourceEtag || null, stored, metadata);
 
-    await bucket.put(cacheKey, pcmWavData, {
+    await bucket.put(cacheKey, stored, {
       httpMetadata: {
-        contentType: 'audio/wav',
+        contentType: this.codec.contentType,
       },
       customMetadata: {
-        originalAudioKey: audioKey,
-        generatedAt: new Date().toISOString(),
+        codec: this.codec.id,
+        formatVersion: String(PCM_CACHE_FORMAT_VERSION),
+        wavBytes: String(metadata.wavBytes),
+        originalAudioKey: metadata.originalAudioKey,
+        sourceEtag: metadata.sourceEtag,
+        sampleRate: String(metadata.sampleRate),
+        channels: String(metadata.channels),
+        frames: String(metadata.frames),
+        durationSeconds: metadata.durationSeconds.toFixed(3),
+        generatedAt: metadata.generatedAt,
       },
     });
 
-    console.log(`💾 Stored PCM cache: ${cacheKey} (${(pcmWavData.byteLength / 1024 / 1024).toFixed(2)} MB)`);
+    console.log(`💾 Stored PCM cache: ${cacheKey} (${(stored.byteLength / 1024 / 1024).toFixed(2)} MB, ${this.codec.id}${this.codec.id !== 'wav' ? `, ${((stored.byteLength / pcmWavData.byteLength) * 100).toFixed(1)}% of WAV` : ''})`);
+  }
+
+  /**
+   * Get metadata of the cached PCM entry without downloading it
+   */
+  async getCacheEntryMetadata(audioKey: string, bucket?: R2Bucket): Promise<{
+    metadata: PcmCacheEntryMetadata | null;
+    stale: boolean;
+  } | null> {
+    if (!bucket) {
+      return null;
+    }
+
+    const [object, sourceEtag] = await Promise.all([
+      bucket.head(this.getCacheKey(audioKey)),
+      this.getSourceEtag(audioKey, bucket),
+    ]);
+
+    if (!object) {
+      return null;
+    }
+
+    const metadata = this.parseEntryMetadata(object.customMetadata);
+    return { metadata, stale: !this.isFresh(metadata, sourceEtag) };
   }
 
   /**
    * Decode audio to WAV format (PCM with headers)
    * Uses Web Audio API to decode and then converts to WAV
+   * The decode context matches the source's sample rate and channel count,
+   * so the PCM is neither resampled nor truncated
    */
-  private async decodeToWav(audioData: ArrayBuffer): Promise<ArrayBuffer> {
+  private async decodeToWav(audioData: ArrayBuffer): Promise<{ wavData: ArrayBuffer; audioBuffer: AudioBuffer }> {
     const startTime = Date.now();
 
-    // Use Web Audio API to decode audio to PCM
-    const audioContext = new OfflineAudioContext(2, 44100 * 180, 44100); // Max 3 min, 44.1kHz
+    const format = probeAudioFormat(audioData);
+    if (!format) {
+      console.warn(`⚠️ Could not probe audio format, decoding at ${DEFAULT_SAMPLE_RATE} Hz / ${DEFAULT_CHANNELS} channels`);
+    }
+    const sampleRate = format?.sampleRate ?? DEFAULT_SAMPLE_RATE;
+    const channels = format?.channels ?? DEFAULT_CHANNELS;
+
+    // decodeAudioData isn't bounded by the context length, only resampled to its rate,
+    // so a one-second context is enough
+    const audioContext = new OfflineAudioContext(channels, sampleRate, sampleRate);
     const audioBuffer = await audioContext.decodeAudioData(audioData.slice(0));
 
-    console.log(`🎵 Decoded audio: ${audioBuffer.numberOfChannels} channels, ${audioBuffer.sampleRate} Hz, ${audioBuffer.duration.toFixed(2)}s`);
+    console.log(`🎵 Decoded audio: ${audioBuffer.numberOfChannels} channels, ${audioBuffer.sampleRate} Hz, ${audioBuffer.duration.toFixed(2)}s (${audioBuffer.length} frames)`);
 
     // Convert AudioBuffer to WAV format
     const wavData = this.audioBufferToWav(audioBuffer);
@@ -147,7 +435,7 @@ export class PcmCacheManager {
     const decodeTime = Date.now() - startTime;
     console.log(`⚡ Audio decoded to WAV in ${decodeTime}ms (${(wavData.byteLength / 1024 / 1024).toFixed(2)} MB)`);
 
-    return wavData;
+    return { wavData, audioBuffer };
   }
 
   /**
@@ -224,12 +512,14 @@ export class PcmCacheManager {
    * @param audioKey - R2 key for the original audio file
    * @param originalAudioData - Original audio data (MP3/FLAC/etc)
    * @param bucket - R2 bucket for PCM cache storage (optional, required for caching)
+   * @param sourceEtag - Etag of the original object (looked up from R2 when omitted)
    * @returns PCM cache result with audio data and metadata
    */
   async getAudioWithCache(
     audioKey: string,
     originalAudioData: ArrayBuffer,
-    bucket?: R2Bucket
+    bucket?: R2Bucket,
+    sourceEtag?: string | null
   ): Promise<PcmCacheResult> {
     const startTime = Date.now();
 
@@ -247,29 +537,47 @@ export class PcmCacheManager {
     try {
       // Try to get cached PCM
       console.log(`🔍 Checking PCM cache for ${audioKey}...`);
-      const cachedPcm = await this.getCachedPcm(audioKey, bucket);
+      const currentEtag = sourceEtag !== undefined ? sourceEtag : await this.getSourceEtag(audioKey, bucket);
+      const cachedPcm = await this.getCachedPcm(audioKey, currentEtag, bucket);
 
       if (cachedPcm) {
         const timeMs = Date.now() - startTime;
-        console.log(`✅ PCM cache HIT for ${audioKey} (${(cachedPcm.byteLength / 1024 / 1024).toFixed(2)} MB, ${timeMs}ms)`);
+        this.timing[this.codec.id].hits++;
+        this.timing[this.codec.id].totalHitMs += timeMs;
+        console.log(`✅ PCM cache HIT for ${audioKey} (${(cachedPcm.data.byteLength / 1024 / 1024).toFixed(2)} MB, ${this.codec.id}, ${timeMs}ms)`);
         return {
-          audioData: cachedPcm,
+          audioData: cachedPcm.data,
           fromCache: true,
-          size: cachedPcm.byteLength,
+          size: cachedPcm.data.byteLength,
           timeMs,
+          metadata: cachedPcm.metadata,
+          codec: this.codec.id,
         };
       }
 
       // Cache miss - decode and store
       console.log(`⚠️ PCM cache MISS for ${audioKey}, decoding and caching...`);
-      const pcmWavData = await this.decodeToWav(originalAudioData);
+      const { wavData: pcmWavData, audioBuffer } = await this.decodeToWav(originalAudioData);
+
+      const metadata: PcmCacheEntryMetadata = {
+        originalAudioKey: audioKey,
+        sourceEtag: currentEtag ?? '',
+        sampleRate: audioBuffer.sampleRate,
+        channels: audioBuffer.numberOfChannels,
+        frames: audioBuffer.length,
+        durationSeconds: audioBuffer.duration,
+        generatedAt: new Date().toISOString(),
+        wavBytes: pcmWavData.byteLength,
+      };
 
       // Store in cache (async, don't wait)
-      this.storePcmCache(audioKey, pcmWavData, bucket).catch((error) => {
+      this.storePcmCache(audioKey, pcmWavData, metadata, bucket).catch((error) => {
         console.error(`❌ Failed to store PCM cache for ${audioKey}:`, error);
       });
 
       const timeMs = Date.now() - startTime;
+      this.misses++;
+      this.totalMissMs += timeMs;
       console.log(`✅ PCM generated and cached for ${audioKey} (${timeMs}ms)`);
 
       return {
@@ -277,6 +585,8 @@ export class PcmCacheManager {
         fromCache: false,
         size: pcmWavData.byteLength,
         timeMs,
+        metadata,
+        codec: this.codec.id,
       };
     } catch (error) {
       console.error(`❌ PCM cache error for ${audioKey}:`, error);
@@ -292,6 +602,52 @@ export class PcmCacheManager {
     }
   }
 
+  /**
+   * Get a cached variant (e.g. a quality tier) of an audio file
+   * @param sourceEtag - Etag of the original object; entries decoded from another version are a miss
+   * @returns the variant's WAV data, or null on a miss
+   */
+  async getCachedVariant(
+    audioKey: string,
+    variant: string,
+    sourceEtag: string | null,
+    bucket?: R2Bucket
+  ): Promise<ArrayBuffer | null> {
+    try {
+      const cached = await this.getCachedPcm(audioKey, sourceEtag, bucket, variant);
+      return cached?.data ?? null;
+    } catch (error) {
+      console.error(`❌ PCM cache error for ${audioKey} (${variant}):`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a variant of an audio file (async, don't wait)
+   */
+  storeVariant(
+    audioKey: string,
+    variant: string,
+    rendered: { wavData: ArrayBuffer; sampleRate: number; channels: number; frames: number },
+    sourceEtag: string | null,
+    bucket?: R2Bucket
+  ): void {
+    const metadata: PcmCacheEntryMetadata = {
+      originalAudioKey: audioKey,
+      sourceEtag: sourceEtag ?? '',
+      sampleRate: rendered.sampleRate,
+      channels: rendered.channels,
+      frames: rendered.frames,
+      durationSeconds: rendered.frames / rendered.sampleRate,
+      generatedAt: new Date().toISOString(),
+      wavBytes: rendered.wavData.byteLength,
+    };
+
+    this.storePcmCache(audioKey, rendered.wavData, metadata, bucket, variant).catch((error) => {
+      console.error(`❌ Failed to store PCM cache for ${audioKey} (${variant}):`, error);
+    });
+  }
+
   /**
    * Pre-warm PCM cache for multiple audio files
    * Useful for warming up cache during deployment or maintenance
@@ -325,6 +681,7 @@ export class PcmCacheManager {
 
   /**
    * Clear PCM cache for specific audio files
+   * Removes entries (and variants) for every codec plus the legacy unversioned key
    */
   async clearCache(audioKeys: string[], bucket?: R2Bucket): Promise<void> {
     if (!bucket) {
@@ -336,44 +693,105 @@ export class PcmCacheManager {
 
     await Promise.all(
       audioKeys.map(async (audioKey) => {
-        const cacheKey = this.getCacheKey(audioKey);
-        await bucket.delete(cacheKey);
-        console.log(`✅ Deleted PCM cache: ${cacheKey}`);
+        const cacheKeys = [
+          ...Object.values(PCM_CACHE_CODECS).flatMap(codec => [
+            this.getCacheKey(audioKey, codec),
+            ...this.config.variants.map(variant => this.getCacheKey(audioKey, codec, variant)),
+          ]),
+          this.getLegacyCacheKey(audioKey),
+        ];
+        await bucket.delete(cacheKeys);
+        console.log(`✅ Deleted PCM cache: ${cacheKeys.join(', ')}`);
       })
     );
   }
 
   /**
    * Get cache statistics
+   * Entry counts refer to the active codec; `formats` reports stored size per
+   * codec and `timing` the hit/miss latency seen by this isolate
    */
   async getCacheStats(audioKeys: string[], bucket?: R2Bucket): Promise<{
+    codec: PcmCacheCodecId;
+    formatVersion: number;
     totalKeys: number;
     cachedKeys: number;
     uncachedKeys: number;
+    staleKeys: number;
     cacheHitRate: number;
+    formats: Record<PcmCacheCodecId, { entries: number; storedBytes: number; wavBytes: number }>;
+    timing: {
+      hits: number;
+      edgeHits: number;   // Hits served from the edge cache instead of R2
+      misses: number;
+      averageMissMs: number;
+      byFormat: Record<PcmCacheCodecId, { hits: number; averageHitMs: number }>;
+    };
   }> {
+    const codecIds = Object.keys(PCM_CACHE_CODECS) as PcmCacheCodecId[];
+
+    const formats = {} as Record<PcmCacheCodecId, { entries: number; storedBytes: number; wavBytes: number }>;
+    const byFormat = {} as Record<PcmCacheCodecId, { hits: number; averageHitMs: number }>;
+    for (const id of codecIds) {
+      formats[id] = { entries: 0, storedBytes: 0, wavBytes: 0 };
+      const { hits, totalHitMs } = this.timing[id];
+      byFormat[id] = { hits, averageHitMs: hits > 0 ? Math.round(totalHitMs / hits) : 0 };
+    }
+
+    const timing = {
+      hits: codecIds.reduce((sum, id) => sum + this.timing[id].hits, 0),
+      edgeHits: this.edgeHits,
+      misses: this.misses,
+      averageMissMs: this.misses > 0 ? Math.round(this.totalMissMs / this.misses) : 0,
+      byFormat,
+    };
+
+    const base = {
+      codec: this.codec.id,
+      formatVersion: PCM_CACHE_FORMAT_VERSION,
+      totalKeys: audioKeys.length,
+    };
+
     if (!bucket) {
       return {
-        totalKeys: audioKeys.length,
+        ...base,
         cachedKeys: 0,
         uncachedKeys: audioKeys.length,
+        staleKeys: 0,
         cacheHitRate: 0,
+        formats,
+        timing,
       };
     }
 
-    const results = await Promise.all(
-      audioKeys.map(key => this.cacheExists(key, bucket))
-    );
-
-    const cachedKeys = results.filter(exists => exists).length;
+    const [results] = await Promise.all([
+      Promise.all(audioKeys.map(key => this.getCacheEntryMetadata(key, bucket))),
+      // Stored size per codec
+      Promise.all(
+        codecIds.flatMap(id => audioKeys.map(async (key) => {
+          const object = await bucket.head(this.getCacheKey(key, PCM_CACHE_CODECS[id]));
+          if (object) {
+            formats[id].entries++;
+            formats[id].storedBytes += object.size;
+            formats[id].wavBytes += Number(object.customMetadata?.wavBytes) || object.size;
+          }
+        }))
+      ),
+    ]);
+
+    const cachedKeys = results.filter(entry => entry && !entry.stale).length;
+    const staleKeys = results.filter(entry => entry?.stale).length;
     const uncachedKeys = audioKeys.length - cachedKeys;
     const cacheHitRate = audioKeys.length > 0 ? (cachedKeys / audioKeys.length) * 100 : 0;
 
     return {
-      totalKeys: audioKeys.length,
+      ...base,
       cachedKeys,
       uncachedKeys,
+      staleKeys,
       cacheHitRate,
+      formats,
+      timing,
     };
   }
 }
@@ -0,0 +1,196 @@
+/**
+ * PCM cache codecs
+ *
+ * A codec turns the decoded WAV into the bytes stored in R2 and back.
+ * The cache manager always hands WAV to SessionManager, so codecs only
+ * affect storage size and R2 transfer time.
+ *
+ * - wav: stored as-is (no CPU cost on read)
+ * - deflate: lossless "PCMZ" container - the PCM is split into independent
+ *   frames, each delta-coded per channel and deflate-compressed
+ *
+ * PCMZ layout (little-endian):
+ *   magic "PCMZ" | version u16 | channels u16 | headerLength u32 | frameCount u32
+ *   WAV header bytes (headerLength)
+ *   frameCount × [ rawLength u32 | compressedLength u32 | deflate-raw bytes ]
+ */
+
+export type PcmCacheCodecId = 'wav' | 'deflate';
+
+export interface PcmCacheCodec {
+  id: PcmCacheCodecId;
+  // File extension used in the cache key
+  extension: string;
+  contentType: string;
+  // WAV -> stored bytes
+  encode(wavData: ArrayBuffer): Promise<ArrayBuffer>;
+  // Stored bytes -> WAV
+  decode(data: ArrayBuffer): Promise<ArrayBuffer>;
+}
+
+const PCMZ_MAGIC = 'PCMZ';
+const PCMZ_VERSION = 1;
+const PCMZ_PREAMBLE_SIZE = 16;
+
+// ~1 MiB of PCM per frame keeps peak memory low while decompressing
+const PCMZ_FRAME_BYTES = 1024 * 1024;
+
+async function runTransform(data: Uint8Array<ArrayBuffer>, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Locate the PCM data chunk and channel count in our 16-bit WAV output
+ */
+function parseWavLayout(wavData: ArrayBuffer): { dataOffset: number; channels: number } {
+  const view = new DataView(wavData);
+  let channels = 2;
+  let offset = 12;
+
+  while (offset + 8 <= wavData.byteLength) {
+    const chunkId = String.fromCharCode(
+      view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+    );
+    const chunkSize = view.getUint32(offset + 4, true);
+
+    if (chunkId === 'fmt ') {
+      if (view.getUint16(offset + 22, true) !== 16) {
+        throw new Error('PCMZ codec only supports 16-bit PCM');
+      }
+      channels = view.getUint16(offset + 10, true);
+    } else if (chunkId === 'data') {
+      return { dataOffset: offset + 8, channels };
+    }
+
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV data chunk not found');
+}
+
+/**
+ * First-order delta per channel (in place); reversible with integrateFrame()
+ */
+function deltaFrame(samples: Int16Array, channels: number): void {
+  for (let i = samples.length - 1; i >= channels; i--) {
+    samples[i] = samples[i] - samples[i - channels];
+  }
+}
+
+function integrateFrame(samples: Int16Array, channels: number): void {
+  for (let i = channels; i < samples.length; i++) {
+    samples[i] = samples[i] + samples[i - channels];
+  }
+}
+
+const wavCodec: PcmCacheCodec = {
+  id: 'wav',
+  extension: 'wav',
+  contentType: 'audio/wav',
+  encode: async (wavData) => wavData,
+  decode: async (data) => data,
+};
+
+const deflateCodec: PcmCacheCodec = {
+  id: 'deflate',
+  extension: 'pcmz',
+  contentType: 'application/octet-stream',
+
+  async encode(wavData) {
+    const { dataOffset, channels } = parseWavLayout(wavData);
+    const blockAlign = channels * 2;
+    const frameBytes = PCMZ_FRAME_BYTES - (PCMZ_FRAME_BYTES % blockAlign);
+
+    const frames: Uint8Array[] = [];
+    const rawLengths: number[] = [];
+
+    for (let offset = dataOffset; offset < wavData.byteLength; offset += frameBytes) {
+      const end = Math.min(offset + frameBytes, wavData.byteLength);
+      // Copy so the delta doesn't touch the caller's WAV (odd trailing byte is kept as-is)
+      const raw = new Uint8Array(wavData.slice(offset, end));
+      deltaFrame(new Int16Array(raw.buffer, 0, Math.floor(raw.byteLength / 2)), channels);
+      rawLengths.push(raw.byteLength);
+      frames.push(await runTransform(raw, new CompressionStream('deflate-raw')));
+    }
+
+    const totalSize = PCMZ_PREAMBLE_SIZE + dataOffset + frames.reduce((sum, f) => sum + 8 + f.byteLength, 0);
+    const output = new Uint8Array(totalSize);
+    const view = new DataView(output.buffer);
+
+    for (let i = 0; i < 4; i++) view.setUint8(i, PCMZ_MAGIC.charCodeAt(i));
+    view.setUint16(4, PCMZ_VERSION, true);
+    view.setUint16(6, channels, true);
+    view.setUint32(8, dataOffset, true);
+    view.setUint32(12, frames.length, true);
+    output.set(new Uint8Array(wavData, 0, dataOffset), PCMZ_PREAMBLE_SIZE);
+
+    let position = PCMZ_PREAMBLE_SIZE + dataOffset;
+    frames.forEach((frame, index) => {
+      view.setUint32(position, rawLengths[index], true);
+      view.setUint32(position + 4, frame.byteLength, true);
+      output.set(frame, position + 8);
+      position += 8 + frame.byteLength;
+    });
+
+    return output.buffer;
+  },
+
+  async decode(data) {
+    const view = new DataView(data);
+    const magic = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3));
+    if (magic !== PCMZ_MAGIC) {
+      throw new Error('Not a PCMZ cache entry');
+    }
+
+    const version = view.getUint16(4, true);
+    if (version !== PCMZ_VERSION) {
+      throw new Error(`Unsupported PCMZ version: ${version}`);
+    }
+
+    const channels = view.getUint16(6, true);
+    const headerLength = view.getUint32(8, true);
+    const frameCount = view.getUint32(12, true);
+
+    // First pass: total size from the frame table
+    let position = PCMZ_PREAMBLE_SIZE + headerLength;
+    let totalRaw = 0;
+    for (let i = 0; i < frameCount; i++) {
+      totalRaw += view.getUint32(position, true);
+      position += 8 + view.getUint32(position + 4, true);
+    }
+
+    const wav = new Uint8Array(headerLength + totalRaw);
+    wav.set(new Uint8Array(data, PCMZ_PREAMBLE_SIZE, headerLength), 0);
+
+    position = PCMZ_PREAMBLE_SIZE + headerLength;
+    let writeOffset = headerLength;
+    for (let i = 0; i < frameCount; i++) {
+      const rawLength = view.getUint32(position, true);
+      const compressedLength = view.getUint32(position + 4, true);
+      const compressed = new Uint8Array(data, position + 8, compressedLength);
+
+      const raw = await runTransform(compressed, new DecompressionStream('deflate-raw'));
+      if (raw.byteLength !== rawLength) {
+        throw new Error(`PCMZ frame ${i} is corrupt (expected ${rawLength} bytes, got ${raw.byteLength})`);
+      }
+
+      integrateFrame(new Int16Array(raw.buffer, raw.byteOffset, Math.floor(raw.byteLength / 2)), channels);
+      wav.set(raw, writeOffset);
+
+      writeOffset += rawLength;
+      position += 8 + compressedLength;
+    }
+
+    return wav.buffer;
+  },
+};
+
+export const PCM_CACHE_CODECS: Record<PcmCacheCodecId, PcmCacheCodec> = {
+  wav: wavCodec,
+  deflate: deflateCodec,
+};
+
+export function getPcmCacheCodec(id: PcmCacheCodecId): PcmCacheCodec {
+  return PCM_CACHE_CODECS[id];
+}
@@ -0,0 +1,168 @@
+/**
+ * Quality tiers for slow connections
+ *
+ * A track can be streamed at several tiers rendered from its full-quality PCM:
+ * lower tiers divide the sample rate (lowpass + decimation) and may mix down
+ * to mono. Every tier stays 16-bit PCM WAV, so watermarking, slicing and
+ * compression work on it unchanged.
+ *
+ * The server gives each (track, tier) pair its own internal session and
+ * advertises the tiers in SessionInfo.qualityTiers; the client picks one per
+ * track at key exchange (`?tier=`) from measured slice throughput (see
+ * utils/playback/quality-selector.ts).
+ *
+ * Shared by the server and the client (the client only uses the types and
+ * isQualityTierId).
+ */
+
+import { readWavLayout } from './watermark';
+
+export type QualityTierId = 'high' | 'medium' | 'low';
+
+const QUALITY_TIER_IDS: readonly string[] = ['high', 'medium', 'low'];
+
+export interface QualityTierSpec {
+  id: QualityTierId;
+  label: string;       // Short label for the client's indicator
+  decimation: number;  // Sample rate divisor (1 = source rate)
+  mono: boolean;       // Mix all channels down to one
+}
+
+// Advertised to clients in SessionInfo.qualityTiers (best first)
+export interface QualityTierInfo {
+  id: QualityTierId;
+  label: string;
+  relativeBitrate: number;  // PCM bitrate relative to 'high' (nominal, assumes a stereo source)
+}
+
+// Fields the server adds to SessionInfo
+export interface QualityTierSessionInfo {
+  qualityTier?: QualityTierId;       // Tier of the track the info was built from
+  qualityTiers?: QualityTierInfo[];
+  sliceDurationMs?: number;          // The session's slice duration (tier bitrates are measured per slice)
+}
+
+export interface RenderedQualityTier {
+  wavData: ArrayBuffer;
+  sampleRate: number;
+  channels: number;
+  frames: number;
+}
+
+const WAV_HEADER_BYTES = 44;
+
+export function isQualityTierId(value: unknown): value is QualityTierId {
+  return typeof value === 'string' && QUALITY_TIER_IDS.includes(value);
+}
+
+/**
+ * Whether a tier differs from the source audio (and has to be rendered)
+ */
+export function needsRendering(spec: QualityTierSpec): boolean {
+  return spec.decimation > 1 || spec.mono;
+}
+
+export function describeQualityTiers(specs: readonly QualityTierSpec[]): QualityTierInfo[] {
+  return specs.map(spec => ({
+    id: spec.id,
+    label: spec.label,
+    relativeBitrate: 1 / spec.decimation / (spec.mono ? 2 : 1),
+  }));
+}
+
+/**
+ * Windowed-sinc (Blackman) lowpass at 90% of the decimated Nyquist frequency
+ */
+function lowpassTaps(decimation: number): Float64Array {
+  const length = 8 * decimation + 1;
+  const middle = (length - 1) / 2;
+  const cutoff = 0.45 / decimation;  // Cycles per source sample
+  const taps = new Float64Array(length);
+
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    const n = i - middle;
+    const sinc = n === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * n) / (Math.PI * n);
+    const window = 0.42 - 0.5 * Math.cos((2 * Math.PI * i) / (length - 1)) + 0.08 * Math.cos((4 * Math.PI * i) / (length - 1));
+    taps[i] = sinc * window;
+    sum += taps[i];
+  }
+
+  // Unity gain at DC
+  for (let i = 0; i < length; i++) {
+    taps[i] /= sum;
+  }
+  return taps;
+}
+
+function writeWavHeader(view: DataView, sampleRate: number, channels: number, dataBytes: number): void {
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, WAV_HEADER_BYTES - 8 + dataBytes, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);                       // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataBytes, true);
+}
+
+/**
+ * Render a quality tier from 16-bit PCM WAV data
+ * Filters straight from the input samples, so memory use is the output size only
+ */
+export function renderQualityTier(wavData: ArrayBuffer, spec: QualityTierSpec): RenderedQualityTier {
+  const { dataOffset, frames, channels, sampleRate } = readWavLayout(wavData);
+  const { decimation } = spec;
+  const outChannels = spec.mono ? 1 : channels;
+  const outFrames = Math.ceil(frames / decimation);
+  const outSampleRate = Math.round(sampleRate / decimation);
+
+  // Typed array views assume a little-endian host (true for every Workers / browser target)
+  const input = dataOffset % 2 === 0
+    ? new Int16Array(wavData, dataOffset, frames * channels)
+    : new Int16Array(wavData.slice(dataOffset, dataOffset + frames * channels * 2));
+  const output = new ArrayBuffer(WAV_HEADER_BYTES + outFrames * outChannels * 2);
+  writeWavHeader(new DataView(output), outSampleRate, outChannels, outFrames * outChannels * 2);
+  const samples = new Int16Array(output, WAV_HEADER_BYTES);
+
+  const taps = decimation > 1 ? lowpassTaps(decimation) : Float64Array.of(1);
+  const middle = (taps.length - 1) / 2;
+  // Source channels summed into each output channel
+  const mixCount = spec.mono ? channels : 1;
+
+  for (let outChannel = 0; outChannel < outChannels; outChannel++) {
+    const firstChannel = spec.mono ? 0 : outChannel;
+
+    for (let outFrame = 0; outFrame < outFrames; outFrame++) {
+      const center = outFrame * decimation;
+      const firstTap = Math.max(0, middle - center);
+      const lastTap = Math.min(taps.length - 1, frames - 1 - center + middle);
+
+      let acc = 0;
+      for (let tap = firstTap; tap <= lastTap; tap++) {
+        const sampleIndex = (center + tap - middle) * channels + firstChannel;
+        let sample = 0;
+        for (let channel = 0; channel < mixCount; channel++) {
+          sample += input[sampleIndex + channel];
+        }
+        acc += taps[tap] * sample;
+      }
+
+      const value = Math.round(acc / mixCount);
+      samples[outFrame * outChannels + outChannel] = Math.max(-32768, Math.min(32767, value));
+    }
+  }
+
+  return { wavData: output, sampleRate: outSampleRate, channels: outChannels, frames: outFrames };
+}
@@ -1,23 +1,39 @@
 import { SessionManager } from 'secstream/server';
 import { SECSTREAM_CONFIG } from '../../constants/playlist';
+import { PcmCacheManager } from './pcm-cache';
+import { needsRendering } from './quality-tiers';
+import { DEFAULT_SETTINGS } from '../config/settings';
+import type { RuntimeSettings } from '../config/settings';
 import fs from 'node:fs';
 import path from 'node:path';
 
-// Create session manager with configuration from playlist constants
-export function createSessionManager(): SessionManager {
+// Create session manager from the runtime settings (see utils/config/settings.ts)
+export function createSessionManager(settings: Readonly<RuntimeSettings> = DEFAULT_SETTINGS): SessionManager {
 
   return new SessionManager({
     // Basic slicing configuration
-    sliceDurationMs: SECSTREAM_CONFIG.sliceDurationMs,
-    compressionLevel: SECSTREAM_CONFIG.compressionLevel,
+    sliceDurationMs: settings.sliceDurationMs,
+    compressionLevel: settings.compressionLevel,
 
     // Streaming optimization - prewarm slices during key exchange for instant playback
-    prewarmSlices: SECSTREAM_CONFIG.prewarmSlices,
-    prewarmConcurrency: SECSTREAM_CONFIG.prewarmConcurrency,
+    prewarmSlices: settings.prewarmSlices,
+    prewarmConcurrency: settings.prewarmConcurrency,
 
     // Server-side caching for performance
-    serverCacheSize: SECSTREAM_CONFIG.serverCacheSize,
-    serverCacheTtlMs: SECSTREAM_CONFIG.serverCacheTtlMs,
+    serverCacheSize: settings.serverCacheSize,
+    serverCacheTtlMs: settings.serverCacheTtlMs,
+  });
+}
+
+// Create PCM cache manager from the runtime settings (prefix and tiers stay in playlist constants)
+export function createPcmCacheManager(settings: Readonly<RuntimeSettings> = DEFAULT_SETTINGS): PcmCacheManager {
+  return new PcmCacheManager({
+    enabled: settings.pcmCacheEnabled,
+    pcmCachePrefix: SECSTREAM_CONFIG.pcmCache.cachePrefix,
+    forceRegenerate: settings.pcmCacheForceRegenerate,
+    codec: settings.pcmCacheCodec,
+    edgeCacheTtlSeconds: settings.pcmCacheEdgeTtlSeconds,
+    variants: SECSTREAM_CONFIG.qualityTiers.tiers.filter(needsRendering).map(tier => tier.id),
   });
 }
 
@@ -45,6 +61,19 @@ export class AudioFileHandler {
     }
   }
 
+  // Get the version tag of an audio file (R2 etag, or a fixed tag for local files)
+  async getAudioEtag(audioKey: string, bucket?: R2Bucket): Promise<string> {
+    if (!bucket) {
+      return 'local';
+    }
+
+    const object = await bucket.head(audioKey);
+    if (!object) {
+      throw new Error(`Audio file not found: ${audioKey}`);
+    }
+    return object.etag;
+  }
+
   // Get audio file from local filesystem (dev mode only)
   private async getAudioFromLocalFilesystem(audioKey: string): Promise<ArrayBuffer> {
     try {
@@ -68,6 +97,28 @@ export class AudioFileHandler {
     }
   }
 
+  // List objects under a prefix with size and upload time (follows R2 pagination)
+  async listObjects(bucket: R2Bucket, prefix: string = ''): Promise<Array<{ key: string; size: number; uploaded: Date }>> {
+    try {
+      const objects: Array<{ key: string; size: number; uploaded: Date }> = [];
+      let cursor: string | undefined;
+
+      do {
+        const page = await bucket.list({ prefix, cursor });
+        for (const obj of page.objects) {
+          objects.push({ key: obj.key, size: obj.size, uploaded: obj.uploaded });
+        }
+        cursor = page.truncated ? page.cursor : undefined;
+      } while (cursor);
+
+      console.log(`📦 Found ${objects.length} objects in bucket under "${prefix}"`);
+      return objects;
+    } catch (error) {
+      console.error('❌ Failed to list bucket objects:', error);
+      throw new Error('Failed to list objects from bucket');
+    }
+  }
+
   // List available audio files in bucket
   async listAudioFiles(bucket: R2Bucket, prefix: string = 'audio/'): Promise<string[]> {
     try {
@@ -0,0 +1,316 @@
+/**
+ * Forensic audio watermark
+ *
+ * Embeds a 48-bit watermark ID (derived from the session ID) into 16-bit PCM
+ * WAV data as low-level spread-spectrum noise, so a leaked recording can be
+ * traced back to the session that streamed it.
+ *
+ * Format:
+ * - Payload: 48-bit ID + CRC-16 = 64 bits, repeated from the start of the track
+ * - Each bit spans BIT_SAMPLES samples; a keyed ±1 chip sequence (one chip per
+ *   CHIP_SAMPLES samples, identical on every channel) is added with the bit's sign
+ * - The amplitude follows the segment's RMS (strength × RMS); near-silent
+ *   segments are left untouched
+ *
+ * Extraction differences the signal (suppressing the low end, where most of
+ * the music's energy is) and correlates it with the differenced chip
+ * sequence, summing every repetition of each bit. The capture must be 16-bit
+ * PCM WAV at the original sample rate (decode lossy rips with e.g. ffmpeg
+ * first), and its start position in the track known to within the search window.
+ *
+ * Self-contained (no imports) so the offline extractor in scripts/ can run it
+ * directly with Node.
+ */
+
+const ID_BITS = 48;
+const CRC_BITS = 16;
+const PAYLOAD_BITS = ID_BITS + CRC_BITS;
+const BIT_SAMPLES = 16384;      // ~0.37s at 44.1kHz; a full payload is ~24s
+const CHIP_SAMPLES = 4;         // Keeps the watermark below ~5.5kHz at 44.1kHz
+const CHIPS_PER_BIT = BIT_SAMPLES / CHIP_SAMPLES;
+const WATERMARK_KEY = 0x5ec57e4d;
+const SILENCE_RMS = 0.001;      // Full scale = 1
+const SYNC_BITS = 16;           // Bits scored per alignment candidate
+const ALIGNMENT_CANDIDATES = 3; // Best-scoring alignments tried for a valid CRC
+
+export interface WavLayout {
+  dataOffset: number;
+  frames: number;
+  channels: number;
+  sampleRate: number;
+}
+
+export interface WatermarkExtraction {
+  watermarkId: string;
+  offsetSamples: number;  // Track position of the capture's first sample
+  repetitions: number;    // Payload copies found in the capture
+  confidence: number;     // z-score of the weakest bit (> ~4 is conclusive)
+}
+
+export interface WatermarkExtractOptions {
+  startSamples?: number;   // Expected track position of the capture's first sample (default 0)
+  searchSamples?: number;  // Alignment search either side of startSamples (default 2048)
+}
+
+/**
+ * Locate the data chunk of a 16-bit PCM WAV file
+ */
+export function readWavLayout(wavData: ArrayBuffer): WavLayout {
+  const view = new DataView(wavData);
+  let channels = 0;
+  let sampleRate = 0;
+  let offset = 12;
+
+  while (offset + 8 <= wavData.byteLength) {
+    const chunkId = String.fromCharCode(
+      view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+    );
+    const chunkSize = view.getUint32(offset + 4, true);
+
+    if (chunkId === 'fmt ') {
+      if (view.getUint16(offset + 8, true) !== 1 || view.getUint16(offset + 22, true) !== 16) {
+        throw new Error('Expected 16-bit PCM WAV');
+      }
+      channels = view.getUint16(offset + 10, true);
+      sampleRate = view.getUint32(offset + 12, true);
+    } else if (chunkId === 'data') {
+      if (channels === 0) {
+        throw new Error('WAV fmt chunk not found');
+      }
+      const dataLength = Math.min(chunkSize, wavData.byteLength - offset - 8);
+      return { dataOffset: offset + 8, frames: Math.floor(dataLength / (2 * channels)), channels, sampleRate };
+    }
+
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV data chunk not found');
+}
+
+/**
+ * Sample rate of a 16-bit PCM WAV file
+ */
+export function getWavSampleRate(wavData: ArrayBuffer): number {
+  return readWavLayout(wavData).sampleRate;
+}
+
+/**
+ * Keyed ±1 chip sequence for one payload bit position (mulberry32)
+ */
+const chipSequences: Int8Array[] = [];
+function getChips(bitIndex: number): Int8Array {
+  let chips = chipSequences[bitIndex];
+  if (chips) return chips;
+
+  chips = new Int8Array(CHIPS_PER_BIT);
+  let state = (WATERMARK_KEY ^ Math.imul(bitIndex + 1, 0x9e3779b1)) >>> 0;
+  for (let i = 0; i < CHIPS_PER_BIT; i++) {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    chips[i] = ((t ^ (t >>> 14)) >>> 0) & 1 ? 1 : -1;
+  }
+
+  chipSequences[bitIndex] = chips;
+  return chips;
+}
+
+/**
+ * CRC-16/CCITT-FALSE over a bit array
+ */
+function crc16(bits: number[]): number {
+  let crc = 0xffff;
+  for (const bit of bits) {
+    const top = (crc >> 15) & 1;
+    crc = (crc << 1) & 0xffff;
+    if (top ^ bit) crc ^= 0x1021;
+  }
+  return crc;
+}
+
+function idToBits(watermarkId: string): number[] {
+  if (!/^[0-9a-f]{12}$/.test(watermarkId)) {
+    throw new Error(`Invalid watermark ID: ${watermarkId}`);
+  }
+  const bits: number[] = [];
+  for (const char of watermarkId) {
+    const nibble = parseInt(char, 16);
+    for (let shift = 3; shift >= 0; shift--) {
+      bits.push((nibble >> shift) & 1);
+    }
+  }
+  return bits;
+}
+
+function bitsToId(bits: number[]): string {
+  let id = '';
+  for (let i = 0; i < ID_BITS; i += 4) {
+    id += ((bits[i] << 3) | (bits[i + 1] << 2) | (bits[i + 2] << 1) | bits[i + 3]).toString(16);
+  }
+  return id;
+}
+
+function payloadBits(watermarkId: string): number[] {
+  const bits = idToBits(watermarkId);
+  const crc = crc16(bits);
+  for (let shift = CRC_BITS - 1; shift >= 0; shift--) {
+    bits.push((crc >> shift) & 1);
+  }
+  return bits;
+}
+
+/**
+ * Watermark ID for a session: first 48 bits of SHA-256(sessionId), as 12 hex digits
+ */
+export async function deriveWatermarkId(sessionId: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(sessionId));
+  return Array.from(new Uint8Array(digest, 0, ID_BITS / 8), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Return a watermarked copy of 16-bit PCM WAV data (the input is not modified)
+ * @param strength - Watermark amplitude relative to the segment RMS (0.01 ≈ -40 dB)
+ */
+export function embedWatermark(wavData: ArrayBuffer, watermarkId: string, strength: number): ArrayBuffer {
+  const { dataOffset, frames, channels } = readWavLayout(wavData);
+  const bits = payloadBits(watermarkId);
+  const output = wavData.slice(0);
+  const view = new DataView(output);
+
+  for (let segment = 0; segment * BIT_SAMPLES < frames; segment++) {
+    const start = segment * BIT_SAMPLES;
+    const end = Math.min(frames, start + BIT_SAMPLES);
+
+    let sumSquares = 0;
+    for (let frame = start; frame < end; frame++) {
+      let mono = 0;
+      for (let channel = 0; channel < channels; channel++) {
+        mono += view.getInt16(dataOffset + (frame * channels + channel) * 2, true);
+      }
+      mono /= channels * 32768;
+      sumSquares += mono * mono;
+    }
+    const rms = Math.sqrt(sumSquares / (end - start));
+    if (rms < SILENCE_RMS) continue;
+
+    const bitIndex = segment % PAYLOAD_BITS;
+    const amplitude = strength * rms * 32768 * (bits[bitIndex] ? 1 : -1);
+    const chips = getChips(bitIndex);
+
+    for (let frame = start; frame < end; frame++) {
+      const delta = amplitude * chips[((frame - start) / CHIP_SAMPLES) | 0];
+      for (let channel = 0; channel < channels; channel++) {
+        const position = dataOffset + (frame * channels + channel) * 2;
+        const value = Math.round(view.getInt16(position, true) + delta);
+        view.setInt16(position, Math.max(-32768, Math.min(32767, value)), true);
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Differenced mono signal of a WAV file (full scale = 1)
+ */
+function readDifferencedMono(wavData: ArrayBuffer): { signal: Float32Array; sampleRate: number } {
+  const { dataOffset, frames, channels, sampleRate } = readWavLayout(wavData);
+  const view = new DataView(wavData);
+  const signal = new Float32Array(frames);
+
+  let previous = 0;
+  for (let frame = 0; frame < frames; frame++) {
+    let mono = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      mono += view.getInt16(dataOffset + (frame * channels + channel) * 2, true);
+    }
+    mono /= channels * 32768;
+    signal[frame] = frame === 0 ? 0 : mono - previous;
+    previous = mono;
+  }
+
+  return { signal, sampleRate };
+}
+
+/**
+ * Correlate one bit segment starting at `start` in the differenced signal
+ * Only chip transitions carry the differenced chip sequence, so the sum runs over those
+ * @returns correlation and its variance under "no watermark"
+ */
+function correlateBit(signal: Float32Array, start: number, bitIndex: number): { value: number; variance: number } {
+  const chips = getChips(bitIndex);
+  let value = 0;
+  let variance = 0;
+  for (let chip = 1; chip < CHIPS_PER_BIT; chip++) {
+    const step = chips[chip] - chips[chip - 1];
+    if (step === 0) continue;
+    const sample = signal[start + chip * CHIP_SAMPLES];
+    value += step * sample;
+    variance += 4 * sample * sample;
+  }
+  return { value, variance };
+}
+
+/**
+ * Segments of the track that lie wholly inside the capture, for one alignment
+ * @param position - Track position of the capture's first sample
+ */
+function completeSegments(position: number, length: number): Array<{ segment: number; start: number }> {
+  const segments: Array<{ segment: number; start: number }> = [];
+  for (let segment = Math.max(0, Math.ceil(position / BIT_SAMPLES)); ; segment++) {
+    const start = segment * BIT_SAMPLES - position;
+    if (start + BIT_SAMPLES > length) break;
+    segments.push({ segment, start });
+  }
+  return segments;
+}
+
+/**
+ * Recover the watermark ID from a captured 16-bit PCM WAV file
+ * @returns null if no payload with a valid CRC was found
+ */
+export function extractWatermark(wavData: ArrayBuffer, options: WatermarkExtractOptions = {}): WatermarkExtraction | null {
+  const { signal } = readDifferencedMono(wavData);
+  const expected = options.startSamples ?? 0;
+  const search = options.searchSamples ?? 2048;
+
+  // Score alignments by correlation energy over the first few bits
+  const scored: Array<{ position: number; score: number }> = [];
+  for (let position = Math.max(0, expected - search); position <= expected + search; position++) {
+    let score = 0;
+    for (const { segment, start } of completeSegments(position, signal.length).slice(0, SYNC_BITS)) {
+      score += Math.abs(correlateBit(signal, start, segment % PAYLOAD_BITS).value);
+    }
+    scored.push({ position, score });
+  }
+  scored.sort((a, b) => b.score - a.score);
+
+  for (const { position } of scored.slice(0, ALIGNMENT_CANDIDATES)) {
+    const sums = new Float64Array(PAYLOAD_BITS);
+    const variances = new Float64Array(PAYLOAD_BITS);
+    const segments = completeSegments(position, signal.length);
+
+    for (const { segment, start } of segments) {
+      const { value, variance } = correlateBit(signal, start, segment % PAYLOAD_BITS);
+      sums[segment % PAYLOAD_BITS] += value;
+      variances[segment % PAYLOAD_BITS] += variance;
+    }
+
+    if (variances.some(variance => variance === 0)) continue;  // Too short to cover every bit
+
+    const bits = Array.from(sums, (sum): number => (sum > 0 ? 1 : 0));
+    const crc = bits.slice(ID_BITS).reduce((value, bit) => (value << 1) | bit, 0);
+    if (crc !== crc16(bits.slice(0, ID_BITS))) continue;
+
+    const confidence = Math.min(...Array.from(sums, (sum, index) => Math.abs(sum) / Math.sqrt(variances[index])));
+    return {
+      watermarkId: bitsToId(bits),
+      offsetSamples: position,
+      repetitions: Math.floor(segments.length / PAYLOAD_BITS),
+      confidence: Math.round(confidence * 100) / 100,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,44 @@
+/**
+ * Client-side catalog loading
+ * Fetches the published tracks from /api/tracks, falling back to the
+ * built-in playlist when the API is unreachable or returns nothing usable
+ */
+
+import { AUDIO_PLAYLIST } from '../../constants/playlist';
+import type { AudioTrack } from '../../constants/playlist';
+
+interface TracksResponse {
+  tracks?: AudioTrack[];
+  error?: string;
+}
+
+export async function fetchCatalogTracks(baseUrl: string = ''): Promise<AudioTrack[]> {
+  try {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/api/tracks`, {
+      headers: { 'Accept': 'application/json' },
+    });
+
+    const data = await response.json() as TracksResponse;
+
+    if (data.error) {
+      console.warn(`⚠️ Catalog API reported: ${data.error}`);
+    }
+
+    if (!Array.isArray(data.tracks) || data.tracks.length === 0) {
+      console.warn('⚠️ Catalog API returned no tracks, using built-in playlist');
+      return AUDIO_PLAYLIST;
+    }
+
+    console.log(`📚 Loaded ${data.tracks.length} tracks from catalog`);
+    return data.tracks.map(({ id, title, audioKey, coverKey, duration }) => ({
+      id,
+      title,
+      audioKey,
+      ...(coverKey && { coverKey }),
+      ...(duration && { duration }),
+    }));
+  } catch (error) {
+    console.error('❌ Failed to load catalog, using built-in playlist:', error);
+    return AUDIO_PLAYLIST;
+  }
+}
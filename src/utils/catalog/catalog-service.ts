@@ -0,0 +1,288 @@
+/**
+ * Data-driven track catalog
+ *
+ * The catalog is a JSON manifest stored in R2 (CATALOG_MANIFEST_KEY), so the
+ * artist can publish, reorder or hide tracks without a code change. The
+ * hard-coded AUDIO_PLAYLIST is kept as the built-in fallback when the
+ * manifest is missing, invalid, or R2 is not available (local dev).
+ *
+ * Manifest format:
+ * {
+ *   "version": 1,
+ *   "updatedAt": "2025-01-01T00:00:00.000Z",
+ *   "tracks": [
+ *     { "id": 0, "title": "Guide Line", "audioKey": "audio/guide_line.mp3" },
+ *     { "id": 1, "title": "Falling Flowers", "audioKey": "audio/falling_flowers.mp3",
+ *       "coverKey": "cover/falling_flowers.png", "hidden": false }
+ *   ]
+ * }
+ *
+ * Track order in the manifest is the playback order.
+ */
+
+import { AUDIO_PLAYLIST } from '../../constants/playlist';
+import type { AudioTrack } from '../../constants/playlist';
+
+// R2 key of the catalog manifest
+export const CATALOG_MANIFEST_KEY = 'catalog/catalog.json';
+
+// Only manifest versions this code understands
+export const SUPPORTED_MANIFEST_VERSION = 1;
+
+export interface CatalogTrack extends AudioTrack {
+  // Hidden tracks stay in the manifest but are not served or playable
+  hidden?: boolean;
+}
+
+export interface CatalogManifest {
+  version: number;
+  updatedAt?: string;
+  tracks: CatalogTrack[];
+}
+
+export type CatalogSource = 'r2' | 'builtin';
+
+export interface Catalog {
+  manifest: CatalogManifest;
+  source: CatalogSource;
+  loadedAt: number;
+}
+
+export type CatalogValidationResult =
+  | { valid: true; manifest: CatalogManifest }
+  | { valid: false; errors: string[] };
+
+/**
+ * Validate an untrusted value against the catalog manifest schema
+ */
+export function validateCatalogManifest(data: unknown): CatalogValidationResult {
+  const errors: string[] = [];
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { valid: false, errors: ['Manifest must be a JSON object'] };
+  }
+
+  const manifest = data as Record<string, unknown>;
+
+  if (manifest.version !== SUPPORTED_MANIFEST_VERSION) {
+    errors.push(`Unsupported manifest version: ${String(manifest.version)} (expected ${SUPPORTED_MANIFEST_VERSION})`);
+  }
+
+  if (manifest.updatedAt !== undefined && typeof manifest.updatedAt !== 'string') {
+    errors.push('updatedAt must be a string');
+  }
+
+  if (!Array.isArray(manifest.tracks)) {
+    errors.push('tracks must be an array');
+    return { valid: false, errors };
+  }
+
+  const seenIds = new Set<number>();
+  const seenAudioKeys = new Set<string>();
+  const tracks: CatalogTrack[] = [];
+
+  manifest.tracks.forEach((value: unknown, index: number) => {
+    const prefix = `tracks[${index}]`;
+
+    if (typeof value !== 'object' || value === null) {
+      errors.push(`${prefix} must be an object`);
+      return;
+    }
+
+    const track = value as Record<string, unknown>;
+
+    if (typeof track.id !== 'number' || !Number.isInteger(track.id) || track.id < 0) {
+      errors.push(`${prefix}.id must be a non-negative integer`);
+    } else if (seenIds.has(track.id)) {
+      errors.push(`${prefix}.id ${track.id} is duplicated`);
+    } else {
+      seenIds.add(track.id);
+    }
+
+    if (typeof track.title !== 'string' || track.title.trim() === '') {
+      errors.push(`${prefix}.title must be a non-empty string`);
+    }
+
+    if (typeof track.audioKey !== 'string' || track.audioKey.trim() === '') {
+      errors.push(`${prefix}.audioKey must be a non-empty string`);
+    } else if (seenAudioKeys.has(track.audioKey)) {
+      errors.push(`${prefix}.audioKey ${track.audioKey} is duplicated`);
+    } else {
+      seenAudioKeys.add(track.audioKey);
+    }
+
+    if (track.coverKey !== undefined && (typeof track.coverKey !== 'string' || track.coverKey.trim() === '')) {
+      errors.push(`${prefix}.coverKey must be a non-empty string when present`);
+    }
+
+    if (track.duration !== undefined && (typeof track.duration !== 'number' || track.duration <= 0)) {
+      errors.push(`${prefix}.duration must be a positive number when present`);
+    }
+
+    if (track.hidden !== undefined && typeof track.hidden !== 'boolean') {
+      errors.push(`${prefix}.hidden must be a boolean when present`);
+    }
+
+    tracks.push({
+      id: track.id as number,
+      title: track.title as string,
+      audioKey: track.audioKey as string,
+      ...(track.coverKey !== undefined && { coverKey: track.coverKey as string }),
+      ...(track.duration !== undefined && { duration: track.duration as number }),
+      ...(track.hidden !== undefined && { hidden: track.hidden as boolean }),
+    });
+  });
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    manifest: {
+      version: manifest.version as number,
+      ...(manifest.updatedAt !== undefined && { updatedAt: manifest.updatedAt as string }),
+      tracks,
+    },
+  };
+}
+
+/**
+ * Built-in catalog from the hard-coded playlist
+ */
+function getBuiltinManifest(): CatalogManifest {
+  return {
+    version: SUPPORTED_MANIFEST_VERSION,
+    tracks: AUDIO_PLAYLIST.map(track => ({ ...track })),
+  };
+}
+
+/**
+ * Catalog service with in-worker caching
+ * Each worker instance keeps its own copy for CACHE_TTL_MS
+ */
+class CatalogService {
+  private cached: Catalog | null = null;
+  private pending: Promise<Catalog> | null = null;
+
+  // Short TTL so catalog edits show up quickly without hitting R2 on every request
+  private readonly CACHE_TTL_MS = 60 * 1000;
+
+  /**
+   * Get the catalog (cached, falls back to the built-in playlist)
+   */
+  async getCatalog(bucket?: R2Bucket): Promise<Catalog> {
+    if (this.cached && Date.now() - this.cached.loadedAt < this.CACHE_TTL_MS) {
+      return this.cached;
+    }
+
+    // Deduplicate concurrent loads within the isolate
+    if (!this.pending) {
+      this.pending = this.loadCatalog(bucket).finally(() => {
+        this.pending = null;
+      });
+    }
+
+    return this.pending;
+  }
+
+  /**
+   * Tracks that are published (not hidden), in playback order
+   */
+  async getVisibleTracks(bucket?: R2Bucket): Promise<AudioTrack[]> {
+    const catalog = await this.getCatalog(bucket);
+    return catalog.manifest.tracks
+      .filter(track => !track.hidden)
+      .map(({ hidden, ...track }) => track);
+  }
+
+  /**
+   * All tracks including hidden ones (admin use)
+   */
+  async getAllTracks(bucket?: R2Bucket): Promise<CatalogTrack[]> {
+    const catalog = await this.getCatalog(bucket);
+    return catalog.manifest.tracks;
+  }
+
+  /**
+   * Validate and publish a new manifest to R2
+   * Replaces this isolate's cached catalog; other isolates pick it up after CACHE_TTL_MS
+   */
+  async saveManifest(manifest: CatalogManifest, bucket: R2Bucket): Promise<CatalogValidationResult> {
+    const result = validateCatalogManifest({
+      ...manifest,
+      updatedAt: new Date().toISOString(),
+    });
+
+    if (!result.valid) {
+      console.error(`❌ Refusing to save invalid catalog manifest: ${result.errors.join('; ')}`);
+      return result;
+    }
+
+    await bucket.put(CATALOG_MANIFEST_KEY, JSON.stringify(result.manifest, null, 2), {
+      httpMetadata: { contentType: 'application/json' },
+    });
+
+    this.store(result.manifest, 'r2');
+    console.log(`📚 Saved catalog manifest to R2 (${result.manifest.tracks.length} tracks)`);
+    return result;
+  }
+
+  /**
+   * Drop the cached catalog so the next read reloads it
+   */
+  invalidate(): void {
+    this.cached = null;
+    console.log('🗑️ Catalog cache invalidated');
+  }
+
+  /**
+   * Load the manifest from R2, validating it
+   * Keeps serving the last good catalog if R2 or the manifest is broken
+   */
+  private async loadCatalog(bucket?: R2Bucket): Promise<Catalog> {
+    if (!bucket) {
+      console.log('ℹ️ No R2 bucket available, using built-in catalog');
+      return this.store(getBuiltinManifest(), 'builtin');
+    }
+
+    try {
+      const object = await bucket.get(CATALOG_MANIFEST_KEY);
+      if (!object) {
+        console.log(`ℹ️ Catalog manifest ${CATALOG_MANIFEST_KEY} not found, using built-in catalog`);
+        return this.store(getBuiltinManifest(), 'builtin');
+      }
+
+      const data = await object.json();
+      const result = validateCatalogManifest(data);
+
+      if (!result.valid) {
+        console.error(`❌ Invalid catalog manifest: ${result.errors.join('; ')}`);
+        return this.fallback();
+      }
+
+      console.log(`📚 Loaded catalog manifest from R2 (${result.manifest.tracks.length} tracks)`);
+      return this.store(result.manifest, 'r2');
+    } catch (error) {
+      console.error('❌ Failed to load catalog manifest:', error);
+      return this.fallback();
+    }
+  }
+
+  private fallback(): Catalog {
+    if (this.cached?.source === 'r2') {
+      console.warn('⚠️ Keeping previously loaded catalog');
+      // Refresh loadedAt so a broken manifest isn't re-read on every request
+      return this.store(this.cached.manifest, 'r2');
+    }
+    return this.store(getBuiltinManifest(), 'builtin');
+  }
+
+  private store(manifest: CatalogManifest, source: CatalogSource): Catalog {
+    this.cached = { manifest, source, loadedAt: Date.now() };
+    return this.cached;
+  }
+}
+
+// Global catalog instance (shared across requests in same worker)
+export const catalogService = new CatalogService();
@@ -0,0 +1,56 @@
+/**
+ * Proof-of-work puzzle shared by the server and the client
+ *
+ * A solution is a counter such that SHA-256("<token>:<counter>") starts with
+ * `difficulty` zero bits, so solving takes ~2^difficulty hashes on average
+ * while checking takes one.
+ */
+
+// GET /api/sessions/challenge
+export type SessionChallengeResponse =
+  | { required: false }
+  | {
+    required: true;
+    token: string;        // Signed, opaque; also the puzzle prefix
+    difficulty: number;   // Leading zero bits
+    expiresInMs: number;
+  };
+
+// Sent as `challenge` in the POST /api/sessions body
+export interface ChallengeSolution {
+  token: string;
+  counter: number;
+}
+
+function leadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+async function hashAttempt(token: string, counter: number): Promise<Uint8Array> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${token}:${counter}`));
+  return new Uint8Array(digest);
+}
+
+export async function isValidSolution(token: string, counter: number, difficulty: number): Promise<boolean> {
+  return Number.isSafeInteger(counter) && counter >= 0
+    && leadingZeroBits(await hashAttempt(token, counter)) >= difficulty;
+}
+
+/**
+ * Find a counter that solves the puzzle
+ */
+export async function solveProofOfWork(token: string, difficulty: number): Promise<number> {
+  for (let counter = 0; ; counter++) {
+    if (leadingZeroBits(await hashAttempt(token, counter)) >= difficulty) {
+      return counter;
+    }
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Proof-of-work challenges for session creation
+ *
+ * Challenges are stateless: the token is a signed payload (nonce, difficulty,
+ * expiry, client identity), so any isolate can verify it. A token is only
+ * accepted from the client it was issued to, before it expires, and once:
+ * redeemed nonces are recorded in the client's RateLimiter Durable Object
+ * (in memory in local dev).
+ *
+ * Difficulty follows the POST /api/sessions rate reported by the
+ * MetricsCollector DO (see SESSION_CHALLENGE_CONFIG.difficultyLevels).
+ *
+ * Fails closed: without SESSION_CHALLENGE_SECRET in production, challenges
+ * and session creation answer NOT_CONFIGURED. Local dev signs with a
+ * per-process key.
+ */
+
+import { SESSION_CHALLENGE_CONFIG } from '../../constants/security';
+import { apiError, ApiErrorCode } from '../api/api-error.js';
+import { fromBase64Url, hmacSign, hmacVerify, toBase64Url } from '../api/signing.js';
+import { getClientIdentity } from '../rate-limit/rate-limiter.js';
+import type { RateLimiter } from '../../durable-objects/RateLimiter.js';
+import { isDevMode } from '../storage/session-storage-adapter.js';
+import { getRecentRouteCounts } from '../metrics/metrics.js';
+import { isValidSolution } from './proof-of-work.js';
+import type { ChallengeSolution, SessionChallengeResponse } from './proof-of-work.js';
+
+interface ChallengePayload {
+  n: string;  // Nonce
+  d: number;  // Difficulty
+  e: number;  // Expires at
+  c: string;  // Client identity
+}
+
+// Route whose rate drives the difficulty
+const SESSION_CREATION_ROUTE = '/api/sessions';
+
+const devSecret = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+
+// Tokens already redeemed -> expiry (local dev)
+const devRedeemedTokens = new Map<string, number>();
+
+let load = { sessionsPerMinute: 0, difficulty: SESSION_CHALLENGE_CONFIG.difficultyLevels[0].difficulty, refreshedAt: 0 };
+
+/**
+ * Signing key, or null when SESSION_CHALLENGE_SECRET is missing in production
+ */
+function getSecret(locals: App.Locals): string | null {
+  const secret = locals.runtime?.env?.SESSION_CHALLENGE_SECRET;
+  if (secret) {
+    return secret;
+  }
+  return isDevMode(locals) ? devSecret : null;
+}
+
+/**
+ * 503 for challenge and session creation requests while the secret is missing
+ */
+export function challengeNotConfigured(): Response {
+  console.error('❌ Session challenge requested but SESSION_CHALLENGE_SECRET is not configured');
+  return apiError(ApiErrorCode.NOT_CONFIGURED, 'Session challenge not configured');
+}
+
+function difficultyFor(sessionsPerMinute: number): number {
+  let difficulty = SESSION_CHALLENGE_CONFIG.difficultyLevels[0].difficulty;
+  for (const level of SESSION_CHALLENGE_CONFIG.difficultyLevels) {
+    if (sessionsPerMinute >= level.sessionsPerMinute) {
+      difficulty = level.difficulty;
+    }
+  }
+  return difficulty;
+}
+
+/**
+ * Current difficulty, from the session creation rate across isolates
+ * Re-read at most every loadRefreshMs; keeps the last value if the collector is unreachable
+ */
+async function currentDifficulty(locals: App.Locals): Promise<number> {
+  const now = Date.now();
+  if (now - load.refreshedAt < SESSION_CHALLENGE_CONFIG.loadRefreshMs) {
+    return load.difficulty;
+  }
+
+  const { loadWindowMs } = SESSION_CHALLENGE_CONFIG;
+  const counts = await getRecentRouteCounts(SESSION_CREATION_ROUTE, loadWindowMs, locals);
+  const sessionsPerMinute = counts ? counts.requests / (loadWindowMs / 60000) : load.sessionsPerMinute;
+  const difficulty = difficultyFor(sessionsPerMinute);
+
+  if (difficulty !== load.difficulty) {
+    console.log(`🧩 Session challenge difficulty ${load.difficulty} -> ${difficulty} bits (${sessionsPerMinute.toFixed(1)} sessions/min)`);
+  }
+  load = { sessionsPerMinute, difficulty, refreshedAt: now };
+  return difficulty;
+}
+
+/**
+ * Mark a nonce as used
+ * @returns false if it was already redeemed
+ */
+async function redeemNonce(payload: ChallengePayload, locals: App.Locals): Promise<boolean> {
+  if (isDevMode(locals)) {
+    const now = Date.now();
+    for (const [nonce, expiresAt] of devRedeemedTokens) {
+      if (expiresAt <= now) {
+        devRedeemedTokens.delete(nonce);
+      }
+    }
+    if (devRedeemedTokens.has(payload.n)) {
+      return false;
+    }
+    devRedeemedTokens.set(payload.n, payload.e);
+    return true;
+  }
+
+  // Same instance as the client's rate limits (see checkRateLimit)
+  const namespace = locals.runtime.env.RATE_LIMITER;
+  const stub = namespace.get(namespace.idFromName(payload.c)) as DurableObjectStub<RateLimiter>;
+  return stub.redeemToken(payload.n, payload.e);
+}
+
+/**
+ * Issue a challenge for the requesting client
+ * @returns null when the gate is enabled but SESSION_CHALLENGE_SECRET is missing
+ */
+export async function issueSessionChallenge(request: Request, locals: App.Locals): Promise<SessionChallengeResponse | null> {
+  if (!SESSION_CHALLENGE_CONFIG.enabled) {
+    return { required: false };
+  }
+  const secret = getSecret(locals);
+  if (!secret) {
+    return null;
+  }
+
+  const payload: ChallengePayload = {
+    n: toBase64Url(crypto.getRandomValues(new Uint8Array(16))),
+    d: await currentDifficulty(locals),
+    e: Date.now() + SESSION_CHALLENGE_CONFIG.challengeTtlMs,
+    c: await getClientIdentity(request),
+  };
+  const encoded = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+
+  return {
+    required: true,
+    token: `${encoded}.${await hmacSign(encoded, secret)}`,
+    difficulty: payload.d,
+    expiresInMs: SESSION_CHALLENGE_CONFIG.challengeTtlMs,
+  };
+}
+
+function parseToken(token: string): { encoded: string; signature: string; payload: ChallengePayload } | null {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) {
+    return null;
+  }
+  try {
+    return { encoded, signature, payload: JSON.parse(new TextDecoder().decode(fromBase64Url(encoded))) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Why a solution is not accepted, or null if it is
+ */
+async function rejectSolution(
+  solution: unknown,
+  request: Request,
+  secret: string,
+  locals: App.Locals
+): Promise<string | null> {
+  const { token, counter } = (solution ?? {}) as Partial<ChallengeSolution>;
+  if (typeof token !== 'string' || typeof counter !== 'number') {
+    return 'missing';
+  }
+
+  const parsed = parseToken(token);
+  if (!parsed || !await hmacVerify(parsed.encoded, parsed.signature, secret)) {
+    return 'invalid';
+  }
+
+  const { payload } = parsed;
+  const now = Date.now();
+  if (payload.e <= now) {
+    return 'expired';
+  }
+  if (payload.c !== await getClientIdentity(request)) {
+    return 'wrong client';
+  }
+  if (!await isValidSolution(token, counter, payload.d)) {
+    return 'wrong solution';
+  }
+  if (!await redeemNonce(payload, locals)) {
+    return 'already used';
+  }
+
+  return null;
+}
+
+/**
+ * Verify the challenge solution sent with a session creation request
+ * @returns null when the request may proceed, otherwise the error response to return
+ */
+export async function verifySessionChallenge(
+  solution: unknown,
+  request: Request,
+  locals: App.Locals
+): Promise<Response | null> {
+  if (!SESSION_CHALLENGE_CONFIG.enabled) {
+    return null;
+  }
+  const secret = getSecret(locals);
+  if (!secret) {
+    return challengeNotConfigured();
+  }
+
+  const reason = await rejectSolution(solution, request, secret, locals);
+  if (!reason) {
+    return null;
+  }
+
+  console.warn(`⚠️ Session challenge rejected: ${reason}`);
+  return apiError(ApiErrorCode.CHALLENGE_REQUIRED, 'Session challenge required', {
+    message: 'Solve a challenge from /api/sessions/challenge before creating a session',
+    details: { reason },
+  });
+}
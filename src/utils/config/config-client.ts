@@ -0,0 +1,43 @@
+/**
+ * Client-side settings loading
+ * Fetches the player settings from /api/config, falling back to the built-in
+ * defaults when the API is unreachable; sections missing from the response
+ * (an older or newer server) are filled in from the defaults
+ */
+
+import { DEFAULT_CLIENT_SETTINGS } from './settings';
+import type { ClientSettings } from './settings';
+
+type ConfigResponse = Partial<ClientSettings> & { error?: string };
+
+export async function fetchClientSettings(baseUrl: string = ''): Promise<ClientSettings> {
+  try {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/api/config`, {
+      headers: { 'Accept': 'application/json' },
+    });
+
+    const data = await response.json() as ConfigResponse;
+
+    if (!response.ok || data.error) {
+      console.warn(`⚠️ Config API reported: ${data.error ?? response.status}, using built-in settings`);
+      return DEFAULT_CLIENT_SETTINGS;
+    }
+
+    const defaults = DEFAULT_CLIENT_SETTINGS;
+    const settings: ClientSettings = {
+      workerConfig: { ...defaults.workerConfig, ...data.workerConfig },
+      audio: { ...defaults.audio, ...data.audio },
+      qualityTiers: {
+        ...defaults.qualityTiers,
+        ...data.qualityTiers,
+        selection: { ...defaults.qualityTiers.selection, ...data.qualityTiers?.selection },
+      },
+    };
+
+    console.log('⚙️ Loaded player settings from config API');
+    return settings;
+  } catch (error) {
+    console.error('❌ Failed to load config, using built-in settings:', error);
+    return DEFAULT_CLIENT_SETTINGS;
+  }
+}
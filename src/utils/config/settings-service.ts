@@ -0,0 +1,159 @@
+/**
+ * Runtime settings service
+ *
+ * Resolves RuntimeSettings from the defaults, worker env vars and the
+ * SETTINGS_KV override document (later layers win, see utils/config/settings.ts).
+ * Each worker instance keeps the result for CACHE_TTL_MS, so a KV edit reaches
+ * every isolate within a minute.
+ *
+ * Every load produces a new frozen settings object: a request keeps the
+ * settings it started with, and nothing else can change them underneath it.
+ */
+
+import {
+  DEFAULT_SETTINGS,
+  SETTING_NAMES,
+  SETTINGS_KV_KEY,
+  readEnvSettings,
+  reconcileSettings,
+  validateSettings,
+} from './settings';
+import type { RuntimeSettings, SettingName, SettingsValidationResult } from './settings';
+
+export type SettingSource = 'default' | 'env' | 'kv';
+
+export interface ResolvedSettings {
+  settings: Readonly<RuntimeSettings>;
+  sources: Record<SettingName, SettingSource>;
+  errors: string[];  // Overrides that were rejected or adjusted
+  loadedAt: number;
+}
+
+class SettingsService {
+  private cached: ResolvedSettings | null = null;
+  private pending: Promise<ResolvedSettings> | null = null;
+
+  // Short TTL so KV edits show up quickly without a KV read on every request
+  private readonly CACHE_TTL_MS = 60 * 1000;
+
+  /**
+   * Current settings (cached)
+   */
+  async getSettings(locals: App.Locals): Promise<Readonly<RuntimeSettings>> {
+    return (await this.resolve(locals)).settings;
+  }
+
+  /**
+   * Current settings with where each one came from (cached)
+   */
+  async resolve(locals: App.Locals): Promise<ResolvedSettings> {
+    if (this.cached && Date.now() - this.cached.loadedAt < this.CACHE_TTL_MS) {
+      return this.cached;
+    }
+
+    // Deduplicate concurrent loads within the isolate
+    if (!this.pending) {
+      this.pending = this.loadSettings(locals.runtime?.env).finally(() => {
+        this.pending = null;
+      });
+    }
+
+    return this.pending;
+  }
+
+  /**
+   * Raw override document stored in KV (null when there is none)
+   */
+  async getOverrides(kv: KVNamespace): Promise<unknown> {
+    return kv.get(SETTINGS_KV_KEY, 'json');
+  }
+
+  /**
+   * Validate and store a new override document, replacing the previous one
+   * Applies to this isolate immediately; other isolates pick it up after CACHE_TTL_MS
+   */
+  async saveOverrides(data: unknown, kv: KVNamespace): Promise<SettingsValidationResult> {
+    const result = validateSettings(data);
+
+    if (result.errors.length > 0) {
+      console.error(`❌ Refusing to save invalid settings: ${result.errors.join('; ')}`);
+      return result;
+    }
+
+    await kv.put(SETTINGS_KV_KEY, JSON.stringify(result.settings, null, 2));
+    this.invalidate();
+    console.log(`⚙️ Saved settings overrides to KV (${Object.keys(result.settings).length} settings)`);
+    return result;
+  }
+
+  /**
+   * Drop the cached settings so the next read reloads them
+   */
+  invalidate(): void {
+    this.cached = null;
+    console.log('🗑️ Settings cache invalidated');
+  }
+
+  /**
+   * Layer env vars and the KV document over the defaults
+   * Keeps serving the last loaded settings if KV can't be read
+   */
+  private async loadSettings(env?: Env): Promise<ResolvedSettings> {
+    const settings: RuntimeSettings = { ...DEFAULT_SETTINGS };
+    const sources = Object.fromEntries(SETTING_NAMES.map(name => [name, 'default'])) as Record<SettingName, SettingSource>;
+    const errors: string[] = [];
+
+    const apply = (result: SettingsValidationResult, source: SettingSource) => {
+      Object.assign(settings, result.settings);
+      for (const name of Object.keys(result.settings) as SettingName[]) {
+        sources[name] = source;
+      }
+      errors.push(...result.errors);
+    };
+
+    if (env) {
+      apply(readEnvSettings(env), 'env');
+    }
+
+    if (env?.SETTINGS_KV) {
+      try {
+        const overrides = await env.SETTINGS_KV.get(SETTINGS_KV_KEY, 'json');
+        if (overrides !== null) {
+          apply(validateSettings(overrides), 'kv');
+        }
+      } catch (error) {
+        console.error('❌ Failed to load settings from KV:', error);
+        if (this.cached) {
+          console.warn('⚠️ Keeping previously loaded settings');
+          // Refresh loadedAt so a broken document isn't re-read on every request
+          return this.store({ ...this.cached, loadedAt: Date.now() });
+        }
+        errors.push(`${SETTINGS_KV_KEY} could not be read`);
+      }
+    }
+
+    errors.push(...reconcileSettings(settings));
+
+    if (errors.length > 0) {
+      console.warn(`⚠️ Ignoring invalid settings: ${errors.join('; ')}`);
+    }
+
+    return this.store({ settings: Object.freeze(settings), sources, errors, loadedAt: Date.now() });
+  }
+
+  private store(resolved: ResolvedSettings): ResolvedSettings {
+    const previous = this.cached?.settings;
+    if (previous) {
+      const changed = SETTING_NAMES.filter(name => previous[name] !== resolved.settings[name]);
+      if (changed.length > 0) {
+        console.log(`⚙️ Settings changed: ${changed.map(name => `${name} ${previous[name]} -> ${resolved.settings[name]}`).join(', ')}`);
+      }
+    }
+
+    this.cached = resolved;
+    return resolved;
+  }
+}
+
+// Global settings instance (shared across requests in same worker)
+export const settingsService = new SettingsService();
@@ -0,0 +1,303 @@
+/**
+ * Runtime settings
+ *
+ * The tunable subset of SECSTREAM_CONFIG / AUDIO_CONFIG as a flat, validated
+ * record, so production can be tuned without a redeploy. The constants are
+ * the defaults; each setting can be overridden by a worker env var (e.g.
+ * SECSTREAM_SLICE_DURATION_MS=4000) and then by the JSON document stored in
+ * SETTINGS_KV under SETTINGS_KV_KEY:
+ *
+ * { "sliceDurationMs": 4000, "pcmCacheCodec": "wav", "clientWorkerCount": 1 }
+ *
+ * Values outside a setting's range are rejected one by one (the lower layer
+ * is kept), so a typo can't take streaming down.
+ *
+ * Server settings are loaded by utils/config/settings-service.ts; the
+ * client-visible part is served by GET /api/config (see toClientSettings).
+ * Shared by the server and the client (the client only uses the types and
+ * DEFAULT_CLIENT_SETTINGS).
+ */
+
+import { AUDIO_CONFIG, SECSTREAM_CONFIG } from '../../constants/playlist';
+import type { QualityTierId } from '../audio/quality-tiers';
+import type { PcmCacheCodecId } from '../audio/pcm-codecs';
+import type { SessionExpiryPolicy } from '../session/session-expiry';
+
+// KV key of the settings override document
+export const SETTINGS_KV_KEY = 'config/settings.json';
+
+export interface RuntimeSettings {
+  // Slicing and SessionManager (applies to sessions loaded after a change)
+  sliceDurationMs: number;
+  compressionLevel: typeof SECSTREAM_CONFIG.compressionLevel;
+  prewarmSlices: number;
+  prewarmConcurrency: number;
+  serverCacheSize: number;
+  serverCacheTtlMs: number;
+
+  // Worker memory management (per isolate)
+  decodedAudioCacheMaxBytes: number;
+  sessionIdleTimeoutMs: number;
+  sessionMaxAgeMs: number;
+  sessionMaxLoadedTracks: number;
+
+  // Session lifetime (mode and cap apply to sessions created after a change, see toSessionExpiryPolicy)
+  sessionExpirySliding: boolean;
+  sessionExpiryAbsoluteTimeoutMs: number;
+  sessionExpiryIdleTimeoutMs: number;
+  sessionExpiryMaxLifetimeMs: number;
+  sessionExpiryRenewThrottleMs: number;
+
+  // PCM cache
+  pcmCacheEnabled: boolean;
+  pcmCacheForceRegenerate: boolean;
+  pcmCacheCodec: PcmCacheCodecId;
+  pcmCacheEdgeTtlSeconds: number;
+
+  // Browser player (served by /api/config)
+  clientWorkersEnabled: boolean;
+  clientWorkerCount: number;
+  autoPlay: boolean;
+  volume: number;
+  fadeInDurationMs: number;
+  crossFadeDurationMs: number;
+}
+
+export type SettingName = keyof RuntimeSettings;
+type NumericSettingName = { [K in SettingName]: RuntimeSettings[K] extends number ? K : never }[SettingName];
+
+type SettingSpec =
+  | { type: 'integer' | 'number'; env: string; min: number; max: number }
+  | { type: 'boolean'; env: string }
+  | { type: 'enum'; env: string; values: readonly string[] };
+
+const SETTING_SPECS: Record<SettingName, SettingSpec> = {
+  sliceDurationMs: { type: 'integer', env: 'SECSTREAM_SLICE_DURATION_MS', min: 1000, max: 30_000 },
+  compressionLevel: { type: 'integer', env: 'SECSTREAM_COMPRESSION_LEVEL', min: 0, max: 9 },
+  prewarmSlices: { type: 'integer', env: 'SECSTREAM_PREWARM_SLICES', min: 0, max: 20 },
+  prewarmConcurrency: { type: 'integer', env: 'SECSTREAM_PREWARM_CONCURRENCY', min: 1, max: 8 },
+  serverCacheSize: { type: 'integer', env: 'SECSTREAM_SERVER_CACHE_SIZE', min: 0, max: 200 },
+  serverCacheTtlMs: { type: 'integer', env: 'SECSTREAM_SERVER_CACHE_TTL_MS', min: 0, max: 60 * 60 * 1000 },
+  decodedAudioCacheMaxBytes: { type: 'integer', env: 'SECSTREAM_DECODED_CACHE_MAX_BYTES', min: 8 * 1024 * 1024, max: 512 * 1024 * 1024 },
+  // Capped by sessionMaxAgeMs (see reconcileSettings)
+  sessionIdleTimeoutMs: { type: 'integer', env: 'SECSTREAM_SESSION_IDLE_TIMEOUT_MS', min: 60 * 1000, max: 24 * 60 * 60 * 1000 },
+  sessionMaxAgeMs: { type: 'integer', env: 'SECSTREAM_SESSION_MAX_AGE_MS', min: 10 * 60 * 1000, max: 24 * 60 * 60 * 1000 },
+  // At least the playing track and the next one (crossfade)
+  sessionMaxLoadedTracks: { type: 'integer', env: 'SECSTREAM_SESSION_MAX_LOADED_TRACKS', min: 2, max: 20 },
+  sessionExpirySliding: { type: 'boolean', env: 'SECSTREAM_SESSION_EXPIRY_SLIDING' },
+  sessionExpiryAbsoluteTimeoutMs: { type: 'integer', env: 'SECSTREAM_SESSION_EXPIRY_ABSOLUTE_TIMEOUT_MS', min: 5 * 60 * 1000, max: 24 * 60 * 60 * 1000 },
+  // Capped by sessionExpiryMaxLifetimeMs (see reconcileSettings)
+  sessionExpiryIdleTimeoutMs: { type: 'integer', env: 'SECSTREAM_SESSION_EXPIRY_IDLE_TIMEOUT_MS', min: 60 * 1000, max: 24 * 60 * 60 * 1000 },
+  sessionExpiryMaxLifetimeMs: { type: 'integer', env: 'SECSTREAM_SESSION_EXPIRY_MAX_LIFETIME_MS', min: 5 * 60 * 1000, max: 24 * 60 * 60 * 1000 },
+  sessionExpiryRenewThrottleMs: { type: 'integer', env: 'SECSTREAM_SESSION_EXPIRY_RENEW_THROTTLE_MS', min: 0, max: 10 * 60 * 1000 },
+  pcmCacheEnabled: { type: 'boolean', env: 'SECSTREAM_PCM_CACHE_ENABLED' },
+  pcmCacheForceRegenerate: { type: 'boolean', env: 'SECSTREAM_PCM_CACHE_FORCE_REGENERATE' },
+  pcmCacheCodec: { type: 'enum', env: 'SECSTREAM_PCM_CACHE_CODEC', values: ['wav', 'deflate'] },
+  pcmCacheEdgeTtlSeconds: { type: 'integer', env: 'SECSTREAM_PCM_CACHE_EDGE_TTL_SECONDS', min: 0, max: 7 * 24 * 60 * 60 },
+  clientWorkersEnabled: { type: 'boolean', env: 'CLIENT_WORKERS_ENABLED' },
+  clientWorkerCount: { type: 'integer', env: 'CLIENT_WORKER_COUNT', min: 1, max: 8 },
+  autoPlay: { type: 'boolean', env: 'CLIENT_AUTOPLAY' },
+  volume: { type: 'number', env: 'CLIENT_VOLUME', min: 0, max: 1 },
+  fadeInDurationMs: { type: 'integer', env: 'CLIENT_FADE_IN_DURATION_MS', min: 0, max: 10_000 },
+  crossFadeDurationMs: { type: 'integer', env: 'CLIENT_CROSSFADE_DURATION_MS', min: 0, max: 10_000 },
+};
+
+export const SETTING_NAMES = Object.keys(SETTING_SPECS) as SettingName[];
+
+export const DEFAULT_SETTINGS: Readonly<RuntimeSettings> = Object.freeze({
+  sliceDurationMs: SECSTREAM_CONFIG.sliceDurationMs,
+  compressionLevel: SECSTREAM_CONFIG.compressionLevel,
+  prewarmSlices: SECSTREAM_CONFIG.prewarmSlices,
+  prewarmConcurrency: SECSTREAM_CONFIG.prewarmConcurrency,
+  serverCacheSize: SECSTREAM_CONFIG.serverCacheSize,
+  serverCacheTtlMs: SECSTREAM_CONFIG.serverCacheTtlMs,
+  decodedAudioCacheMaxBytes: SECSTREAM_CONFIG.decodedAudioCacheMaxBytes,
+  sessionIdleTimeoutMs: SECSTREAM_CONFIG.sessionIdleTimeoutMs,
+  sessionMaxAgeMs: SECSTREAM_CONFIG.sessionMaxAgeMs,
+  sessionMaxLoadedTracks: SECSTREAM_CONFIG.sessionMaxLoadedTracks,
+  sessionExpirySliding: SECSTREAM_CONFIG.sessionExpiry.sliding,
+  sessionExpiryAbsoluteTimeoutMs: SECSTREAM_CONFIG.sessionExpiry.absoluteTimeoutMs,
+  sessionExpiryIdleTimeoutMs: SECSTREAM_CONFIG.sessionExpiry.idleTimeoutMs,
+  sessionExpiryMaxLifetimeMs: SECSTREAM_CONFIG.sessionExpiry.maxLifetimeMs,
+  sessionExpiryRenewThrottleMs: SECSTREAM_CONFIG.sessionExpiry.renewThrottleMs,
+  pcmCacheEnabled: SECSTREAM_CONFIG.pcmCache.enabled,
+  pcmCacheForceRegenerate: SECSTREAM_CONFIG.pcmCache.forceRegenerate,
+  pcmCacheCodec: SECSTREAM_CONFIG.pcmCache.codec,
+  pcmCacheEdgeTtlSeconds: SECSTREAM_CONFIG.pcmCache.edgeCacheTtlSeconds,
+  clientWorkersEnabled: SECSTREAM_CONFIG.workerConfig.enabled,
+  clientWorkerCount: SECSTREAM_CONFIG.workerConfig.workerCount,
+  autoPlay: AUDIO_CONFIG.autoPlay,
+  volume: AUDIO_CONFIG.volume,
+  fadeInDurationMs: AUDIO_CONFIG.fadeInDuration,
+  crossFadeDurationMs: AUDIO_CONFIG.crossFadeDuration,
+});
+
+export interface SettingsValidationResult {
+  settings: Partial<RuntimeSettings>;
+  errors: string[];
+}
+
+/**
+ * Parse one setting; env vars are strings, so numbers and booleans are also accepted as text
+ * @returns the value, or an error message
+ */
+function parseSetting(spec: SettingSpec, raw: unknown): { value: unknown } | { error: string } {
+  const text = typeof raw === 'string' ? raw.trim() : null;
+
+  switch (spec.type) {
+    case 'boolean': {
+      if (typeof raw === 'boolean') return { value: raw };
+      if (text === 'true' || text === '1') return { value: true };
+      if (text === 'false' || text === '0') return { value: false };
+      return { error: 'must be a boolean' };
+    }
+    case 'enum': {
+      if (text !== null && spec.values.includes(text)) return { value: text };
+      return { error: `must be one of ${spec.values.join(', ')}` };
+    }
+    default: {
+      const value = typeof raw === 'number' ? raw : text ? Number(text) : NaN;
+      if (!Number.isFinite(value) || (spec.type === 'integer' && !Number.isInteger(value))) {
+        return { error: `must be ${spec.type === 'integer' ? 'an integer' : 'a number'}` };
+      }
+      if (value < spec.min || value > spec.max) {
+        return { error: `must be between ${spec.min} and ${spec.max}` };
+      }
+      return { value };
+    }
+  }
+}
+
+/**
+ * Validate an untrusted settings override document
+ * Unknown or invalid settings are reported and left out; the rest still apply
+ */
+export function validateSettings(
+  data: unknown,
+  describe: (name: string) => string = name => name
+): SettingsValidationResult {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { settings: {}, errors: ['Settings must be a JSON object'] };
+  }
+
+  const settings: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const [name, raw] of Object.entries(data)) {
+    if (!Object.prototype.hasOwnProperty.call(SETTING_SPECS, name)) {
+      errors.push(`${describe(name)} is not a known setting`);
+      continue;
+    }
+
+    const result = parseSetting(SETTING_SPECS[name as SettingName], raw);
+    if ('error' in result) {
+      errors.push(`${describe(name)} ${result.error} (got ${JSON.stringify(raw)})`);
+    } else {
+      settings[name] = result.value;
+    }
+  }
+
+  return { settings: settings as Partial<RuntimeSettings>, errors };
+}
+
+/**
+ * Enforce limits between settings, after all layers are merged
+ * Each setting is validated on its own, so a layer can break a relation set up by another
+ * @returns what was adjusted
+ */
+export function reconcileSettings(settings: RuntimeSettings): string[] {
+  const adjusted: string[] = [];
+
+  const cap = (name: NumericSettingName, limitName: NumericSettingName) => {
+    if (settings[name] > settings[limitName]) {
+      adjusted.push(`${name} ${settings[name]} exceeds ${limitName}, using ${settings[limitName]}`);
+      settings[name] = settings[limitName];
+    }
+  };
+
+  // A SessionManager idle for longer than it may live at all would never be evicted as idle
+  cap('sessionIdleTimeoutMs', 'sessionMaxAgeMs');
+  // Sliding sessions are never extended past their lifetime cap anyway
+  cap('sessionExpiryIdleTimeoutMs', 'sessionExpiryMaxLifetimeMs');
+
+  return adjusted;
+}
+
+/**
+ * Session expiry policy for new sessions and renewals (see utils/session/session-expiry.ts)
+ */
+export function toSessionExpiryPolicy(settings: Readonly<RuntimeSettings>): SessionExpiryPolicy {
+  return {
+    sliding: settings.sessionExpirySliding,
+    absoluteTimeoutMs: settings.sessionExpiryAbsoluteTimeoutMs,
+    idleTimeoutMs: settings.sessionExpiryIdleTimeoutMs,
+    maxLifetimeMs: settings.sessionExpiryMaxLifetimeMs,
+    renewThrottleMs: settings.sessionExpiryRenewThrottleMs,
+  };
+}
+
+/**
+ * Overrides from worker env vars (see SETTING_SPECS for the names)
+ */
+export function readEnvSettings(env: object): SettingsValidationResult {
+  const vars = env as Record<string, unknown>;
+  const overrides: Record<string, unknown> = {};
+
+  for (const name of SETTING_NAMES) {
+    const value = vars[SETTING_SPECS[name].env];
+    if (value !== undefined && value !== '') {
+      overrides[name] = value;
+    }
+  }
+
+  // Report env var names rather than setting names
+  return validateSettings(overrides, name => SETTING_SPECS[name as SettingName].env);
+}
+
+// GET /api/config
+// The slice duration is per session, so players get it from the session info instead
+export interface ClientSettings {
+  workerConfig: {
+    enabled: boolean;
+    workerCount: number;
+    maxQueueSize: number;
+  };
+  audio: {
+    autoPlay: boolean;
+    loop: boolean;
+    volume: number;
+    fadeInDuration: number;
+    crossFadeDuration: number;
+  };
+  qualityTiers: {
+    defaultTier: QualityTierId;
+    selection: typeof SECSTREAM_CONFIG.qualityTiers.selection;
+  };
+}
+
+/**
+ * Settings the browser player needs
+ */
+export function toClientSettings(settings: Readonly<RuntimeSettings>): ClientSettings {
+  return {
+    workerConfig: {
+      enabled: settings.clientWorkersEnabled,
+      workerCount: settings.clientWorkerCount,
+      maxQueueSize: SECSTREAM_CONFIG.workerConfig.maxQueueSize,
+    },
+    audio: {
+      autoPlay: settings.autoPlay,
+      loop: AUDIO_CONFIG.loop,
+      volume: settings.volume,
+      fadeInDuration: settings.fadeInDurationMs,
+      crossFadeDuration: settings.crossFadeDurationMs,
+    },
+    qualityTiers: {
+      defaultTier: SECSTREAM_CONFIG.qualityTiers.defaultTier,
+      selection: { ...SECSTREAM_CONFIG.qualityTiers.selection },
+    },
+  };
+}
+
+// Used by the client until /api/config answers, or if it can't be reached
+export const DEFAULT_CLIENT_SETTINGS: ClientSettings = toClientSettings(DEFAULT_SETTINGS);
@@ -0,0 +1,189 @@
+/**
+ * Health checks for /api/health
+ *
+ * Probes each binding instead of inferring health from its presence:
+ * - R2: head on the catalog manifest key
+ * - KV: read of a probe key
+ * - Session DO: validateSession round-trip on a dedicated instance
+ *
+ * and checks every visible catalog track for its audio, cover and PCM cache
+ * objects. R2, the session DO and track audio are essential (playback breaks
+ * without them); KV, covers and PCM cache only degrade the service.
+ */
+
+import { CATALOG_MANIFEST_KEY, catalogService } from '../catalog/catalog-service.js';
+import { isDevMode } from '../storage/session-storage-adapter.js';
+import { getHealthCheckSessionDO } from '../storage/durable-objects.js';
+import { globalWorkerSessionManager } from '../session/global-session-manager.js';
+
+export type HealthStatus = 'ok' | 'degraded' | 'unhealthy';
+
+export interface CheckResult {
+  ok: boolean;
+  essential: boolean;
+  skipped?: boolean;   // Binding not available in this environment (dev)
+  latencyMs: number;
+  detail?: string;
+}
+
+export interface TrackHealth {
+  id: number;
+  title: string;
+  missing: Array<'audio' | 'cover' | 'pcmCache'>;
+  stalePcmCache?: boolean;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  environment: 'production' | 'development';
+  timestamp: string;
+  checks: Record<string, CheckResult>;
+  catalog: {
+    source: string;
+    tracks: number;
+    tracksWithIssues: TrackHealth[];
+  };
+}
+
+// A binding that takes longer than this to answer counts as down
+const PROBE_TIMEOUT_MS = 5000;
+const PROBE_KEY = 'health-check';
+
+function withTimeout<T>(promise: Promise<T>, label: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${PROBE_TIMEOUT_MS}ms`)), PROBE_TIMEOUT_MS);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Run one probe, timing it and turning failures into a failed check
+ * @param probe - Resolves to an optional detail message
+ */
+async function runCheck(
+  label: string,
+  essential: boolean,
+  probe: () => Promise<string | undefined>
+): Promise<CheckResult> {
+  const startTime = Date.now();
+  try {
+    const detail = await withTimeout(probe(), label);
+    return { ok: true, essential, latencyMs: Date.now() - startTime, detail };
+  } catch (error) {
+    console.error(`❌ Health check ${label} failed:`, error);
+    return {
+      ok: false,
+      essential,
+      latencyMs: Date.now() - startTime,
+      detail: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function skippedCheck(essential: boolean, detail: string): CheckResult {
+  return { ok: true, essential, skipped: true, latencyMs: 0, detail };
+}
+
+/**
+ * Check which objects each visible track is missing
+ */
+async function checkCatalogTracks(bucket: R2Bucket): Promise<TrackHealth[]> {
+  const tracks = await catalogService.getVisibleTracks(bucket);
+
+  const results = await Promise.all(tracks.map(async (track): Promise<TrackHealth> => {
+    const [audio, cover, pcmCache] = await Promise.all([
+      bucket.head(track.audioKey),
+      track.coverKey ? bucket.head(track.coverKey) : Promise.resolve(null),
+      globalWorkerSessionManager.getPcmCacheEntry(track.audioKey, bucket),
+    ]);
+
+    const missing: TrackHealth['missing'] = [];
+    if (!audio) missing.push('audio');
+    if (track.coverKey && !cover) missing.push('cover');
+    if (!pcmCache) missing.push('pcmCache');
+
+    return {
+      id: track.id,
+      title: track.title,
+      missing,
+      ...(pcmCache?.stale ? { stalePcmCache: true } : {}),
+    };
+  }));
+
+  return results.filter(track => track.missing.length > 0 || track.stalePcmCache);
+}
+
+/**
+ * Probe every binding and the catalog
+ */
+export async function runHealthChecks(locals: App.Locals): Promise<HealthReport> {
+  const env = locals.runtime?.env;
+  const bucket = env?.AUDIO_BUCKET;
+  const devMode = isDevMode(locals);
+  const checks: Record<string, CheckResult> = {};
+
+  let tracksWithIssues: TrackHealth[] = [];
+
+  const [r2, kv, sessionStorage] = await Promise.all([
+    bucket
+      ? runCheck('R2', true, async () => {
+        const manifest = await bucket.head(CATALOG_MANIFEST_KEY);
+        return manifest ? undefined : 'Catalog manifest not found, using the built-in catalog';
+      })
+      : Promise.resolve(devMode
+        ? skippedCheck(true, 'AUDIO_BUCKET not bound (dev mode)')
+        : { ok: false, essential: true, latencyMs: 0, detail: 'AUDIO_BUCKET not bound' }),
+
+    env?.RATE_LIMIT_KV
+      ? runCheck('KV', false, async () => {
+        await env.RATE_LIMIT_KV.get(PROBE_KEY);
+        return undefined;
+      })
+      : Promise.resolve(skippedCheck(false, 'RATE_LIMIT_KV not bound')),
+
+    devMode
+      ? Promise.resolve(skippedCheck(true, 'In-memory session storage (dev mode)'))
+      : runCheck('session DO', true, async () => {
+        // Any answer means the DO was reached; the probe instance never holds a session
+        await getHealthCheckSessionDO(env.SECSTREAM_SESSIONS).validateSession(PROBE_KEY);
+        return undefined;
+      }),
+  ]);
+
+  checks.r2 = r2;
+  checks.kv = kv;
+  checks.sessionStorage = sessionStorage;
+
+  if (bucket && r2.ok) {
+    checks.catalogAudio = await runCheck('catalog', true, async () => {
+      tracksWithIssues = await checkCatalogTracks(bucket);
+      const missingAudio = tracksWithIssues.filter(track => track.missing.includes('audio'));
+      if (missingAudio.length > 0) {
+        throw new Error(`${missingAudio.length} track(s) missing audio`);
+      }
+      return undefined;
+    });
+  }
+
+  const catalog = await catalogService.getCatalog(bucket);
+  const visibleTracks = catalog.manifest.tracks.filter(track => !track.hidden).length;
+  const failed = Object.values(checks).filter(check => !check.ok);
+  const degraded = failed.length > 0 || tracksWithIssues.length > 0;
+
+  const status: HealthStatus = failed.some(check => check.essential)
+    ? 'unhealthy'
+    : degraded ? 'degraded' : 'ok';
+
+  return {
+    status,
+    environment: devMode ? 'development' : 'production',
+    timestamp: new Date().toISOString(),
+    checks,
+    catalog: {
+      source: catalog.source,
+      tracks: visibleTracks,
+      tracksWithIssues,
+    },
+  };
+}
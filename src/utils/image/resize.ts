@@ -0,0 +1,79 @@
+/**
+ * Minimal image resizing for cover artwork
+ *
+ * Covers are decoded to RGBA ImageData by @jsquash, so resizing is done
+ * directly on the pixel buffer with a box (area-average) filter. This is
+ * only used for downscaling square-ish artwork, where a box filter gives
+ * clean results without pulling in another WASM codec.
+ */
+
+// Sizes served by /api/covers?size=N (used for Media Session artwork)
+export const COVER_SIZES = [96, 128, 192, 256, 384, 512] as const;
+
+export type CoverSize = (typeof COVER_SIZES)[number];
+
+/**
+ * Parse and validate a requested cover size
+ * @returns The size, or null if missing or not one of COVER_SIZES
+ */
+export function parseCoverSize(value: string | null): CoverSize | null {
+  if (!value) return null;
+  const size = parseInt(value, 10);
+  return (COVER_SIZES as readonly number[]).includes(size) ? (size as CoverSize) : null;
+}
+
+/**
+ * Downscale an image so its longest side equals maxSize
+ * Images already within maxSize are returned unchanged
+ */
+export function downscaleImage(image: ImageData, maxSize: number): ImageData {
+  const { width, height, data } = image;
+  const scale = maxSize / Math.max(width, height);
+  if (scale >= 1) {
+    return image;
+  }
+
+  const targetWidth = Math.max(1, Math.round(width * scale));
+  const targetHeight = Math.max(1, Math.round(height * scale));
+  const output = new Uint8ClampedArray(targetWidth * targetHeight * 4);
+
+  const xRatio = width / targetWidth;
+  const yRatio = height / targetHeight;
+
+  for (let ty = 0; ty < targetHeight; ty++) {
+    const yStart = Math.floor(ty * yRatio);
+    const yEnd = Math.min(height, Math.max(yStart + 1, Math.floor((ty + 1) * yRatio)));
+
+    for (let tx = 0; tx < targetWidth; tx++) {
+      const xStart = Math.floor(tx * xRatio);
+      const xEnd = Math.min(width, Math.max(xStart + 1, Math.floor((tx + 1) * xRatio)));
+
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let y = yStart; y < yEnd; y++) {
+        let index = (y * width + xStart) * 4;
+        for (let x = xStart; x < xEnd; x++) {
+          r += data[index];
+          g += data[index + 1];
+          b += data[index + 2];
+          a += data[index + 3];
+          index += 4;
+        }
+      }
+
+      const count = (yEnd - yStart) * (xEnd - xStart);
+      const outIndex = (ty * targetWidth + tx) * 4;
+      output[outIndex] = r / count;
+      output[outIndex + 1] = g / count;
+      output[outIndex + 2] = b / count;
+      output[outIndex + 3] = a / count;
+    }
+  }
+
+  // ImageData constructor is not available in every runtime - the encoders only need the shape
+  return {
+    data: output,
+    width: targetWidth,
+    height: targetHeight,
+    colorSpace: 'srgb',
+  } as ImageData;
+}
@@ -0,0 +1,82 @@
+/**
+ * Aggregated request counters across isolates
+ * Shared by the MetricsCollector Durable Object (production) and the
+ * in-memory aggregator used in local dev.
+ *
+ * Keeps all-time totals plus per-minute buckets for the last hour, so recent
+ * rates can be read back.
+ */
+
+import { mergeBatch } from './route-metrics';
+import type { MetricsBatch } from './route-metrics';
+
+export interface MetricsSummary {
+  since: number;
+  totals: MetricsBatch;
+  lastHour: MetricsBatch;
+  lastFiveMinutes: MetricsBatch;
+}
+
+const MINUTE_MS = 60 * 1000;
+const RETAINED_MINUTES = 60;
+
+export class MetricsAggregator {
+  private minutes = new Map<number, MetricsBatch>();
+
+  constructor(
+    readonly since: number = Date.now(),
+    private totals: MetricsBatch = {}
+  ) {}
+
+  /**
+   * Add a batch of counters reported by an isolate
+   */
+  add(batch: MetricsBatch, now: number = Date.now()): void {
+    mergeBatch(this.totals, batch);
+
+    const minute = Math.floor(now / MINUTE_MS);
+    let bucket = this.minutes.get(minute);
+    if (!bucket) {
+      bucket = {};
+      this.minutes.set(minute, bucket);
+    }
+    mergeBatch(bucket, batch);
+    this.prune(now);
+  }
+
+  private prune(now: number): void {
+    const oldest = Math.floor(now / MINUTE_MS) - RETAINED_MINUTES;
+    for (const minute of this.minutes.keys()) {
+      if (minute <= oldest) {
+        this.minutes.delete(minute);
+      }
+    }
+  }
+
+  /**
+   * Counters over the most recent window (minute resolution, up to an hour)
+   */
+  recent(windowMs: number, now: number = Date.now()): MetricsBatch {
+    const first = Math.floor((now - windowMs) / MINUTE_MS) + 1;
+    const batch: MetricsBatch = {};
+    for (const [minute, counters] of this.minutes) {
+      if (minute >= first) {
+        mergeBatch(batch, counters);
+      }
+    }
+    return batch;
+  }
+
+  getTotals(): MetricsBatch {
+    return this.totals;
+  }
+
+  summary(now: number = Date.now()): MetricsSummary {
+    return {
+      since: this.since,
+      totals: this.totals,
+      lastHour: this.recent(RETAINED_MINUTES * MINUTE_MS, now),
+      lastFiveMinutes: this.recent(5 * MINUTE_MS, now),
+    };
+  }
+}
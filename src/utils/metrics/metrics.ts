@@ -0,0 +1,110 @@
+/**
+ * Request metrics recording and aggregation
+ *
+ * - Production: counters are flushed from each isolate to the MetricsCollector
+ *   DO at most every FLUSH_INTERVAL_MS, in the background (ctx.waitUntil)
+ * - Development: flushed straight into an in-memory aggregator
+ *
+ * Recording never fails a request: flush errors are logged and the counters
+ * kept for the next flush.
+ */
+
+import { isDevMode } from '../storage/session-storage-adapter.js';
+import { getMetricsCollector } from '../storage/durable-objects.js';
+import { MetricsAggregator } from './metrics-aggregator';
+import type { MetricsSummary } from './metrics-aggregator';
+import { emptyCounters, routeMetrics } from './route-metrics';
+import type { RouteCounters } from './route-metrics';
+
+export type { MetricsSummary };
+
+const FLUSH_INTERVAL_MS = 10 * 1000;
+
+// In-memory aggregator for local dev
+const devAggregator = new MetricsAggregator();
+
+let lastFlushAt = 0;
+
+/**
+ * Record a finished /api request
+ * @param route - Route pattern, so every session ID counts as one route
+ */
+export function recordRequest(route: string, status: number, durationMs: number, locals: App.Locals): void {
+  routeMetrics.record(route, status, durationMs);
+
+  const now = Date.now();
+  if (now - lastFlushAt < FLUSH_INTERVAL_MS) {
+    return;
+  }
+  lastFlushAt = now;
+
+  const batch = routeMetrics.drainPending();
+  if (!batch) {
+    return;
+  }
+
+  if (isDevMode(locals)) {
+    devAggregator.add(batch, now);
+    return;
+  }
+
+  const namespace = locals.runtime?.env?.METRICS_COLLECTOR;
+  if (!namespace) {
+    return;
+  }
+
+  const flush = getMetricsCollector(namespace).record(batch).catch((error: unknown) => {
+    console.error('❌ Failed to flush metrics, keeping them for the next flush:', error);
+    routeMetrics.restorePending(batch);
+  });
+  locals.runtime.ctx.waitUntil(flush);
+}
+
+/**
+ * Metrics aggregated across isolates
+ * @returns null if the collector is not bound or unreachable
+ */
+export async function getAggregatedMetrics(locals: App.Locals): Promise<MetricsSummary | null> {
+  if (isDevMode(locals)) {
+    return devAggregator.summary();
+  }
+
+  const namespace = locals.runtime?.env?.METRICS_COLLECTOR;
+  if (!namespace) {
+    return null;
+  }
+
+  try {
+    return await getMetricsCollector(namespace).getSummary();
+  } catch (error) {
+    console.error('❌ Failed to read aggregated metrics:', error);
+    return null;
+  }
+}
+
+/**
+ * Counters for one route across isolates over a recent window (minute resolution)
+ * @returns null if the collector is not bound or unreachable
+ */
+export async function getRecentRouteCounts(
+  route: string,
+  windowMs: number,
+  locals: App.Locals
+): Promise<RouteCounters | null> {
+  if (isDevMode(locals)) {
+    return devAggregator.recent(windowMs)[route] ?? emptyCounters();
+  }
+
+  const namespace = locals.runtime?.env?.METRICS_COLLECTOR;
+  if (!namespace) {
+    return null;
+  }
+
+  try {
+    const recent = await getMetricsCollector(namespace).getRecentCounts(windowMs);
+    return recent[route] ?? emptyCounters();
+  } catch (error) {
+    console.error('❌ Failed to read recent metrics:', error);
+    return null;
+  }
+}
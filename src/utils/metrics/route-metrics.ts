@@ -0,0 +1,152 @@
+/**
+ * Per-route request metrics for this isolate
+ *
+ * Every /api request is recorded by the middleware (see src/middleware.ts):
+ * - Counters and a bounded window of recent latencies per route, for the
+ *   percentiles reported by /api/stats
+ * - Pending counters, drained periodically into the MetricsCollector DO so
+ *   totals survive isolate recycling and cover every isolate
+ */
+
+export interface RouteCounters {
+  requests: number;
+  clientErrors: number;   // 4xx
+  serverErrors: number;   // 5xx
+  totalMs: number;
+}
+
+// Counters keyed by route pattern (e.g. '/api/sessions/[sessionId]/info')
+export type MetricsBatch = Record<string, RouteCounters>;
+
+export interface LatencyPercentiles {
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+export interface RouteStats extends RouteCounters {
+  averageMs: number;
+  latencyMs: LatencyPercentiles;  // Over the most recent samples
+  samples: number;
+}
+
+interface RouteEntry {
+  counters: RouteCounters;
+  samples: number[];   // Ring buffer of recent durations
+  nextSample: number;
+}
+
+// Latency samples kept per route
+const MAX_SAMPLES = 500;
+
+export function emptyCounters(): RouteCounters {
+  return { requests: 0, clientErrors: 0, serverErrors: 0, totalMs: 0 };
+}
+
+/**
+ * Add one batch of counters into another (in place)
+ */
+export function mergeBatch(target: MetricsBatch, source: MetricsBatch): MetricsBatch {
+  for (const [route, counters] of Object.entries(source)) {
+    const existing = target[route] ?? (target[route] = emptyCounters());
+    existing.requests += counters.requests;
+    existing.clientErrors += counters.clientErrors;
+    existing.serverErrors += counters.serverErrors;
+    existing.totalMs += counters.totalMs;
+  }
+  return target;
+}
+
+function countRequest(counters: RouteCounters, status: number, durationMs: number): void {
+  counters.requests++;
+  counters.totalMs += durationMs;
+  if (status >= 500) {
+    counters.serverErrors++;
+  } else if (status >= 400) {
+    counters.clientErrors++;
+  }
+}
+
+/**
+ * Nearest-rank percentile of a sorted array
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank))];
+}
+
+export class RouteMetrics {
+  readonly since = Date.now();
+  private routes = new Map<string, RouteEntry>();
+  private pending: MetricsBatch = {};
+
+  /**
+   * Record one finished request
+   */
+  record(route: string, status: number, durationMs: number): void {
+    let entry = this.routes.get(route);
+    if (!entry) {
+      entry = { counters: emptyCounters(), samples: [], nextSample: 0 };
+      this.routes.set(route, entry);
+    }
+
+    countRequest(entry.counters, status, durationMs);
+    countRequest(this.pending[route] ?? (this.pending[route] = emptyCounters()), status, durationMs);
+
+    if (entry.samples.length < MAX_SAMPLES) {
+      entry.samples.push(durationMs);
+    } else {
+      entry.samples[entry.nextSample] = durationMs;
+      entry.nextSample = (entry.nextSample + 1) % MAX_SAMPLES;
+    }
+  }
+
+  /**
+   * Counters and latency percentiles per route since this isolate started
+   */
+  getStats(): Record<string, RouteStats> {
+    const stats: Record<string, RouteStats> = {};
+
+    for (const [route, { counters, samples }] of this.routes) {
+      const sorted = [...samples].sort((a, b) => a - b);
+      stats[route] = {
+        ...counters,
+        averageMs: counters.requests > 0 ? Math.round(counters.totalMs / counters.requests) : 0,
+        latencyMs: {
+          p50: percentile(sorted, 50),
+          p90: percentile(sorted, 90),
+          p99: percentile(sorted, 99),
+          max: sorted.length > 0 ? sorted[sorted.length - 1] : 0,
+        },
+        samples: sorted.length,
+      };
+    }
+
+    return stats;
+  }
+
+  /**
+   * Take the counters recorded since the last drain
+   * @returns null if nothing was recorded
+   */
+  drainPending(): MetricsBatch | null {
+    if (Object.keys(this.pending).length === 0) {
+      return null;
+    }
+    const batch = this.pending;
+    this.pending = {};
+    return batch;
+  }
+
+  /**
+   * Put back a drained batch that could not be delivered
+   */
+  restorePending(batch: MetricsBatch): void {
+    mergeBatch(this.pending, batch);
+  }
+}
+
+// Global instance (one per worker isolate)
+export const routeMetrics = new RouteMetrics();
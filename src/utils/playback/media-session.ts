@@ -0,0 +1,220 @@
+import { BRAND_CONFIG } from '../../constants/links';
+import type { AudioTrack } from '../../constants/playlist';
+import { PlayState } from '../../constants/playlist';
+import { COVER_SIZES } from '../image/resize';
+
+/**
+ * Media Session API integration
+ *
+ * Publishes track metadata and playback position to the OS so lock screens,
+ * Bluetooth headsets and hardware media keys can control the player.
+ * All functions are no-ops when the API is not available.
+ */
+
+export interface MediaSessionHandlers {
+  play: () => void;
+  pause: () => void;
+  nextTrack: () => void;
+  prevTrack: () => void;
+  seekTo: (time: number) => void;
+  seekBy: (deltaSeconds: number) => void;
+}
+
+// Default skip for seekbackward/seekforward when the OS doesn't provide an offset
+const DEFAULT_SEEK_OFFSET_SECONDS = 10;
+
+// Silent <audio> element that anchors the media session
+// Playback runs through Web Audio only, and some browsers (notably Chrome on
+// Android) only show media controls while a media element is playing
+let anchorElement: HTMLAudioElement | null = null;
+let anchorUrl: string | null = null;
+
+export function isMediaSessionSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+}
+
+/**
+ * Create a short silent WAV (1 second, 8 kHz mono, 16-bit)
+ */
+function createSilentWavUrl(): string {
+  const sampleRate = 8000;
+  const dataLength = sampleRate * 2;
+  const buffer = new ArrayBuffer(44 + dataLength);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  return URL.createObjectURL(new Blob([buffer], { type: 'audio/wav' }));
+}
+
+/**
+ * Start or stop the silent anchor element along with real playback
+ */
+export function setMediaSessionAnchorPlaying(playing: boolean): void {
+  if (!isMediaSessionSupported() || typeof document === 'undefined') return;
+
+  if (!anchorElement) {
+    if (!playing) return;
+    anchorElement = document.createElement('audio');
+    anchorUrl = createSilentWavUrl();
+    anchorElement.src = anchorUrl;
+    anchorElement.loop = true;
+  }
+
+  if (playing) {
+    anchorElement.play().catch((error) => {
+      // Blocked until a user gesture - the next toggle will retry
+      console.warn('⚠️ Media session anchor could not start:', error);
+    });
+  } else {
+    anchorElement.pause();
+  }
+}
+
+/**
+ * Stop the silent anchor element and free its blob URL
+ */
+export function releaseMediaSessionAnchor(): void {
+  if (anchorElement) {
+    anchorElement.pause();
+    anchorElement.removeAttribute('src');
+    anchorElement = null;
+  }
+  if (anchorUrl) {
+    URL.revokeObjectURL(anchorUrl);
+    anchorUrl = null;
+  }
+}
+
+/**
+ * Build artwork entries for a track in every served cover size
+ */
+function getArtwork(track: AudioTrack): MediaImage[] {
+  if (!track.coverKey) {
+    return [{ src: '/favicon.png' }];
+  }
+
+  const coverUrl = `/api/covers/${track.coverKey.split('/').pop()}`;
+  return COVER_SIZES.map((size) => ({
+    src: `${coverUrl}?size=${size}`,
+    sizes: `${size}x${size}`,
+  }));
+}
+
+/**
+ * Publish metadata for the current track
+ */
+export function updateMediaSessionMetadata(track: AudioTrack | null): void {
+  if (!isMediaSessionSupported()) return;
+
+  if (!track) {
+    navigator.mediaSession.metadata = null;
+    return;
+  }
+
+  navigator.mediaSession.metadata = new MediaMetadata({
+    title: track.title,
+    artist: BRAND_CONFIG.name,
+    album: BRAND_CONFIG.name,
+    artwork: getArtwork(track),
+  });
+}
+
+/**
+ * Reflect the player state in the OS media controls
+ */
+export function updateMediaSessionPlaybackState(playState: PlayState): void {
+  if (!isMediaSessionSupported()) return;
+
+  if (playState === PlayState.PLAYING) {
+    navigator.mediaSession.playbackState = 'playing';
+  } else if (playState === PlayState.PAUSED) {
+    navigator.mediaSession.playbackState = 'paused';
+  } else {
+    navigator.mediaSession.playbackState = 'none';
+  }
+}
+
+/**
+ * Update the position shown on lock screens / media overlays
+ */
+export function updateMediaSessionPositionState(duration: number, position: number, playbackRate: number = 1): void {
+  if (!isMediaSessionSupported() || !('setPositionState' in navigator.mediaSession)) return;
+
+  try {
+    if (!duration || !isFinite(duration)) {
+      // Clears the position state until the duration is known
+      navigator.mediaSession.setPositionState();
+      return;
+    }
+
+    navigator.mediaSession.setPositionState({
+      duration,
+      playbackRate,
+      position: Math.max(0, Math.min(position, duration)),
+    });
+  } catch (error) {
+    console.warn('⚠️ Failed to update media session position state:', error);
+  }
+}
+
+/**
+ * Register action handlers mapped onto the player controls
+ * @returns Cleanup function that unregisters all handlers
+ */
+export function registerMediaSessionHandlers(handlers: MediaSessionHandlers): () => void {
+  if (!isMediaSessionSupported()) {
+    return () => {};
+  }
+
+  const actions: [MediaSessionAction, MediaSessionActionHandler][] = [
+    ['play', () => handlers.play()],
+    ['pause', () => handlers.pause()],
+    ['nexttrack', () => handlers.nextTrack()],
+    ['previoustrack', () => handlers.prevTrack()],
+    ['seekto', (details) => {
+      if (details.seekTime !== undefined) {
+        handlers.seekTo(details.seekTime);
+      }
+    }],
+    ['seekbackward', (details) => handlers.seekBy(-(details.seekOffset ?? DEFAULT_SEEK_OFFSET_SECONDS))],
+    ['seekforward', (details) => handlers.seekBy(details.seekOffset ?? DEFAULT_SEEK_OFFSET_SECONDS)],
+  ];
+
+  const registered: MediaSessionAction[] = [];
+  for (const [action, handler] of actions) {
+    try {
+      navigator.mediaSession.setActionHandler(action, handler);
+      registered.push(action);
+    } catch {
+      // Action not supported by this browser
+    }
+  }
+
+  return () => {
+    for (const action of registered) {
+      try {
+        navigator.mediaSession.setActionHandler(action, null);
+      } catch {
+        // Ignore - browser may not allow clearing
+      }
+    }
+  };
+}
@@ -0,0 +1,176 @@
+import { AUDIO_CONFIG, PlayMode } from '../../constants/playlist';
+
+/**
+ * Play mode helpers for the artist page player
+ *
+ * - Persists the listener's chosen mode in localStorage
+ * - Provides the mode cycling order used by the UI toggle
+ * - Tracks a non-repeating shuffle order with history, so "previous"
+ *   walks back through what was actually played
+ */
+
+const PLAY_MODE_STORAGE_KEY = 'messlines:play-mode';
+
+// Order used when cycling through modes with the toggle
+export const PLAY_MODE_ORDER: PlayMode[] = [
+  PlayMode.SEQUENTIAL,
+  PlayMode.SHUFFLE,
+  PlayMode.SINGLE_LOOP,
+];
+
+/**
+ * Default mode when nothing has been persisted yet
+ */
+export function getDefaultPlayMode(): PlayMode {
+  return AUDIO_CONFIG.shufflePlay ? PlayMode.SHUFFLE : PlayMode.SEQUENTIAL;
+}
+
+function isPlayMode(value: unknown): value is PlayMode {
+  return PLAY_MODE_ORDER.includes(value as PlayMode);
+}
+
+/**
+ * Load the persisted play mode (falls back to the configured default)
+ */
+export function loadPlayMode(): PlayMode {
+  if (typeof window === 'undefined') {
+    return getDefaultPlayMode();
+  }
+
+  try {
+    const stored = window.localStorage.getItem(PLAY_MODE_STORAGE_KEY);
+    if (isPlayMode(stored)) {
+      return stored;
+    }
+  } catch (error) {
+    // localStorage can throw in private mode or when storage is disabled
+    console.warn('⚠️ Failed to read play mode from localStorage:', error);
+  }
+
+  return getDefaultPlayMode();
+}
+
+/**
+ * Persist the play mode
+ */
+export function savePlayMode(mode: PlayMode): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(PLAY_MODE_STORAGE_KEY, mode);
+  } catch (error) {
+    console.warn('⚠️ Failed to save play mode to localStorage:', error);
+  }
+}
+
+/**
+ * Get the mode that follows the given one in the toggle cycle
+ */
+export function getNextPlayMode(mode: PlayMode): PlayMode {
+  const index = PLAY_MODE_ORDER.indexOf(mode);
+  return PLAY_MODE_ORDER[(index + 1) % PLAY_MODE_ORDER.length];
+}
+
+/**
+ * Non-repeating shuffle order with playback history
+ *
+ * Every track is played once per cycle before any track repeats.
+ * Going back moves a cursor through the history; going forward again
+ * replays that history before drawing new random tracks.
+ */
+export class ShuffleHistory {
+  private history: number[] = [];
+  private cursor = -1;
+  private remaining: number[] = [];
+  private trackCount: number;
+
+  // Keep history bounded for long listening sessions
+  private readonly MAX_HISTORY = 200;
+
+  constructor(trackCount: number) {
+    this.trackCount = trackCount;
+  }
+
+  /**
+   * Start a new shuffle cycle with the given track as the first played track
+   */
+  reset(currentIndex: number, trackCount: number = this.trackCount): void {
+    this.trackCount = trackCount;
+    this.history = [currentIndex];
+    this.cursor = 0;
+    this.remaining = this.createPool(currentIndex);
+  }
+
+  /**
+   * Pick a random starting track and reset the cycle around it
+   */
+  start(trackCount: number = this.trackCount): number {
+    const firstIndex = trackCount > 0 ? Math.floor(Math.random() * trackCount) : 0;
+    this.reset(firstIndex, trackCount);
+    return firstIndex;
+  }
+
+  /**
+   * Get the next track index
+   * @param loop - Start a new cycle when every track has been played
+   * @returns Track index, or null when the cycle is finished and loop is off
+   */
+  next(loop: boolean): number | null {
+    if (this.trackCount === 0) return null;
+
+    // Replay forward through history after the listener went back
+    if (this.cursor < this.history.length - 1) {
+      this.cursor++;
+      return this.history[this.cursor];
+    }
+
+    if (this.remaining.length === 0) {
+      if (!loop) {
+        return null;
+      }
+      // New cycle - avoid repeating the track that just played
+      this.remaining = this.createPool(this.history[this.cursor]);
+      if (this.remaining.length === 0) {
+        // Single-track playlist
+        return this.history[this.cursor];
+      }
+    }
+
+    const nextIndex = this.remaining.pop()!;
+    this.history.push(nextIndex);
+    if (this.history.length > this.MAX_HISTORY) {
+      this.history.shift();
+    }
+    this.cursor = this.history.length - 1;
+    return nextIndex;
+  }
+
+  /**
+   * Get the previously played track index
+   * @returns Track index, or null when at the start of the history
+   */
+  prev(): number | null {
+    if (this.cursor <= 0) {
+      return null;
+    }
+    this.cursor--;
+    return this.history[this.cursor];
+  }
+
+  /**
+   * Build a shuffled pool of all tracks except the excluded one
+   */
+  private createPool(excludeIndex: number): number[] {
+    const pool: number[] = [];
+    for (let i = 0; i < this.trackCount; i++) {
+      if (i !== excludeIndex) {
+        pool.push(i);
+      }
+    }
+    for (let i = pool.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    return pool;
+  }
+}
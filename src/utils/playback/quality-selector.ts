@@ -0,0 +1,180 @@
+import { DEFAULT_CLIENT_SETTINGS } from '../config/settings';
+import type { ClientSettings } from '../config/settings';
+import type { QualityTierId, QualityTierInfo } from '../audio/quality-tiers';
+
+/**
+ * Adaptive quality tier selection for the artist page player
+ *
+ * - Keeps a smoothed estimate of slice download throughput (bytes/s)
+ * - Estimates each tier's bitrate from the slices actually downloaded
+ *   (compressed and encrypted bytes per second of audio), scaled by the
+ *   relative bitrates the server advertises
+ * - Drops straight to the best tier the connection sustains with headroom,
+ *   but climbs one tier at a time and only with more headroom, so it
+ *   doesn't flap
+ * - Starts from the browser's network hints until something is measured, or
+ *   where there are none, from how fast the page itself downloaded
+ *
+ * Throughput is measured per request, so overlapping prefetches make it
+ * conservative rather than optimistic. Thresholds come from the player
+ * settings (/api/config), the slice duration from the session info.
+ */
+
+export interface SliceDownloadSample {
+  tier: QualityTierId;
+  bytes: number;
+  durationMs: number;
+  sliceDurationMs: number;  // Audio per slice in the sample's session
+}
+
+// Subset of the Network Information API (not in every browser or in the DOM typings)
+interface NetworkInformationHint {
+  saveData?: boolean;
+  effectiveType?: string;
+}
+
+// Smaller downloads are dominated by latency rather than throughput
+const PROBE_MIN_TRANSFER_BYTES = 32 * 1024;
+
+/**
+ * Throughput of the page's own downloads so far, from Resource Timing
+ * Costs no extra request; cached and opaque cross-origin entries report no size and are skipped
+ * @returns bytes/s, or null when nothing sizeable was downloaded
+ */
+function probePageThroughput(): number | null {
+  if (typeof performance === 'undefined' || typeof performance.getEntriesByType !== 'function') {
+    return null;
+  }
+
+  const entries = [
+    ...performance.getEntriesByType('navigation'),
+    ...performance.getEntriesByType('resource'),
+  ] as PerformanceResourceTiming[];
+
+  let bytes = 0;
+  let ms = 0;
+  for (const entry of entries) {
+    const duration = entry.responseEnd - entry.responseStart;
+    if (entry.transferSize >= PROBE_MIN_TRANSFER_BYTES && duration > 0) {
+      bytes += entry.transferSize;
+      ms += duration;
+    }
+  }
+
+  return ms > 0 ? bytes / (ms / 1000) : null;
+}
+
+/**
+ * Tier to start with, before any slice has been measured
+ */
+export function getInitialQualityTier(
+  defaultTier: QualityTierId = DEFAULT_CLIENT_SETTINGS.qualityTiers.defaultTier,
+  selection: ClientSettings['qualityTiers']['selection'] = DEFAULT_CLIENT_SETTINGS.qualityTiers.selection
+): QualityTierId {
+  const connection = typeof navigator !== 'undefined'
+    ? (navigator as Navigator & { connection?: NetworkInformationHint }).connection
+    : undefined;
+
+  if (connection?.saveData || connection?.effectiveType === 'slow-2g' || connection?.effectiveType === '2g') {
+    return 'low';
+  }
+  if (connection?.effectiveType === '3g') {
+    return 'medium';
+  }
+  if (connection?.effectiveType) {
+    return defaultTier;
+  }
+
+  // No network hints (Safari, Firefox): probe
+  const throughput = probePageThroughput();
+  if (throughput === null) {
+    return defaultTier;
+  }
+
+  const tier = throughput < selection.probeLowBelowBytesPerSecond ? 'low'
+    : throughput < selection.probeMediumBelowBytesPerSecond ? 'medium'
+    : defaultTier;
+  console.log(`📶 Initial quality tier ${tier} (page downloads at ${Math.round(throughput / 1024)} KB/s)`);
+  return tier;
+}
+
+export class QualitySelector {
+  // Advertised by the server, best first
+  private tiers: QualityTierInfo[] = [];
+  private tier: QualityTierId;
+  private throughput: number | null = null;
+  // Slice bytes per second of audio at relative bitrate 1
+  private fullBitrate: number | null = null;
+  private samplesSinceSwitch = 0;
+
+  constructor(
+    private readonly settings: Pick<ClientSettings, 'qualityTiers'> = DEFAULT_CLIENT_SETTINGS,
+    initialTier: QualityTierId = getInitialQualityTier(settings.qualityTiers.defaultTier, settings.qualityTiers.selection)
+  ) {
+    this.tier = initialTier;
+  }
+
+  /**
+   * Tiers the server offers
+   * Falls back to the best one if the current choice isn't among them
+   */
+  setTiers(tiers: QualityTierInfo[]): void {
+    this.tiers = tiers;
+    if (tiers.length > 0 && !tiers.some(t => t.id === this.tier)) {
+      this.tier = tiers[0].id;
+    }
+  }
+
+  getTier(): QualityTierId {
+    return this.tier;
+  }
+
+  getTierInfo(tierId: QualityTierId): QualityTierInfo | null {
+    return this.tiers.find(t => t.id === tierId) ?? null;
+  }
+
+  /**
+   * Record a slice download and re-evaluate the tier
+   * @returns the new tier when the selection changed, otherwise null
+   */
+  recordSlice(sample: SliceDownloadSample): QualityTierId | null {
+    const info = this.getTierInfo(sample.tier);
+    if (!info || sample.bytes <= 0) return null;
+
+    const { smoothing, minSamples } = this.settings.qualityTiers.selection;
+    const throughput = sample.bytes / (Math.max(1, sample.durationMs) / 1000);
+    const fullBitrate = sample.bytes / (sample.sliceDurationMs / 1000) / info.relativeBitrate;
+
+    this.throughput = this.throughput === null ? throughput : smoothing * throughput + (1 - smoothing) * this.throughput;
+    this.fullBitrate = this.fullBitrate === null ? fullBitrate : smoothing * fullBitrate + (1 - smoothing) * this.fullBitrate;
+    this.samplesSinceSwitch++;
+
+    if (this.samplesSinceSwitch < minSamples) return null;
+
+    const next = this.chooseTier(this.throughput, this.fullBitrate);
+    if (next === this.tier) return null;
+
+    console.log(`📶 Quality tier ${this.tier} -> ${next} (throughput ${Math.round(this.throughput / 1024)} KB/s)`);
+    this.tier = next;
+    this.samplesSinceSwitch = 0;
+    return next;
+  }
+
+  private chooseTier(throughput: number, fullBitrate: number): QualityTierId {
+    const { downgradeHeadroom, upgradeHeadroom } = this.settings.qualityTiers.selection;
+    const index = this.tiers.findIndex(t => t.id === this.tier);
+    if (index === -1) return this.tier;
+
+    const sustains = (tier: QualityTierInfo, headroom: number) => throughput >= fullBitrate * tier.relativeBitrate * headroom;
+
+    // Current tier keeps up: climb one tier if there is plenty of room
+    if (sustains(this.tiers[index], downgradeHeadroom)) {
+      const better = this.tiers[index - 1];
+      return better && sustains(better, upgradeHeadroom) ? better.id : this.tier;
+    }
+
+    // It doesn't: the best lower tier that does, or the lowest
+    const lower = this.tiers.slice(index + 1);
+    return (lower.find(t => sustains(t, downgradeHeadroom)) ?? lower[lower.length - 1] ?? this.tiers[index]).id;
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Per-client rate limiting
+ *
+ * - Production: RateLimiter Durable Object, one instance per client identity
+ * - Development: in-memory sliding windows (same algorithm)
+ *
+ * Each route consumes from its own budget (see RATE_LIMIT_CONFIG), so heavy
+ * slice fetching never blocks a client from creating a session and vice versa.
+ */
+
+import { RATE_LIMIT_CONFIG } from '../../constants/security';
+import type { RateLimitBucket } from '../../constants/security';
+import { isDevMode } from '../storage/session-storage-adapter.js';
+import { apiError, ApiErrorCode } from '../api/api-error';
+import { SlidingWindowLimiter } from './sliding-window';
+import type { RateLimitResult } from './sliding-window';
+import type { RateLimiter } from '../../durable-objects/RateLimiter.js';
+
+export type { RateLimitResult };
+
+// In-memory limiter for local dev
+const devLimiter = new SlidingWindowLimiter();
+
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Get the client's IP address
+ * CF-Connecting-IP is set by Cloudflare; X-Forwarded-For only matters in local dev
+ */
+export function getClientIp(request: Request): string {
+  return request.headers.get('CF-Connecting-IP')
+    || request.headers.get('X-Forwarded-For')?.split(',')[0].trim()
+    || 'unknown';
+}
+
+/**
+ * Derive a stable, non-reversible identity for the requesting client
+ */
+export async function getClientIdentity(request: Request): Promise<string> {
+  const ip = getClientIp(request);
+
+  if (RATE_LIMIT_CONFIG.identity === 'ip') {
+    return `ip:${await sha256Hex(ip)}`;
+  }
+
+  const userAgent = request.headers.get('User-Agent') || '';
+  return `ip-ua:${await sha256Hex(`${ip}|${userAgent}`)}`;
+}
+
+/**
+ * Consume one request from a client's budget
+ * Fails open (allows the request) if the limiter is unavailable
+ */
+export async function checkRateLimit(
+  bucket: RateLimitBucket,
+  request: Request,
+  locals: App.Locals
+): Promise<RateLimitResult> {
+  const { limit, windowMs } = RATE_LIMIT_CONFIG.budgets[bucket];
+  const allowAll: RateLimitResult = { allowed: true, limit, remaining: limit, retryAfterMs: 0 };
+
+  if (!RATE_LIMIT_CONFIG.enabled) {
+    return allowAll;
+  }
+
+  const identity = await getClientIdentity(request);
+
+  if (isDevMode(locals)) {
+    devLimiter.cleanup(windowMs);
+    return devLimiter.consume(`${identity}:${bucket}`, limit, windowMs);
+  }
+
+  const namespace = locals.runtime.env.RATE_LIMITER;
+  if (!namespace) {
+    console.error('❌ Rate limiter DO not available');
+    // Continue without rate limiting if the binding is missing
+    return allowAll;
+  }
+
+  try {
+    const stub = namespace.get(namespace.idFromName(identity)) as DurableObjectStub<RateLimiter>;
+    return await stub.consume(bucket, limit, windowMs);
+  } catch (error) {
+    console.error(`❌ Rate limiter error (${bucket}), allowing request:`, error);
+    return allowAll;
+  }
+}
+
+/**
+ * 429 response with Retry-After (seconds, rounded up)
+ */
+export function rateLimitResponse(result: RateLimitResult): Response {
+  const retryAfterSeconds = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+
+  return apiError(ApiErrorCode.RATE_LIMITED, 'Too many requests', {
+    message: 'Please try again later.',
+    retryAfter: retryAfterSeconds,
+    headers: {
+      'Retry-After': retryAfterSeconds.toString(),
+      'X-RateLimit-Limit': result.limit.toString(),
+      'X-RateLimit-Remaining': '0'
+    }
+  });
+}
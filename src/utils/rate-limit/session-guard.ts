@@ -0,0 +1,150 @@
+/**
+ * Per-session limits and abuse handling for key exchange and slice routes
+ *
+ * - Production: the RateLimiter DO instance for "session:<id>" tracks the session,
+ *   so its budget and scraping detection hold across worker isolates
+ * - Development: in-memory monitors
+ *
+ * A flagged session is revoked in the SecStreamSession DO, dropped from this
+ * isolate's cache and its worker SessionManager destroyed.
+ * Sessions revoked by an admin are reported as flagged too (see
+ * revokeSessionEverywhere), so every isolate refuses them on their next request.
+ */
+
+import { ABUSE_DETECTION_CONFIG, RATE_LIMIT_CONFIG, SESSION_RATE_LIMIT_CONFIG } from '../../constants/security';
+import { isDevMode } from '../storage/session-storage-adapter.js';
+import { settingsService } from '../config/settings-service.js';
+import { revokeSessionEverywhere, sessionErrorResponse } from '../session/session-lifecycle.js';
+import { SessionAccessMonitor } from './session-monitor';
+import type { SessionAccess, SessionAccessResult, SliceAccess } from './session-monitor';
+import type { RateLimiter } from '../../durable-objects/RateLimiter.js';
+
+export type { SessionAccess, SessionAccessResult, SliceAccess };
+
+// In-memory monitors for local dev (keyed by session ID)
+const devMonitors = new Map<string, SessionAccessMonitor>();
+const DEV_MONITOR_TTL_MS = 2 * 60 * 60 * 1000;
+
+function getDevMonitor(sessionId: string): SessionAccessMonitor {
+  const now = Date.now();
+  for (const [id, monitor] of devMonitors) {
+    if (now - monitor.lastAccessAt > DEV_MONITOR_TTL_MS) {
+      devMonitors.delete(id);
+    }
+  }
+
+  let monitor = devMonitors.get(sessionId);
+  if (!monitor) {
+    monitor = new SessionAccessMonitor();
+    devMonitors.set(sessionId, monitor);
+  }
+  return monitor;
+}
+
+function allowAll(limit: number): SessionAccessResult {
+  return { allowed: true, limit, remaining: limit, retryAfterMs: 0, flagged: false };
+}
+
+function getMonitorStub(sessionId: string, locals: App.Locals): DurableObjectStub<RateLimiter> | null {
+  const namespace = locals.runtime.env.RATE_LIMITER;
+  if (!namespace) {
+    return null;
+  }
+  return namespace.get(namespace.idFromName(`session:${sessionId}`)) as DurableObjectStub<RateLimiter>;
+}
+
+/**
+ * Count a key exchange / slice request against the session budget
+ * Fails open (allows the request) if the limiter is unavailable
+ */
+export async function checkSessionAccess(
+  sessionId: string,
+  access: SessionAccess,
+  locals: App.Locals
+): Promise<SessionAccessResult> {
+  const { limit } = SESSION_RATE_LIMIT_CONFIG[access.kind];
+
+  if (!RATE_LIMIT_CONFIG.enabled) {
+    return allowAll(limit);
+  }
+
+  if (isDevMode(locals)) {
+    return getDevMonitor(sessionId).inspect(access);
+  }
+
+  try {
+    const stub = getMonitorStub(sessionId, locals);
+    return stub ? await stub.inspectSessionAccess(access) : allowAll(limit);
+  } catch (error) {
+    console.error(`❌ Session monitor error for ${sessionId}, allowing request:`, error);
+    return allowAll(limit);
+  }
+}
+
+/**
+ * Slice sequence from a slice ID, so scraping detection can run before the slice is generated
+ * secstream slice IDs end with the slice index (e.g. "slice_12"); null for any other ID
+ */
+export function parseSliceSequence(sliceId: string): number | null {
+  const match = /(\d+)$/.exec(sliceId);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Scraping detection for a slice, before it is generated and served
+ * (per track and tier; see session-monitor.ts). Fails open like checkSessionAccess
+ * @param sessionSliceDurationMs - The session's slice duration (current setting when unknown)
+ */
+export async function checkSliceAccess(
+  sessionId: string,
+  slice: SliceAccess,
+  locals: App.Locals,
+  sessionSliceDurationMs?: number
+): Promise<SessionAccessResult> {
+  const { limit } = SESSION_RATE_LIMIT_CONFIG.slice;
+
+  if (!RATE_LIMIT_CONFIG.enabled) {
+    return allowAll(limit);
+  }
+
+  const sliceDurationMs = sessionSliceDurationMs ?? (await settingsService.getSettings(locals)).sliceDurationMs;
+
+  if (isDevMode(locals)) {
+    return getDevMonitor(sessionId).recordSlice(slice, ABUSE_DETECTION_CONFIG, sliceDurationMs);
+  }
+
+  try {
+    const stub = getMonitorStub(sessionId, locals);
+    return stub ? await stub.recordSessionSlice(slice, ABUSE_DETECTION_CONFIG, sliceDurationMs) : allowAll(limit);
+  } catch (error) {
+    console.error(`❌ Session monitor error for ${sessionId}, allowing slice:`, error);
+    return allowAll(limit);
+  }
+}
+
+/**
+ * Revoke a flagged session everywhere this isolate can reach
+ * @param doId - Session ID used by the client (DO ID)
+ * @param internalSessionId - Internal secstream session ID (worker SessionManager key)
+ */
+export async function revokeFlaggedSession(
+  doId: string,
+  internalSessionId: string,
+  reason: string,
+  locals: App.Locals
+): Promise<void> {
+  console.warn(`🚨 Session ${doId} flagged for abuse: ${reason}`);
+
+  try {
+    await revokeSessionEverywhere(doId, reason, locals, internalSessionId);
+  } catch (error) {
+    console.error(`❌ Failed to revoke session ${doId} in storage:`, error);
+  }
+}
+
+/**
+ * 403 response for revoked sessions
+ */
+export function sessionRevokedResponse(): Response {
+  return sessionErrorResponse('revoked');
+}
@@ -0,0 +1,197 @@
+/**
+ * Per-session access monitor
+ *
+ * Enforces per-session budgets and detects scraping patterns:
+ * - Sequential slice fetching far faster than real-time playback
+ * - Several tracks streamed in parallel
+ *
+ * Playback is tracked per track and quality tier: the distinct slices fetched
+ * are budgeted against the time since the track was first fetched at that
+ * tier. Refetches (retries, crossfade prefetch) cost nothing, and seeking
+ * only moves where new slices come from. Going over budget throttles the
+ * session; it is only flagged (and revoked) when it stays over budget across
+ * several windows.
+ *
+ * Used by the RateLimiter Durable Object (one instance per session) in
+ * production and by an in-memory map in local dev.
+ */
+
+import { SESSION_RATE_LIMIT_CONFIG } from '../../constants/security';
+import type { AbuseDetectionPolicy } from '../../constants/security';
+import { SlidingWindowLimiter } from './sliding-window';
+import type { RateLimitResult } from './sliding-window';
+
+export interface SessionAccess {
+  kind: 'keyExchange' | 'slice';
+  trackId: string;
+}
+
+// A slice request, by its position in the track
+export interface SliceAccess {
+  trackId: string;
+  tier: string;
+  sequence: number;
+}
+
+export interface SessionAccessResult extends RateLimitResult {
+  flagged: boolean;
+  reason?: string;
+}
+
+interface OverBudget {
+  reason: string;
+  retryAfterMs: number;
+}
+
+interface PlaybackActivity {
+  firstSliceAt: number;
+  sequences: Set<number>;     // Distinct slices fetched
+}
+
+export class SessionAccessMonitor {
+  private limiter = new SlidingWindowLimiter();
+  private playback = new Map<string, PlaybackActivity>();   // By track and tier
+  private recentSliceTimes = new Map<string, number[]>();   // By track
+  private violationTimes: number[] = [];
+  private flaggedReason: string | null = null;
+
+  lastAccessAt = 0;
+
+  /**
+   * Count a key exchange / slice request against the session budget
+   */
+  inspect(
+    access: SessionAccess,
+    now: number = Date.now()
+  ): SessionAccessResult {
+    this.lastAccessAt = now;
+
+    const { limit, windowMs } = SESSION_RATE_LIMIT_CONFIG[access.kind];
+
+    // Once flagged, always flagged
+    if (this.flaggedReason) {
+      return { allowed: false, limit, remaining: 0, retryAfterMs: 0, flagged: true, reason: this.flaggedReason };
+    }
+
+    const rateLimit = this.limiter.consume(access.kind, limit, windowMs, now);
+    return { ...rateLimit, flagged: false };
+  }
+
+  /**
+   * Record a slice request and decide whether it may be served
+   * Over budget: throttled, and not recorded (the client retries it later);
+   * flagged after policy.maxViolations separate over-budget windows
+   */
+  recordSlice(
+    slice: SliceAccess,
+    policy: AbuseDetectionPolicy,
+    sliceDurationMs: number,
+    now: number = Date.now()
+  ): SessionAccessResult {
+    this.lastAccessAt = now;
+
+    const { limit } = SESSION_RATE_LIMIT_CONFIG.slice;
+    const allowed: SessionAccessResult = { allowed: true, limit, remaining: limit, retryAfterMs: 0, flagged: false };
+
+    if (this.flaggedReason) {
+      return { allowed: false, limit, remaining: 0, retryAfterMs: 0, flagged: true, reason: this.flaggedReason };
+    }
+    if (!policy.enabled) {
+      return allowed;
+    }
+
+    const overBudget = this.trackSlice(slice, policy, sliceDurationMs, now);
+    if (!overBudget) {
+      return allowed;
+    }
+
+    if (this.recordViolation(policy, now)) {
+      this.flaggedReason = `${overBudget.reason} (over budget ${this.violationTimes.length} times)`;
+      return { allowed: false, limit, remaining: 0, retryAfterMs: 0, flagged: true, reason: this.flaggedReason };
+    }
+
+    return { allowed: false, limit, remaining: 0, retryAfterMs: overBudget.retryAfterMs, flagged: false, reason: overBudget.reason };
+  }
+
+  /**
+   * Mark the session revoked elsewhere (admin revocation), so every later access is refused
+   */
+  revoke(reason: string): void {
+    this.flaggedReason ??= `Revoked: ${reason}`;
+  }
+
+  /**
+   * Start a new over-budget window unless one is still open
+   * @returns true once the session has been over budget too often
+   */
+  private recordViolation(policy: AbuseDetectionPolicy, now: number): boolean {
+    this.violationTimes = this.violationTimes.filter(ts => ts > now - policy.violationMemoryMs);
+
+    const latest = this.violationTimes[this.violationTimes.length - 1];
+    if (latest === undefined || now - latest >= policy.violationWindowMs) {
+      this.violationTimes.push(now);
+    }
+
+    return this.violationTimes.length >= policy.maxViolations;
+  }
+
+  private trackSlice(
+    slice: SliceAccess,
+    policy: AbuseDetectionPolicy,
+    sliceDurationMs: number,
+    now: number
+  ): OverBudget | null {
+    const { trackId, sequence } = slice;
+    const key = `${trackId}#${slice.tier}`;
+    const activity = this.playback.get(key) ?? { firstSliceAt: now, sequences: new Set<number>() };
+
+    // Refetching a slice already counted (retry, crossfade prefetch) costs nothing
+    if (activity.sequences.has(sequence)) {
+      return null;
+    }
+
+    // Sequential scraping: more distinct audio than playback (plus buffering) could consume
+    const fetchedSeconds = ((activity.sequences.size + 1) * sliceDurationMs) / 1000;
+    const elapsedSeconds = (now - activity.firstSliceAt) / 1000;
+    const allowedSeconds = policy.bufferAllowanceSeconds + elapsedSeconds * policy.maxPlaybackSpeed;
+    if (fetchedSeconds > allowedSeconds) {
+      const catchUpSeconds = (fetchedSeconds - policy.bufferAllowanceSeconds) / policy.maxPlaybackSpeed - elapsedSeconds;
+      return {
+        reason: `Fetched ${fetchedSeconds.toFixed(0)}s of audio for ${key} in ${elapsedSeconds.toFixed(0)}s`,
+        retryAfterMs: Math.ceil(catchUpSeconds * 1000),
+      };
+    }
+
+    // Parallel scraping: several tracks (at any tier) actively streaming at once
+    const windowStart = now - policy.parallelTrackWindowMs;
+    let streamingTracks = 0;
+    for (const [id, times] of this.recentSliceTimes) {
+      const recent = times.filter(ts => ts > windowStart);
+      if (recent.length === 0) {
+        this.recentSliceTimes.delete(id);
+        continue;
+      }
+      this.recentSliceTimes.set(id, recent);
+      const count = recent.length + (id === trackId ? 1 : 0);
+      if (count >= policy.parallelTrackMinSlices) {
+        streamingTracks++;
+      }
+    }
+    if (!this.recentSliceTimes.has(trackId) && policy.parallelTrackMinSlices <= 1) {
+      streamingTracks++;
+    }
+    if (streamingTracks > policy.maxParallelTracks) {
+      return {
+        reason: `Streaming ${streamingTracks} tracks in parallel`,
+        retryAfterMs: policy.parallelTrackWindowMs,
+      };
+    }
+
+    // Within budget: record it
+    activity.sequences.add(sequence);
+    this.playback.set(key, activity);
+    this.recentSliceTimes.set(trackId, [...(this.recentSliceTimes.get(trackId) ?? []), now]);
+
+    return null;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Sliding window log rate limiter
+ * Shared by the RateLimiter Durable Object (production) and the in-memory
+ * limiter used in local dev, so both enforce budgets identically
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Milliseconds until the next request would be allowed (0 when allowed)
+  retryAfterMs: number;
+}
+
+export class SlidingWindowLimiter {
+  private windows = new Map<string, number[]>();
+
+  /**
+   * Record a request against a key if it fits in the budget
+   */
+  consume(key: string, limit: number, windowMs: number, now: number = Date.now()): RateLimitResult {
+    const windowStart = now - windowMs;
+    const timestamps = (this.windows.get(key) ?? []).filter(ts => ts > windowStart);
+
+    if (timestamps.length >= limit) {
+      this.windows.set(key, timestamps);
+      return {
+        allowed: false,
+        limit,
+        remaining: 0,
+        // The oldest request in the window leaves it first
+        retryAfterMs: Math.max(0, timestamps[0] + windowMs - now),
+      };
+    }
+
+    timestamps.push(now);
+    this.windows.set(key, timestamps);
+
+    return {
+      allowed: true,
+      limit,
+      remaining: limit - timestamps.length,
+      retryAfterMs: 0,
+    };
+  }
+
+  /**
+   * Drop windows with no requests inside maxWindowMs
+   */
+  cleanup(maxWindowMs: number, now: number = Date.now()): void {
+    for (const [key, timestamps] of this.windows) {
+      if (timestamps.length === 0 || timestamps[timestamps.length - 1] <= now - maxWindowMs) {
+        this.windows.delete(key);
+      }
+    }
+  }
+
+  get size(): number {
+    return this.windows.size;
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Client binding for sessions
+ *
+ * At creation a session gets a random token, handed to the browser as an
+ * HttpOnly cookie scoped to /api/sessions/<sessionId> and signed with
+ * SESSION_BINDING_SECRET. Storage keeps only the token's hash plus an optional
+ * coarse fingerprint (network prefix / User-Agent). Session routes compare the
+ * request against both and, depending on SESSION_BINDING_CONFIG.mode, reject
+ * or just report mismatches.
+ *
+ * Sessions created without a binding (mode 'off', or before binding existed)
+ * are not checked.
+ */
+
+import { SESSION_BINDING_CONFIG } from '../../constants/security';
+import { apiError, ApiErrorCode } from '../api/api-error.js';
+import { hmacSign, hmacVerify, toBase64Url } from '../api/signing.js';
+import { getClientIp, sha256Hex } from '../rate-limit/rate-limiter.js';
+
+export interface SessionBinding {
+  tokenHash: string;     // SHA-256 of the cookie token
+  fingerprint?: string;  // Hash of the client fingerprint at creation
+}
+
+export interface IssuedBinding {
+  binding: SessionBinding;
+  cookieValue: string;   // Token, signed when a secret is configured
+}
+
+export type BindingCheckResult =
+  | 'verified'
+  | 'missing_token'
+  | 'invalid_token'
+  | 'fingerprint_mismatch';
+
+const stats = {
+  verified: 0,
+  missingToken: 0,
+  invalidToken: 0,
+  fingerprintMismatch: 0,
+  rejected: 0,
+};
+
+let warnedUnsigned = false;
+
+function getSecret(locals: App.Locals): string | undefined {
+  const secret = locals.runtime?.env?.SESSION_BINDING_SECRET;
+  if (!secret && !warnedUnsigned) {
+    warnedUnsigned = true;
+    console.warn('⚠️ SESSION_BINDING_SECRET is not configured; binding cookies are unsigned');
+  }
+  return secret;
+}
+
+/**
+ * Network prefix of an IP: /24 for IPv4, /48 for IPv6
+ */
+function coarseNetwork(ip: string): string {
+  if (!ip.includes(':')) {
+    return ip.split('.').slice(0, 3).join('.');
+  }
+
+  const [head, tail] = ip.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = [
+    ...headGroups,
+    ...Array<string>(Math.max(0, 8 - headGroups.length - tailGroups.length)).fill('0'),
+    ...tailGroups,
+  ];
+  return groups.slice(0, 3).map(group => parseInt(group, 16).toString(16)).join(':');
+}
+
+async function fingerprintClient(request: Request): Promise<string | undefined> {
+  const userAgent = request.headers.get('User-Agent') || '';
+
+  switch (SESSION_BINDING_CONFIG.fingerprint) {
+    case 'none':
+      return undefined;
+    case 'ua':
+      return await sha256Hex(userAgent);
+    case 'network-ua':
+      return await sha256Hex(`${coarseNetwork(getClientIp(request))}|${userAgent}`);
+  }
+}
+
+function readCookie(request: Request, name: string): string | null {
+  for (const part of (request.headers.get('Cookie') || '').split(';')) {
+    const separator = part.indexOf('=');
+    if (separator !== -1 && part.slice(0, separator).trim() === name) {
+      return part.slice(separator + 1).trim();
+    }
+  }
+  return null;
+}
+
+/**
+ * Create the binding for a new session
+ * @returns null when binding is disabled
+ */
+export async function issueSessionBinding(request: Request, locals: App.Locals): Promise<IssuedBinding | null> {
+  if (SESSION_BINDING_CONFIG.mode === 'off') {
+    return null;
+  }
+
+  const token = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+  const secret = getSecret(locals);
+
+  return {
+    binding: {
+      tokenHash: await sha256Hex(token),
+      fingerprint: await fingerprintClient(request),
+    },
+    cookieValue: secret ? `${token}.${await hmacSign(token, secret)}` : token,
+  };
+}
+
+/**
+ * Set-Cookie header value for a session's binding token
+ * @param maxAgeMs - Cookie lifetime (the session's maximum lifetime)
+ */
+export function sessionBindingCookie(doId: string, cookieValue: string, request: Request, maxAgeMs: number): string {
+  const secure = new URL(request.url).protocol === 'https:' ? '; Secure' : '';
+  return `${SESSION_BINDING_CONFIG.cookieName}=${cookieValue}; Path=/api/sessions/${encodeURIComponent(doId)}; `
+    + `Max-Age=${Math.max(0, Math.ceil(maxAgeMs / 1000))}; HttpOnly; SameSite=Strict${secure}`;
+}
+
+async function verifyToken(cookieValue: string | null, binding: SessionBinding, locals: App.Locals): Promise<boolean> {
+  if (!cookieValue) {
+    return false;
+  }
+
+  const [token, signature] = cookieValue.split('.');
+  const secret = getSecret(locals);
+  if (secret && (!signature || !await hmacVerify(token, signature, secret))) {
+    return false;
+  }
+
+  return await sha256Hex(token) === binding.tokenHash;
+}
+
+/**
+ * Compare a request against the session's binding
+ */
+async function evaluateBinding(binding: SessionBinding, request: Request, locals: App.Locals): Promise<BindingCheckResult> {
+  const cookieValue = readCookie(request, SESSION_BINDING_CONFIG.cookieName);
+  if (!cookieValue) {
+    return 'missing_token';
+  }
+  if (!await verifyToken(cookieValue, binding, locals)) {
+    return 'invalid_token';
+  }
+
+  if (binding.fingerprint && SESSION_BINDING_CONFIG.fingerprint !== 'none') {
+    const fingerprint = await fingerprintClient(request);
+    if (fingerprint !== binding.fingerprint) {
+      return 'fingerprint_mismatch';
+    }
+  }
+
+  return 'verified';
+}
+
+function shouldReject(result: BindingCheckResult): boolean {
+  switch (SESSION_BINDING_CONFIG.mode) {
+    case 'off':
+    case 'report':
+      return false;
+    case 'token':
+      return result === 'missing_token' || result === 'invalid_token';
+    case 'strict':
+      return result !== 'verified';
+  }
+}
+
+/**
+ * Verify that a request comes from the client the session is bound to
+ * @returns null when the request may proceed, otherwise the error response to return
+ */
+export async function checkSessionBinding(
+  session: { doId: string; binding?: SessionBinding },
+  request: Request,
+  locals: App.Locals
+): Promise<Response | null> {
+  if (SESSION_BINDING_CONFIG.mode === 'off' || !session.binding) {
+    return null;
+  }
+
+  const result = await evaluateBinding(session.binding, request, locals);
+  switch (result) {
+    case 'verified': stats.verified++; break;
+    case 'missing_token': stats.missingToken++; break;
+    case 'invalid_token': stats.invalidToken++; break;
+    case 'fingerprint_mismatch': stats.fingerprintMismatch++; break;
+  }
+
+  if (result === 'verified') {
+    return null;
+  }
+
+  const rejected = shouldReject(result);
+  console.warn(`⚠️ Session binding ${result} for session ${session.doId} (${rejected ? 'rejected' : 'reported'})`);
+  if (!rejected) {
+    return null;
+  }
+
+  stats.rejected++;
+  return apiError(ApiErrorCode.SESSION_BINDING_MISMATCH, 'Session is bound to another client', {
+    message: 'This session was created by another browser. Please start a new session.',
+  });
+}
+
+/**
+ * Binding check counters for this isolate (for /api/stats)
+ */
+export function getSessionBindingStats() {
+  return { mode: SESSION_BINDING_CONFIG.mode, ...stats };
+}
@@ -5,8 +5,11 @@
  * Architecture:
  * - Cache is stored in worker memory (ephemeral)
  * - Each worker instance has its own cache
- * - Cache entries expire to match DO session timeout
+ * - Cache entries expire with the session (sliding sessions move it on revalidation)
  * - Falls back to DO if cache miss or expired
+ * - Hits are revalidated against the DO every 30s, so a session ended
+ *   through another worker instance stops working here too (revocation is
+ *   enforced sooner, through the session's RateLimiter monitor)
  *
  * Benefits:
  * - Reduces DO requests for frequently accessed sessions
@@ -14,12 +17,18 @@
  * - Decreases latency for cached sessions
  */
 
-interface CachedSessionMetadata {
+import type { SessionBinding } from './session-binding.js';
+
+export interface CachedSessionMetadata {
   doId: string;
   sessionId: string;
   audioKeys: string[];
   createdAt: number;
   cachedAt: number;
+  expiresAt?: number; // Session expiry reported by the DO (defaults to CACHE_TTL_MS)
+  sliceDurationMs?: number; // Fixed at creation (missing for older sessions: current setting)
+  binding?: SessionBinding; // Client binding, checked on every session route
+  validatedAt?: number; // Last time the DO confirmed the session (defaults to cachedAt)
   isDeleted?: boolean; // Soft-delete marker for invalidated sessions
   version?: number; // Version for cache invalidation
   // lastAccessedAt removed - sessions use absolute expiration
@@ -33,12 +42,15 @@ interface CacheEntry {
 class SessionCache {
   private cache = new Map<string, CacheEntry>();
 
-  // Match DO session timeout (2 hours)
+  // Fallback TTL when the session expiry is unknown (absolute DO timeout)
   private readonly CACHE_TTL_MS = 2 * 60 * 60 * 1000;
 
   // Limit cache size to prevent memory issues (LRU eviction)
   private readonly MAX_CACHE_SIZE = 100;
 
+  // How long a hit is trusted before the DO is asked again
+  private readonly REVALIDATE_INTERVAL_MS = 30 * 1000;
+
   /**
    * Store session metadata in worker memory
    */
@@ -53,13 +65,13 @@ class SessionCache {
       }
     }
 
-    const expiresAt = Date.now() + this.CACHE_TTL_MS;
+    const expiresAt = metadata.expiresAt ?? Date.now() + this.CACHE_TTL_MS;
     this.cache.set(sessionId, {
       data: metadata,
       expiresAt,
     });
 
-    console.log(`💾 Worker cache: Stored session ${sessionId} (expires in ${this.CACHE_TTL_MS / 1000 / 60} min)`);
+    console.log(`💾 Worker cache: Stored session ${sessionId} (expires in ${((expiresAt - Date.now()) / 1000 / 60).toFixed(1)} min)`);
   }
 
   /**
@@ -107,6 +119,32 @@ class SessionCache {
     return true;
   }
 
+  /**
+   * Check whether a cached session is due for revalidation against the DO
+   */
+  needsRevalidation(sessionId: string): boolean {
+    const entry = this.cache.get(sessionId);
+    if (!entry) return false;
+
+    const validatedAt = entry.data.validatedAt ?? entry.data.cachedAt;
+    return Date.now() - validatedAt >= this.REVALIDATE_INTERVAL_MS;
+  }
+
+  /**
+   * Record that the DO confirmed the session is still active
+   * @param expiresAt - Current session expiry (sliding sessions move it forward)
+   */
+  markValidated(sessionId: string, expiresAt?: number): void {
+    const entry = this.cache.get(sessionId);
+    if (entry) {
+      entry.data.validatedAt = Date.now();
+      if (expiresAt !== undefined) {
+        entry.data.expiresAt = expiresAt;
+        entry.expiresAt = expiresAt;
+      }
+    }
+  }
+
   /**
    * Remove session from cache
    */
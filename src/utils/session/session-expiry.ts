@@ -0,0 +1,79 @@
+/**
+ * Session expiry policy (absolute or sliding)
+ *
+ * - Absolute: the session ends a fixed time after creation
+ * - Sliding: each renewal (slice fetch, heartbeat) pushes expiry out to
+ *   idleTimeoutMs from now, capped at maxLifetimeMs from creation
+ *
+ * The mode and cap are fixed when the session is created and stored with it,
+ * so changing the settings does not shorten sessions already handed out.
+ */
+
+import { SECSTREAM_CONFIG } from '../../constants/playlist';
+
+export type SessionExpiryPolicy = typeof SECSTREAM_CONFIG.sessionExpiry;
+
+export interface SessionExpiry {
+  sliding: boolean;
+  expiresAt: number;
+  maxExpiresAt: number;  // Hard cap (equals expiresAt for absolute sessions)
+}
+
+/**
+ * Expiry for a session created at `createdAt`
+ */
+export function createSessionExpiry(
+  createdAt: number,
+  policy: SessionExpiryPolicy = SECSTREAM_CONFIG.sessionExpiry
+): SessionExpiry {
+  if (!policy.sliding) {
+    const expiresAt = createdAt + policy.absoluteTimeoutMs;
+    return { sliding: false, expiresAt, maxExpiresAt: expiresAt };
+  }
+
+  const maxExpiresAt = createdAt + policy.maxLifetimeMs;
+  return {
+    sliding: true,
+    expiresAt: Math.min(createdAt + policy.idleTimeoutMs, maxExpiresAt),
+    maxExpiresAt,
+  };
+}
+
+/**
+ * Expiry after activity at `now`
+ * Returns null when nothing should be persisted: absolute sessions, or an
+ * extension smaller than renewThrottleMs (keeps playback free of storage writes)
+ */
+export function renewSessionExpiry(
+  expiry: SessionExpiry,
+  now: number,
+  policy: SessionExpiryPolicy = SECSTREAM_CONFIG.sessionExpiry
+): SessionExpiry | null {
+  if (!expiry.sliding) {
+    return null;
+  }
+
+  const expiresAt = Math.min(now + policy.idleTimeoutMs, expiry.maxExpiresAt);
+  if (expiresAt - expiry.expiresAt < policy.renewThrottleMs) {
+    return null;
+  }
+
+  return { ...expiry, expiresAt };
+}
+
+/**
+ * Expiry as sent to clients: relative durations, so client clock skew doesn't matter
+ */
+export interface ClientSessionExpiry {
+  sliding: boolean;
+  expiresInMs: number;
+  maxExpiresInMs: number;
+}
+
+export function toClientExpiry(expiry: SessionExpiry, now: number = Date.now()): ClientSessionExpiry {
+  return {
+    sliding: expiry.sliding,
+    expiresInMs: Math.max(0, expiry.expiresAt - now),
+    maxExpiresInMs: Math.max(0, expiry.maxExpiresAt - now),
+  };
+}
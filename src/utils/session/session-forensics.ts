@@ -0,0 +1,75 @@
+/**
+ * Forensic records for watermarked sessions
+ *
+ * Maps a session's watermark ID (see utils/audio/watermark.ts) to the session
+ * and its creation metadata, so an ID extracted from a leaked recording can be
+ * traced back. Records are stored in R2 because they must outlive the session
+ * itself; without a bucket (local dev) they are kept in memory.
+ */
+
+import { SECSTREAM_CONFIG } from '../../constants/playlist.js';
+import { deriveWatermarkId } from '../audio/watermark.js';
+
+export interface ForensicRecord {
+  watermarkId: string;
+  doId: string;          // Session ID as returned to the client
+  sessionId: string;     // Internal session ID the watermark is derived from
+  audioKeys: string[];
+  createdAt: number;
+  clientId: string;      // Hashed client identity (see getClientIdentity)
+}
+
+const devRecords = new Map<string, ForensicRecord>();
+
+function recordKey(watermarkId: string): string {
+  return `${SECSTREAM_CONFIG.watermark.recordPrefix}${watermarkId}.json`;
+}
+
+/**
+ * Store the forensic record for a newly created session
+ * Written in the background; a failed write is logged and does not fail session creation
+ */
+export async function recordSessionForensics(
+  session: Omit<ForensicRecord, 'watermarkId'>,
+  locals: App.Locals
+): Promise<void> {
+  if (!SECSTREAM_CONFIG.watermark.enabled) {
+    return;
+  }
+
+  const record: ForensicRecord = { watermarkId: await deriveWatermarkId(session.sessionId), ...session };
+  const bucket = locals.runtime?.env?.AUDIO_BUCKET;
+
+  if (!bucket) {
+    devRecords.set(record.watermarkId, record);
+    console.log(`🔏 Forensic record ${record.watermarkId} stored in memory for session ${record.doId}`);
+    return;
+  }
+
+  const write = bucket.put(recordKey(record.watermarkId), JSON.stringify(record), {
+    httpMetadata: { contentType: 'application/json' },
+  }).then(() => {
+    console.log(`🔏 Forensic record ${record.watermarkId} stored for session ${record.doId}`);
+  }).catch((error) => {
+    console.error(`❌ Failed to store forensic record ${record.watermarkId}:`, error);
+  });
+
+  if (locals.runtime?.ctx?.waitUntil) {
+    locals.runtime.ctx.waitUntil(write);
+  } else {
+    await write;
+  }
+}
+
+/**
+ * Look up the session behind a watermark ID
+ */
+export async function getForensicRecord(watermarkId: string, locals: App.Locals): Promise<ForensicRecord | null> {
+  const bucket = locals.runtime?.env?.AUDIO_BUCKET;
+  if (!bucket) {
+    return devRecords.get(watermarkId) ?? null;
+  }
+
+  const object = await bucket.get(recordKey(watermarkId));
+  return object ? await object.json<ForensicRecord>() : null;
+}
@@ -0,0 +1,220 @@
+/**
+ * Session resolution, teardown, revocation and cache revalidation
+ *
+ * Ending or revoking a session touches three places:
+ * - Storage (DO in prod, memory in dev) - the source of truth
+ * - This isolate's session cache - marked deleted so the next request re-checks storage
+ * - This isolate's WorkerSessionManager - destroyed to free decoded audio
+ *
+ * Other isolates still hold cached metadata; they pick up the change when
+ * their cache entry is next revalidated (see revalidateCachedSession).
+ * Revalidation from the slice route also renews sliding sessions.
+ *
+ * Revocation can't wait for that: it is also pushed to the session's
+ * RateLimiter monitor, which every key exchange and slice request consults, so
+ * all isolates refuse the session from its next request.
+ */
+
+import {
+  endSession,
+  getSessionState,
+  lookupSession,
+  isDevMode,
+  revokeSession,
+} from '../storage/session-storage-adapter.js';
+import type { SessionState, SessionStatus } from '../storage/session-storage-adapter.js';
+import { sessionCache } from './session-cache.js';
+import type { CachedSessionMetadata } from './session-cache.js';
+import { globalWorkerSessionManager } from './global-session-manager.js';
+import { apiError, ApiErrorCode } from '../api/api-error.js';
+import type { RateLimiter } from '../../durable-objects/RateLimiter.js';
+
+/**
+ * Drop a session from this isolate's cache and worker
+ */
+function releaseLocalSession(doId: string, internalSessionId: string | null | undefined): void {
+  sessionCache.markDeleted(doId);
+  if (internalSessionId) {
+    globalWorkerSessionManager.destroySession(internalSessionId);
+  }
+}
+
+/**
+ * End a session on client request (DELETE /api/sessions/:id)
+ * @returns false if the session did not exist (already ended or expired)
+ */
+export async function teardownSession(doId: string, locals: App.Locals): Promise<boolean> {
+  const cachedSessionId = sessionCache.get(doId)?.sessionId;
+  const internalSessionId = await endSession(doId, locals);
+
+  releaseLocalSession(doId, internalSessionId ?? cachedSessionId);
+
+  if (internalSessionId) {
+    console.log(`👋 Session ${doId} ended by client`);
+  }
+  return internalSessionId !== null;
+}
+
+/**
+ * Flag the session in its RateLimiter monitor (the "session:<id>" instance
+ * session-guard checks), so isolates with the session cached refuse it now.
+ * Not needed in dev, where there is a single isolate.
+ */
+async function pushRevocation(doId: string, reason: string, locals: App.Locals): Promise<void> {
+  const namespace = locals.runtime.env.RATE_LIMITER;
+  if (!namespace) {
+    return;
+  }
+
+  try {
+    const stub = namespace.get(namespace.idFromName(`session:${doId}`)) as DurableObjectStub<RateLimiter>;
+    await stub.revokeSession(reason);
+  } catch (error) {
+    // Other isolates still drop it at their next revalidation
+    console.error(`❌ Failed to push revocation of ${doId} to its monitor:`, error);
+  }
+}
+
+/**
+ * Revoke a session and release it in this isolate
+ * @param internalSessionId - Worker SessionManager key, looked up in the cache if omitted
+ * @returns false if the session does not exist or already expired
+ */
+export async function revokeSessionEverywhere(
+  doId: string,
+  reason: string,
+  locals: App.Locals,
+  internalSessionId?: string
+): Promise<boolean> {
+  const sessionId = internalSessionId ?? sessionCache.get(doId)?.sessionId;
+  releaseLocalSession(doId, sessionId);
+
+  const revoked = await revokeSession(doId, reason, locals);
+  if (revoked && !isDevMode(locals)) {
+    await pushRevocation(doId, reason, locals);
+  }
+  return revoked;
+}
+
+/**
+ * Ask storage for the session state and apply it to this isolate
+ * Active sessions are marked validated (with their current expiry); anything
+ * else is released locally.
+ */
+async function syncSessionState(
+  doId: string,
+  internalSessionId: string | undefined,
+  locals: App.Locals,
+  renew: boolean
+): Promise<SessionState> {
+  const state = await getSessionState(doId, locals, renew);
+
+  if (state.status === 'active') {
+    sessionCache.markValidated(doId, state.expiry?.expiresAt);
+  } else {
+    console.warn(`⚠️ Session ${doId} is ${state.status} in storage, releasing`);
+    releaseLocalSession(doId, internalSessionId);
+  }
+  return state;
+}
+
+/**
+ * Confirm a cached session is still active once its revalidation interval has passed
+ * Releases the session locally if storage reports it ended, expired or was revoked.
+ * Fails open (keeps the cached session) if storage is unreachable.
+ * @param renew - Count this as activity (extends sliding sessions)
+ */
+export async function revalidateCachedSession(
+  doId: string,
+  internalSessionId: string,
+  locals: App.Locals,
+  renew: boolean = false
+): Promise<SessionStatus> {
+  if (!sessionCache.needsRevalidation(doId)) {
+    return 'active';
+  }
+
+  try {
+    const state = await syncSessionState(doId, internalSessionId, locals, renew);
+    return state.status;
+  } catch (error) {
+    console.error(`❌ Failed to revalidate session ${doId}, trusting cache:`, error);
+    return 'active';
+  }
+}
+
+/**
+ * Result of resolving a session for a request
+ */
+export type ResolvedSession =
+  | { status: 'active'; session: CachedSessionMetadata; cacheHit: boolean }
+  | { status: Exclude<SessionStatus, 'active'> };
+
+/**
+ * Find an active session: this isolate's cache first, storage on a miss
+ * Cache hits are revalidated once their interval has passed; misses are
+ * cached for the next request.
+ * @param renew - Count this request as activity (extends sliding sessions)
+ */
+export async function resolveSession(
+  doId: string,
+  locals: App.Locals,
+  renew: boolean = false
+): Promise<ResolvedSession> {
+  const cached = sessionCache.get(doId);
+
+  if (cached) {
+    // Periodically confirm with storage so sessions ended or revoked elsewhere stop here too
+    const status = await revalidateCachedSession(doId, cached.sessionId, locals, renew);
+    return status === 'active' ? { status, session: cached, cacheHit: true } : { status };
+  }
+
+  console.log(`⚠️ Cache MISS for session ${doId}, fetching from storage...`);
+  const lookup = await lookupSession(doId, locals);
+
+  if (lookup.status !== 'active') {
+    sessionCache.markDeleted(doId);
+    console.warn(`⚠️ Session ${doId} is ${lookup.status} in storage`);
+    return { status: lookup.status };
+  }
+
+  const { metadata } = lookup;
+  const session: CachedSessionMetadata = {
+    doId,
+    sessionId: metadata.sessionId,
+    audioKeys: metadata.audioKeys,
+    createdAt: metadata.createdAt,
+    cachedAt: Date.now(),
+    expiresAt: metadata.expiry.expiresAt,
+    sliceDurationMs: metadata.sliceDurationMs,
+    binding: metadata.binding,
+  };
+  sessionCache.set(doId, session);
+
+  return { status: 'active', session, cacheHit: false };
+}
+
+/**
+ * Renew a session on client heartbeat (extends sliding sessions)
+ */
+export async function heartbeatSession(doId: string, locals: App.Locals): Promise<SessionState> {
+  return await syncSessionState(doId, sessionCache.get(doId)?.sessionId, locals, true);
+}
+
+/**
+ * Error response for a session that is not active
+ * Clients recover from SESSION_EXPIRED / SESSION_NOT_FOUND by creating a new
+ * session; SESSION_REVOKED needs a page reload.
+ */
+export function sessionErrorResponse(status: Exclude<SessionStatus, 'active'>): Response {
+  switch (status) {
+    case 'revoked':
+      return apiError(ApiErrorCode.SESSION_REVOKED, 'Session revoked', {
+        message: 'This session has been revoked. Please reload the page.'
+      });
+    case 'expired':
+      return apiError(ApiErrorCode.SESSION_EXPIRED, 'Session expired');
+    case 'not_found':
+      return apiError(ApiErrorCode.SESSION_NOT_FOUND, 'Session not found');
+  }
+}
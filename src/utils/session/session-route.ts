@@ -0,0 +1,99 @@
+/**
+ * Shared handling for /api/sessions/:sessionId/* routes
+ *
+ * sessionRoute() wraps a route handler so that before it runs:
+ * - The per-client rate limit (if any) is checked
+ * - The session is resolved once (cache, then storage) and revalidated when due
+ * - Missing, expired and revoked sessions get the standard error response
+ * - The request is checked against the session's client binding
+ * - The current runtime settings are applied to this isolate's WorkerSessionManager
+ *
+ * The handler receives the active session (also on `locals.session`) and a
+ * RequestTiming (`locals.timing`). Unexpected errors become API error
+ * responses, and every response carries a Server-Timing header.
+ */
+
+import type { APIContext, APIRoute } from 'astro';
+import type { RateLimitBucket } from '../../constants/security';
+import { apiError, ApiErrorCode, errorResponse } from '../api/api-error.js';
+import { RequestTiming } from '../api/request-timing.js';
+import { checkRateLimit, rateLimitResponse } from '../rate-limit/rate-limiter.js';
+import { resolveSession, sessionErrorResponse } from './session-lifecycle.js';
+import { checkSessionBinding } from './session-binding.js';
+import type { CachedSessionMetadata } from './session-cache.js';
+import { globalWorkerSessionManager } from './global-session-manager.js';
+import { settingsService } from '../config/settings-service.js';
+
+export type ActiveSession = CachedSessionMetadata;
+
+export interface SessionRouteOptions {
+  name: string;                 // Route name for logs, e.g. 'getSlice'
+  errorMessage: string;         // Error summary for unexpected failures
+  rateLimit?: RateLimitBucket;  // Per-client budget, checked before the session lookup
+  activity?: boolean;           // Request counts as playback activity (renews sliding sessions)
+}
+
+export type SessionRouteHandler = (
+  context: APIContext,
+  session: ActiveSession,
+  timing: RequestTiming
+) => Promise<Response> | Response;
+
+/**
+ * Wrap a session sub-route handler with session resolution, error handling and timing
+ */
+export function sessionRoute(options: SessionRouteOptions, handler: SessionRouteHandler): APIRoute {
+  return async (context) => {
+    const timing = new RequestTiming();
+    context.locals.timing = timing;
+
+    const response = await handleSessionRequest(context, timing, options, handler);
+    response.headers.set('Server-Timing', timing.toServerTiming());
+    return response;
+  };
+}
+
+async function handleSessionRequest(
+  context: APIContext,
+  timing: RequestTiming,
+  options: SessionRouteOptions,
+  handler: SessionRouteHandler
+): Promise<Response> {
+  const { params, request, locals } = context;
+
+  try {
+    const doId = params.sessionId;  // The client-facing session ID is the DO ID
+    if (!doId) {
+      return apiError(ApiErrorCode.INVALID_REQUEST, 'Session ID is required');
+    }
+
+    console.log(`🔗 ${options.name} API START: session ${doId}`);
+
+    if (options.rateLimit) {
+      const rateLimit = await checkRateLimit(options.rateLimit, request, locals);
+      if (!rateLimit.allowed) {
+        console.warn(`⚠️ ${options.name} rate limit exceeded for session ${doId} (retry in ${rateLimit.retryAfterMs}ms)`);
+        return rateLimitResponse(rateLimit);
+      }
+    }
+
+    const resolved = await resolveSession(doId, locals, options.activity ?? false);
+    if (resolved.status !== 'active') {
+      return sessionErrorResponse(resolved.status);
+    }
+    timing.mark(resolved.cacheHit ? 'Session from cache' : 'Session from storage');
+
+    const bindingRejected = await checkSessionBinding(resolved.session, request, locals);
+    if (bindingRejected) {
+      return bindingRejected;
+    }
+
+    globalWorkerSessionManager.applySettings(await settingsService.getSettings(locals));
+
+    locals.session = resolved.session;
+    return await handler(context, resolved.session, timing);
+  } catch (error: unknown) {
+    console.error(`❌ ${options.name} error (after ${timing.elapsed()}ms):`, error);
+    return errorResponse(error, options.errorMessage);
+  }
+}
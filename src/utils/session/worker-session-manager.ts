@@ -1,9 +1,66 @@
-import { SessionManager } from 'secstream/server';
-import type { EncryptedSlice, SessionInfo } from 'secstream/server';
+import type { EncryptedSlice, SessionInfo, SessionManager } from 'secstream/server';
 import type { ProcessorKeyExchangeRequest, ProcessorKeyExchangeResponse } from 'secstream/server';
 import { SECSTREAM_CONFIG } from '../../constants/playlist';
-import { AudioFileHandler } from '../audio/secstream';
-import { PcmCacheManager } from '../audio/pcm-cache';
+import { AudioFileHandler, createPcmCacheManager, createSessionManager } from '../audio/secstream';
+import type { PcmCacheManager } from '../audio/pcm-cache';
+import { DecodedAudioCache } from '../audio/decoded-audio-cache';
+import { deriveWatermarkId, embedWatermark } from '../audio/watermark';
+import { describeQualityTiers, needsRendering, renderQualityTier } from '../audio/quality-tiers';
+import type { QualityTierId, QualityTierSessionInfo, QualityTierSpec } from '../audio/quality-tiers';
+import { DEFAULT_SETTINGS } from '../config/settings';
+import type { RuntimeSettings, SettingName } from '../config/settings';
+import { ApiError, ApiErrorCode } from '../api/api-error';
+
+type TrackInfo = NonNullable<SessionInfo['tracks']>[number];
+
+type AudioSource = 'memory' | 'pcm-cache' | 'decoded' | 'rendered';
+
+/**
+ * A track at one quality tier
+ * Each is its own single-track session inside the SessionManager, created on first use
+ */
+interface TrackVariant {
+  internalSessionId?: string;
+  // In-flight load, shared by concurrent key exchange / session info requests
+  loading?: Promise<string>;
+  // The client holds its keys (key exchange done in this isolate)
+  keyed?: boolean;
+  lastUsedAt: number;
+}
+
+/**
+ * One track of a worker session
+ * Variants are created on first use, so opening a session with the whole
+ * playlist loads nothing up front
+ */
+interface LazyTrack {
+  audioKey: string;
+  trackId: string;
+  title: string;
+  variants: Map<QualityTierId, TrackVariant>;
+}
+
+/**
+ * What a worker session is built from (the cached session metadata)
+ */
+export interface SessionSource {
+  audioKeys: string[];
+  sliceDurationMs?: number;  // Fixed at session creation; older sessions use the current setting
+}
+
+interface WorkerSession {
+  manager: SessionManager;
+  sliceDurationMs: number;
+  tracks: LazyTrack[];
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+// Run idle/TTL eviction at most this often (it piggybacks on requests)
+const EVICTION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Settings the PCM cache manager is built from
+const PCM_CACHE_SETTINGS: SettingName[] = ['pcmCacheEnabled', 'pcmCacheForceRegenerate', 'pcmCacheCodec', 'pcmCacheEdgeTtlSeconds'];
 
 /**
  * Worker-level SessionManager wrapper
@@ -14,148 +71,416 @@ import { PcmCacheManager } from '../audio/pcm-cache';
  * - Durable Object: Stores only session metadata (~1KB)
  * - Worker: Fetches audio from R2, generates slices locally
  * - PCM Cache: Pre-decoded audio cached in R2 for 100x faster loading
+ * - Tracks load lazily: audio is fetched/decoded on a track's first key exchange or session info
+ * - Decoded audio LRU: PCM shared across sessions in the isolate, within a byte budget
+ * - Forensic watermark: each session slices its own watermarked copy of the shared PCM;
+ *   at most sessionMaxLoadedTracks copies per session, least recently used released first
+ *   (the client keys a released track again, see TRACK_NOT_KEYED)
+ * - Quality tiers: lower tiers are rendered from the full-quality PCM (and cached like it);
+ *   the client picks a track's tier at key exchange
+ * - Idle SessionManagers are evicted; none outlives the DO session lifetime
+ * - Runtime settings (env / KV) are applied per request by sessionRoute(); new
+ *   SessionManagers use them, existing ones keep the slicing they started with
  * - No audio data transferred through DO (eliminates 5-second delay)
  */
 export class WorkerSessionManager {
-  private sessionManagers: Map<string, SessionManager> = new Map();
-  private sessionIdMapping: Map<string, string> = new Map(); // external -> internal sessionId
+  private sessions: Map<string, WorkerSession> = new Map();
   private audioHandler: AudioFileHandler;
   private pcmCacheManager: PcmCacheManager;
+  private decodedAudioCache: DecodedAudioCache;
+  private settings: Readonly<RuntimeSettings> = DEFAULT_SETTINGS;
+  private lastEvictionSweep = 0;
+  private idleEvictions = 0;
+  private expiredEvictions = 0;
+  private tracksLoaded = 0;
 
   constructor() {
     this.audioHandler = new AudioFileHandler();
-    // PCM cache manager configured from SECSTREAM_CONFIG
-    this.pcmCacheManager = new PcmCacheManager({
-      enabled: SECSTREAM_CONFIG.pcmCache.enabled,
-      pcmCachePrefix: SECSTREAM_CONFIG.pcmCache.cachePrefix,
-      forceRegenerate: SECSTREAM_CONFIG.pcmCache.forceRegenerate,
-    });
+    // PCM cache manager configured from the runtime settings (defaults until applySettings)
+    this.pcmCacheManager = createPcmCacheManager(this.settings);
+    this.decodedAudioCache = new DecodedAudioCache(this.settings.decodedAudioCacheMaxBytes);
   }
 
   /**
-   * Get or create SessionManager for a session
-   * Fetches audio from R2 on-demand (lazy loading)
-   * Uses PCM cache for 100x faster audio loading
-   * In dev mode, fetches audio from local filesystem if R2 is not available
+   * Apply the current runtime settings (see utils/config/settings.ts)
+   * Cheap when nothing changed: the settings service hands out the same object until it reloads
    */
-  private async ensureSessionManager(
-    sessionId: string,
-    audioKeys: string[],
+  applySettings(settings: Readonly<RuntimeSettings>): void {
+    if (settings === this.settings) {
+      return;
+    }
+
+    const previous = this.settings;
+    this.settings = settings;
+    this.decodedAudioCache.resize(settings.decodedAudioCacheMaxBytes);
+
+    if (PCM_CACHE_SETTINGS.some(name => previous[name] !== settings[name])) {
+      this.pcmCacheManager = createPcmCacheManager(settings);
+      console.log(`⚙️ PCM cache manager reconfigured (enabled: ${settings.pcmCacheEnabled}, codec: ${settings.pcmCacheCodec})`);
+    }
+  }
+
+  /**
+   * Destroy SessionManagers that have been idle too long or outlived the DO session
+   * Throttled so it costs nothing on most requests
+   */
+  private evictInactiveSessions(): void {
+    const now = Date.now();
+    if (now - this.lastEvictionSweep < EVICTION_SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastEvictionSweep = now;
+
+    for (const [sessionId, session] of this.sessions) {
+      if (now - session.createdAt >= this.settings.sessionMaxAgeMs) {
+        console.log(`⏰ Evicting expired SessionManager ${sessionId} (age ${Math.round((now - session.createdAt) / 60000)} min)`);
+        this.destroySession(sessionId);
+        this.expiredEvictions++;
+      } else if (now - session.lastAccessedAt >= this.settings.sessionIdleTimeoutMs) {
+        console.log(`💤 Evicting idle SessionManager ${sessionId} (idle ${Math.round((now - session.lastAccessedAt) / 60000)} min)`);
+        this.destroySession(sessionId);
+        this.idleEvictions++;
+      }
+    }
+  }
+
+  /**
+   * Get decoded audio for a track
+   * Order: isolate LRU -> R2 PCM cache -> decode original
+   */
+  private async loadDecodedAudio(
+    audioKey: string,
     bucket?: R2Bucket
-  ): Promise<SessionManager> {
+  ): Promise<{ audioData: ArrayBuffer; source: AudioSource }> {
+    const etag = await this.audioHandler.getAudioEtag(audioKey, bucket);
+
+    const cached = this.decodedAudioCache.get(audioKey, etag);
+    if (cached) {
+      return { audioData: cached, source: 'memory' };
+    }
+
+    // Fetch original audio
+    const originalAudio = await this.audioHandler.getAudioFromBucket(audioKey, bucket);
+
+    // Apply PCM caching (pass bucket for R2 cache storage)
+    const cacheResult = await this.pcmCacheManager.getAudioWithCache(audioKey, originalAudio, bucket, bucket ? etag : null);
+    this.decodedAudioCache.set(audioKey, etag, cacheResult.audioData);
+
+    return { audioData: cacheResult.audioData, source: cacheResult.fromCache ? 'pcm-cache' : 'decoded' };
+  }
+
+  /**
+   * Get a track's audio at a quality tier
+   * Order: isolate LRU -> R2 PCM cache variant -> render from the full-quality PCM
+   */
+  private async loadTierAudio(
+    audioKey: string,
+    tier: QualityTierSpec,
+    bucket?: R2Bucket
+  ): Promise<{ audioData: ArrayBuffer; source: AudioSource }> {
+    if (!needsRendering(tier)) {
+      return this.loadDecodedAudio(audioKey, bucket);
+    }
+
+    const etag = await this.audioHandler.getAudioEtag(audioKey, bucket);
+    const variantKey = `${audioKey}#${tier.id}`;
+
+    const cached = this.decodedAudioCache.get(variantKey, etag);
+    if (cached) {
+      return { audioData: cached, source: 'memory' };
+    }
+
+    const stored = await this.pcmCacheManager.getCachedVariant(audioKey, tier.id, bucket ? etag : null, bucket);
+    if (stored) {
+      this.decodedAudioCache.set(variantKey, etag, stored);
+      return { audioData: stored, source: 'pcm-cache' };
+    }
+
+    const { audioData: fullAudio } = await this.loadDecodedAudio(audioKey, bucket);
+    const renderStartTime = Date.now();
+    const rendered = renderQualityTier(fullAudio, tier);
+    console.log(`🎚️ Rendered ${tier.id} tier of ${audioKey} (${rendered.sampleRate}Hz, ${rendered.channels}ch, ${(rendered.wavData.byteLength / 1024 / 1024).toFixed(2)} MB, ${Date.now() - renderStartTime}ms)`);
+
+    this.pcmCacheManager.storeVariant(audioKey, tier.id, rendered, bucket ? etag : null, bucket);
+    this.decodedAudioCache.set(variantKey, etag, rendered.wavData);
+    return { audioData: rendered.wavData, source: 'rendered' };
+  }
+
+  /**
+   * Get or create the worker session for a session ID
+   * Only registers the tracks - no audio is fetched here
+   */
+  private ensureSession(sessionId: string, source: SessionSource): WorkerSession {
+    this.evictInactiveSessions();
+
     // Check if SessionManager already exists in worker memory
-    let manager = this.sessionManagers.get(sessionId);
-    if (manager) {
+    let session = this.sessions.get(sessionId);
+    if (session) {
+      session.lastAccessedAt = Date.now();
       console.log(`♻️ Using existing SessionManager from worker memory for session ${sessionId}`);
-      return manager;
+      return session;
     }
 
-    // SessionManager not in memory - need to create it
-    console.log(`🔄 Creating SessionManager in worker for session ${sessionId}...`);
+    // Create SessionManager in worker memory with the current settings, slicing as the session was created to
+    const { audioKeys } = source;
+    const sliceDurationMs = source.sliceDurationMs ?? this.settings.sliceDurationMs;
+    const manager = createSessionManager({ ...this.settings, sliceDurationMs });
+
+    session = {
+      manager,
+      sliceDurationMs,
+      tracks: audioKeys.map((audioKey, index) => ({
+        audioKey,
+        trackId: `track-${index}`,
+        title: `Track ${index + 1}`,
+        variants: new Map(),
+      })),
+      createdAt: Date.now(),
+      lastAccessedAt: Date.now(),
+    };
 
-    // Fetch audio from R2 or local filesystem with PCM caching
-    const audioBuffers: ArrayBuffer[] = [];
-    const source = bucket ? 'R2' : 'local filesystem';
-    console.log(`📦 Fetching audio from ${source} with PCM cache...`);
+    this.sessions.set(sessionId, session);
+    console.log(`✅ SessionManager created in worker for session ${sessionId} (${audioKeys.length} tracks registered, none loaded)`);
+
+    return session;
+  }
+
+  /**
+   * Resolve a track by its ID (defaults to the first track when none is given)
+   */
+  private getTrack(session: WorkerSession, trackId?: string): LazyTrack {
+    const track = trackId ? session.tracks.find(t => t.trackId === trackId) : session.tracks[0];
+    if (!track) {
+      throw new Error(`Track not found: ${trackId}`);
+    }
+    return track;
+  }
+
+  /**
+   * Resolve a requested quality tier (the default tier when none is given or tiers are off)
+   */
+  private getTier(tierId?: QualityTierId): QualityTierSpec {
+    const { enabled, defaultTier, tiers } = SECSTREAM_CONFIG.qualityTiers;
+    const requested = enabled && tierId ? tierId : defaultTier;
+
+    const tier = tiers.find(t => t.id === requested) ?? tiers.find(t => t.id === defaultTier);
+    if (!tier) {
+      throw new Error(`Default quality tier is not configured: ${defaultTier}`);
+    }
+    if (tier.id !== requested) {
+      console.warn(`⚠️ Quality tier ${requested} is not configured, using ${tier.id}`);
+    }
+    return tier;
+  }
 
-    let totalCacheHits = 0;
-    let totalCacheMisses = 0;
-    let totalFetchTime = 0;
+  /**
+   * Internal session ID of the first loaded variant of a track
+   */
+  private getLoadedSessionId(track: LazyTrack): string | undefined {
+    for (const variant of track.variants.values()) {
+      if (variant.internalSessionId) {
+        return variant.internalSessionId;
+      }
+    }
+    return undefined;
+  }
 
-    for (const key of audioKeys) {
-      const fetchStartTime = Date.now();
+  /**
+   * Embed the session's forensic watermark into a copy of the decoded audio
+   * The shared PCM in the LRU / R2 cache is never modified
+   */
+  private async watermarkForSession(sessionId: string, audioData: ArrayBuffer): Promise<ArrayBuffer> {
+    if (!SECSTREAM_CONFIG.watermark.enabled) {
+      return audioData;
+    }
 
-      // Fetch original audio
-      const originalAudio = await this.audioHandler.getAudioFromBucket(key, bucket);
+    const startTime = Date.now();
+    const watermarkId = await deriveWatermarkId(sessionId);
+    const watermarked = embedWatermark(audioData, watermarkId, SECSTREAM_CONFIG.watermark.strength);
+    console.log(`🔏 Watermark ${watermarkId} embedded for session ${sessionId} (${Date.now() - startTime}ms)`);
+    return watermarked;
+  }
 
-      // Apply PCM caching (pass bucket for R2 cache storage)
-      const cacheResult = await this.pcmCacheManager.getAudioWithCache(key, originalAudio, bucket);
-      audioBuffers.push(cacheResult.audioData);
+  /**
+   * Release a loaded track variant: its internal session, keys and watermarked copy
+   */
+  private releaseVariant(session: WorkerSession, track: LazyTrack, tierId: QualityTierId, reason: string): void {
+    const variant = track.variants.get(tierId);
+    if (!variant?.internalSessionId) {
+      return;
+    }
 
-      const fetchTime = Date.now() - fetchStartTime;
-      totalFetchTime += fetchTime;
+    session.manager.destroySession(variant.internalSessionId);
+    track.variants.delete(tierId);
+    console.log(`🧹 Released ${track.trackId} [${tierId}] (${reason})`);
+  }
 
-      if (cacheResult.fromCache) {
-        totalCacheHits++;
-        console.log(`✅ Audio loaded (PCM cache HIT): ${key} (${(cacheResult.size / 1024 / 1024).toFixed(2)} MB, ${fetchTime}ms)`);
-      } else {
-        totalCacheMisses++;
-        console.log(`✅ Audio loaded (PCM cache MISS): ${key} (${(cacheResult.size / 1024 / 1024).toFixed(2)} MB, ${fetchTime}ms)`);
+  /**
+   * Release the least recently used variants beyond sessionMaxLoadedTracks
+   * @param keep - Variant just loaded or requested, never released here
+   */
+  private enforceLoadedLimit(session: WorkerSession, keep: TrackVariant): void {
+    const loaded: { track: LazyTrack; tierId: QualityTierId; variant: TrackVariant }[] = [];
+    for (const track of session.tracks) {
+      for (const [tierId, variant] of track.variants) {
+        if (variant.internalSessionId && variant !== keep) {
+          loaded.push({ track, tierId, variant });
+        }
       }
     }
 
-    const totalSize = audioBuffers.reduce((sum, buf) => sum + buf.byteLength, 0);
-    console.log(`📊 Total audio loaded: ${(totalSize / 1024 / 1024).toFixed(2)} MB in ${totalFetchTime}ms`);
-    console.log(`📊 PCM cache stats: ${totalCacheHits} hits, ${totalCacheMisses} misses (${totalCacheHits > 0 ? ((totalCacheHits / audioKeys.length) * 100).toFixed(1) : '0'}% hit rate)`);
+    const excess = loaded.length + 1 - this.settings.sessionMaxLoadedTracks;
+    if (excess <= 0) {
+      return;
+    }
 
-    // Create SessionManager in worker memory
-    manager = new SessionManager({
-      sliceDurationMs: SECSTREAM_CONFIG.sliceDurationMs,
-      compressionLevel: SECSTREAM_CONFIG.compressionLevel,
-      prewarmSlices: SECSTREAM_CONFIG.prewarmSlices,
-      prewarmConcurrency: SECSTREAM_CONFIG.prewarmConcurrency,
-      serverCacheSize: SECSTREAM_CONFIG.serverCacheSize,
-      serverCacheTtlMs: SECSTREAM_CONFIG.serverCacheTtlMs,
-    });
+    loaded.sort((a, b) => a.variant.lastUsedAt - b.variant.lastUsedAt);
+    for (const { track, tierId } of loaded.slice(0, excess)) {
+      this.releaseVariant(session, track, tierId, `over ${this.settings.sessionMaxLoadedTracks} loaded tracks`);
+    }
+  }
 
-    // Create session in SessionManager with audio
-    let internalSessionId: string;
-    if (audioKeys.length > 1) {
-      // Multi-track session
-      const tracks = audioBuffers.map((buffer, index) => ({
-        audioData: buffer,
-        metadata: { title: `Track ${index + 1}` },
-      }));
-      internalSessionId = await manager.createMultiTrackSession(tracks);
-    } else {
-      // Single track session
-      internalSessionId = await manager.createSession(audioBuffers[0]);
+  /**
+   * Load a track's audio at a quality tier and create its internal session on first use
+   * @returns internal session ID of the track variant
+   */
+  private async ensureTrackLoaded(
+    sessionId: string,
+    session: WorkerSession,
+    track: LazyTrack,
+    tier: QualityTierSpec,
+    bucket?: R2Bucket
+  ): Promise<string> {
+    let variant = track.variants.get(tier.id);
+    if (!variant) {
+      variant = { lastUsedAt: Date.now() };
+      track.variants.set(tier.id, variant);
+    }
+    variant.lastUsedAt = Date.now();
+    if (variant.internalSessionId) {
+      return variant.internalSessionId;
     }
 
-    console.log(`✅ SessionManager created in worker (external: ${sessionId}, internal: ${internalSessionId})`);
+    if (!variant.loading) {
+      const loadingVariant = variant;
+      const loading = (async () => {
+        const fetchStartTime = Date.now();
+        const { audioData: sharedAudio, source } = await this.loadTierAudio(track.audioKey, tier, bucket);
+        const audioData = await this.watermarkForSession(sessionId, sharedAudio);
+
+        const internalSessionId = await session.manager.createSession(audioData);
+        loadingVariant.internalSessionId = internalSessionId;
+        this.tracksLoaded++;
+        this.enforceLoadedLimit(session, loadingVariant);
+
+        const cacheLabel = source === 'memory' ? 'worker memory HIT'
+          : source === 'pcm-cache' ? 'PCM cache HIT'
+          : source === 'rendered' ? 'tier rendered'
+          : 'PCM cache MISS';
+        console.log(`✅ Track loaded (${cacheLabel}): ${track.audioKey} as ${track.trackId} [${tier.id}] for session ${sessionId} (internal: ${internalSessionId}, ${(audioData.byteLength / 1024 / 1024).toFixed(2)} MB, ${Date.now() - fetchStartTime}ms)`);
+        return internalSessionId;
+      })();
+
+      // Allow a retry after a failed load
+      loading.catch(() => {
+        loadingVariant.loading = undefined;
+      });
+      variant.loading = loading;
+    }
 
-    // Store manager and session ID mapping in worker memory
-    this.sessionManagers.set(sessionId, manager);
-    this.sessionIdMapping.set(sessionId, internalSessionId);
+    return variant.loading;
+  }
 
-    return manager;
+  /**
+   * Track list for the session info (unloaded tracks only have ID and title)
+   */
+  private buildTrackList(session: WorkerSession): TrackInfo[] {
+    return session.tracks.map((track) => {
+      const loadedSessionId = this.getLoadedSessionId(track);
+      const info = loadedSessionId ? session.manager.getSessionInfo(loadedSessionId) : null;
+      return {
+        ...(info?.tracks?.[0] ?? {}),
+        trackId: track.trackId,
+        title: track.title,
+      } as TrackInfo;
+    });
+  }
+
+  /**
+   * Session info for one track, presented as the (possibly multi-track) external session
+   * Advertises the quality tiers and the tier this info was built from
+   */
+  private toExternalSessionInfo(
+    externalSessionId: string,
+    session: WorkerSession,
+    info: SessionInfo,
+    tier: QualityTierSpec
+  ): SessionInfo & QualityTierSessionInfo {
+    const tierInfo: QualityTierSessionInfo = {
+      sliceDurationMs: session.sliceDurationMs,
+      ...(SECSTREAM_CONFIG.qualityTiers.enabled
+        ? { qualityTier: tier.id, qualityTiers: describeQualityTiers(SECSTREAM_CONFIG.qualityTiers.tiers) }
+        : {}),
+    };
+
+    if (session.tracks.length === 1) {
+      return { ...info, ...tierInfo, sessionId: externalSessionId };
+    }
+
+    return {
+      ...info,
+      ...tierInfo,
+      sessionId: externalSessionId,
+      tracks: this.buildTrackList(session),
+    };
   }
 
   /**
    * Handle key exchange
    * Session metadata is retrieved from storage, but audio processing happens in worker
+   * Only the requested track is loaded, at the requested quality tier
    * @param doId - Durable Object ID (returned to client for routing)
    * @param internalSessionId - Internal session ID (used internally for SessionManager)
    */
   async handleKeyExchange<TRequestData = unknown, TResponseData = unknown>(
     doId: string,
     internalSessionId: string,
-    audioKeys: string[],
+    source: SessionSource,
     request: ProcessorKeyExchangeRequest<TRequestData>,
     bucket?: R2Bucket,
-    trackId?: string
+    trackId?: string,
+    tierId?: QualityTierId
   ): Promise<ProcessorKeyExchangeResponse<TResponseData, SessionInfo>> {
-    const manager = await this.ensureSessionManager(internalSessionId, audioKeys, bucket);
-
-    // Get the internal session ID for this external session ID
-    const storedInternalSessionId = this.sessionIdMapping.get(internalSessionId);
-    if (!storedInternalSessionId) {
-      throw new Error(`Session mapping not found for ${internalSessionId}`);
+    const session = this.ensureSession(internalSessionId, source);
+    const track = this.getTrack(session, trackId);
+    const tier = this.getTier(tierId);
+    const trackSessionId = await this.ensureTrackLoaded(internalSessionId, session, track, tier, bucket);
+
+    // Perform key exchange in worker against the track's own session
+    const response = await session.manager.handleKeyExchange<TRequestData, TResponseData>(trackSessionId, request);
+    const variant = track.variants.get(tier.id);
+    if (variant) {
+      variant.keyed = true;
     }
 
-    // Perform key exchange in worker using internal session ID
-    const response = await manager.handleKeyExchange<TRequestData, TResponseData>(storedInternalSessionId, request, trackId);
+    // The client's keys for other variants are gone: its other tiers of this track
+    // after a tier switch, and every other track too after a session-level key exchange (re-key)
+    const rekeyedTracks = trackId ? [track] : session.tracks;
+    for (const other of rekeyedTracks) {
+      for (const otherTierId of [...other.variants.keys()]) {
+        if (other !== track || otherTierId !== tier.id) {
+          this.releaseVariant(session, other, otherTierId, 'client re-keyed');
+        }
+      }
+    }
 
     // Replace internal session ID with DO ID in the response
     // so the client uses the DO ID for subsequent requests
     if (response.sessionInfo) {
-      response.sessionInfo = {
-        ...response.sessionInfo,
-        sessionId: doId, // Use DO ID for client routing
-      };
+      response.sessionInfo = this.toExternalSessionInfo(doId, session, response.sessionInfo, tier);
     }
 
-    console.log(`🔑 Key exchange completed in worker for DO ${doId} (internal: ${internalSessionId})${trackId ? ` (track: ${trackId})` : ''}`);
+    console.log(`🔑 Key exchange completed in worker for DO ${doId} (internal: ${internalSessionId}) (track: ${track.trackId}, tier: ${tier.id})`);
     return response;
   }
 
@@ -164,62 +489,75 @@ export class WorkerSessionManager {
    */
   async getSessionInfo(
     sessionId: string,
-    audioKeys: string[],
-    bucket?: R2Bucket
+    source: SessionSource,
+    bucket?: R2Bucket,
+    trackId?: string,
+    tierId?: QualityTierId
   ): Promise<SessionInfo | null> {
-    const manager = await this.ensureSessionManager(sessionId, audioKeys, bucket);
-
-    // Get the internal session ID for this external session ID
-    const internalSessionId = this.sessionIdMapping.get(sessionId);
-    if (!internalSessionId) {
-      throw new Error(`Session mapping not found for ${sessionId}`);
-    }
+    const session = this.ensureSession(sessionId, source);
+    const track = this.getTrack(session, trackId);
+    const tier = this.getTier(tierId);
+    const trackSessionId = await this.ensureTrackLoaded(sessionId, session, track, tier, bucket);
 
-    const info = manager.getSessionInfo(internalSessionId);
+    const info = session.manager.getSessionInfo(trackSessionId);
 
     console.log(`📋 Retrieved session info in worker for session ${sessionId}`);
 
     // Replace internal session ID with external session ID
-    if (info) {
-      return {
-        ...info,
-        sessionId: sessionId, // Use external session ID
-      };
-    }
-
-    return info;
+    return info ? this.toExternalSessionInfo(sessionId, session, info, tier) : info;
   }
 
   /**
    * Get encrypted audio slice
    * This is where we save the 5-second delay - slice generation happens in worker, not DO
+   *
+   * Slices are not shared across sessions yet: SessionManager (secstream ^0.2)
+   * slices, compresses and encrypts in one call from the track it was created
+   * with, and its keys never leave it, so it can't be handed a cached slice to
+   * encrypt. Until it can, the shared artefact is the decoded track PCM
+   * (isolate LRU -> edge cache -> R2 PCM cache, see loadDecodedAudio) and each
+   * session compresses its own watermarked slices.
+   *
+   * Once secstream encrypts caller-supplied slices: keep each slice's PCM once
+   * per (audioKey, tier, sliceDurationMs, index) in the Cache API / R2 and
+   * watermark it per slice as it is read, so a cache hit costs watermark +
+   * encrypt only.
+   *
+   * The tier must be the one the track was keyed at: each variant has its own keys.
+   * A variant that was never keyed here or was released since throws TRACK_NOT_KEYED,
+   * rather than loading one whose keys the client doesn't have.
    */
   async getSlice(
     sessionId: string,
-    audioKeys: string[],
+    source: SessionSource,
     sliceId: string,
-    bucket?: R2Bucket,
-    trackId?: string
+    trackId?: string,
+    tierId?: QualityTierId
   ): Promise<EncryptedSlice | null> {
     const startTime = Date.now();
 
-    const manager = await this.ensureSessionManager(sessionId, audioKeys, bucket);
+    const session = this.ensureSession(sessionId, source);
+    const track = this.getTrack(session, trackId);
+    const tier = this.getTier(tierId);
 
-    const ensureTime = Date.now() - startTime;
-    console.log(`⏱️ ensureSessionManager took ${ensureTime}ms`);
-
-    // Get the internal session ID for this external session ID
-    const internalSessionId = this.sessionIdMapping.get(sessionId);
-    if (!internalSessionId) {
-      throw new Error(`Session mapping not found for ${sessionId}`);
+    const variant = track.variants.get(tier.id);
+    if (!variant?.internalSessionId || !variant.keyed) {
+      throw new ApiError(ApiErrorCode.TRACK_NOT_KEYED, 'Track is not keyed', { trackId: track.trackId, tier: tier.id });
     }
+    variant.lastUsedAt = Date.now();
+    const trackSessionId = variant.internalSessionId;
 
-    // Generate slice in worker (no DO data transfer!) using internal session ID
+    // Generate slice in worker (no DO data transfer!) using the track's internal session ID
     const sliceStartTime = Date.now();
-    const slice = await manager.getSlice(internalSessionId, sliceId, trackId);
+    const slice = await session.manager.getSlice(trackSessionId, sliceId);
     const sliceTime = Date.now() - sliceStartTime;
 
-    console.log(`🔐 Generated slice ${sliceId} in worker for session ${sessionId}${trackId ? ` (track: ${trackId})` : ''} - slice generation: ${sliceTime}ms, total: ${Date.now() - startTime}ms`);
+    console.log(`🔐 Generated slice ${sliceId} in worker for session ${sessionId} (track: ${track.trackId}, tier: ${tier.id}) - slice generation: ${sliceTime}ms, total: ${Date.now() - startTime}ms`);
+
+    // Report the session-level track ID, not the per-track internal session's
+    if (slice && session.tracks.length > 1) {
+      return { ...slice, trackId: track.trackId };
+    }
     return slice;
   }
 
@@ -227,23 +565,70 @@ export class WorkerSessionManager {
    * Destroy session and free memory
    */
   destroySession(sessionId: string): void {
-    const manager = this.sessionManagers.get(sessionId);
-    const internalSessionId = this.sessionIdMapping.get(sessionId);
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
 
-    if (manager && internalSessionId) {
-      manager.destroySession(internalSessionId);
-      this.sessionManagers.delete(sessionId);
-      this.sessionIdMapping.delete(sessionId);
-      console.log(`🧹 Destroyed SessionManager in worker for session ${sessionId} (internal: ${internalSessionId})`);
+    for (const track of session.tracks) {
+      for (const variant of track.variants.values()) {
+        if (variant.internalSessionId) {
+          session.manager.destroySession(variant.internalSessionId);
+        }
+      }
     }
+    this.sessions.delete(sessionId);
+
+    const loadedCount = session.tracks.filter(t => this.getLoadedSessionId(t)).length;
+    console.log(`🧹 Destroyed SessionManager in worker for session ${sessionId} (${loadedCount}/${session.tracks.length} tracks loaded)`);
   }
 
   /**
    * Get statistics
    */
   getStats() {
+    let loadedTracks = 0;
+    let registeredTracks = 0;
+    const loadedVariantsByTier: Partial<Record<QualityTierId, number>> = {};
+    for (const session of this.sessions.values()) {
+      registeredTracks += session.tracks.length;
+      for (const track of session.tracks) {
+        if (this.getLoadedSessionId(track)) {
+          loadedTracks++;
+        }
+        for (const [tierId, variant] of track.variants) {
+          if (variant.internalSessionId) {
+            loadedVariantsByTier[tierId] = (loadedVariantsByTier[tierId] ?? 0) + 1;
+          }
+        }
+      }
+    }
+
     return {
-      activeSessionManagers: this.sessionManagers.size,
+      activeSessionManagers: this.sessions.size,
+      registeredTracks,
+      loadedTracks,
+      loadedVariantsByTier,
+      totalTracksLoaded: this.tracksLoaded,
+      idleEvictions: this.idleEvictions,
+      expiredEvictions: this.expiredEvictions,
+      sessionIdleTimeoutMs: this.settings.sessionIdleTimeoutMs,
+      sessionMaxAgeMs: this.settings.sessionMaxAgeMs,
+      decodedAudioCache: this.decodedAudioCache.getStats(),
     };
   }
+
+  /**
+   * PCM cache statistics (entries in R2, hit/miss timing in this isolate)
+   */
+  async getPcmCacheStats(audioKeys: string[], bucket?: R2Bucket) {
+    return await this.pcmCacheManager.getCacheStats(audioKeys, bucket);
+  }
+
+  /**
+   * Cached PCM entry for one audio file (null if not cached)
+   */
+  async getPcmCacheEntry(audioKey: string, bucket?: R2Bucket) {
+    return await this.pcmCacheManager.getCacheEntryMetadata(audioKey, bucket);
+  }
 }
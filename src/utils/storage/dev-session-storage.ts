@@ -7,63 +7,79 @@
  *
  * Features:
  * - In-memory Map storage for session metadata
- * - Automatic session expiration (2 hours)
+ * - Session expiration following the session expiry settings (absolute or sliding)
  * - Same interface as Durable Object session storage
  *
  * NOTE: This is ONLY for local development. In production, use Durable Objects.
  */
 
+import type { SessionCreationSettings, SessionLookup, SessionState } from '../../durable-objects/SecStreamSession.js';
+import { createSessionExpiry, renewSessionExpiry } from '../session/session-expiry.js';
+import type { SessionExpiry, SessionExpiryPolicy } from '../session/session-expiry.js';
+import type { SessionBinding } from '../session/session-binding.js';
+
 interface SessionMetadata {
   doId: string;
   sessionId: string;
   audioKeys: string[];
   createdAt: number;
+  expiry: SessionExpiry;
+  sliceDurationMs: number;
+  binding?: SessionBinding;
+  revokedReason?: string;
 }
 
 class DevSessionStorage {
   private sessions: Map<string, SessionMetadata> = new Map();
-  private readonly SESSION_TIMEOUT_MS = 2 * 60 * 60 * 1000; // 2 hours
 
   /**
    * Create a new session in memory
    */
-  createSession(doId: string, sessionId: string, audioKeys: string[]): void {
+  createSession(
+    doId: string,
+    sessionId: string,
+    audioKeys: string[],
+    settings: SessionCreationSettings,
+    binding?: SessionBinding
+  ): SessionExpiry {
+    const now = Date.now();
     const metadata: SessionMetadata = {
       doId,
       sessionId,
       audioKeys,
-      createdAt: Date.now(),
+      createdAt: now,
+      expiry: createSessionExpiry(now, settings.expiryPolicy),
+      sliceDurationMs: settings.sliceDurationMs,
+      binding,
     };
 
+    // Expired sessions are removed by the periodic cleanup below
     this.sessions.set(doId, metadata);
     console.log(`💾 [DEV] Created session in memory: ${doId} (internal: ${sessionId})`);
+    return metadata.expiry;
+  }
 
-    // Schedule cleanup
-    setTimeout(() => {
-      this.sessions.delete(doId);
-      console.log(`🧹 [DEV] Auto-expired session: ${doId}`);
-    }, this.SESSION_TIMEOUT_MS);
+  private isExpired(metadata: SessionMetadata, now: number = Date.now()): boolean {
+    return now >= metadata.expiry.expiresAt;
   }
 
   /**
    * Get session metadata from memory
+   * Never throws for a missing/expired/revoked session - the status says why
    */
-  getSessionMetadata(doId: string): SessionMetadata {
+  lookupSession(doId: string): SessionLookup {
+    const { status } = this.getSessionState(doId);
     const metadata = this.sessions.get(doId);
 
-    if (!metadata) {
-      throw new Error('Session not found or expired');
-    }
-
-    // Check expiration
-    const now = Date.now();
-    if (now - metadata.createdAt > this.SESSION_TIMEOUT_MS) {
-      this.sessions.delete(doId);
-      throw new Error('Session expired');
+    if (status !== 'active' || !metadata) {
+      if (status === 'expired') {
+        this.sessions.delete(doId);
+      }
+      return { status: status === 'active' ? 'not_found' : status };
     }
 
     console.log(`✅ [DEV] Retrieved session metadata from memory: ${doId}`);
-    return metadata;
+    return { status, metadata };
   }
 
   /**
@@ -77,15 +93,75 @@ class DevSessionStorage {
     }
 
     // Check expiration
-    const now = Date.now();
-    if (now - metadata.createdAt > this.SESSION_TIMEOUT_MS) {
+    if (this.isExpired(metadata)) {
       this.sessions.delete(doId);
       return false;
     }
 
+    return !metadata.revokedReason;
+  }
+
+  /**
+   * Revoke a session (kept until expiry so reuse is rejected)
+   */
+  revokeSession(doId: string, reason: string): boolean {
+    const metadata = this.sessions.get(doId);
+    if (!metadata) {
+      return false;
+    }
+
+    metadata.revokedReason = reason;
+    console.warn(`🚫 [DEV] Revoked session ${doId}: ${reason}`);
     return true;
   }
 
+  /**
+   * Report the session state without throwing
+   * @param renewPolicy - Record activity under this policy (sliding sessions extend their expiry)
+   */
+  getSessionState(doId: string, renewPolicy?: SessionExpiryPolicy): SessionState {
+    const metadata = this.sessions.get(doId);
+
+    if (!metadata) {
+      return { status: 'not_found', expiry: null };
+    }
+    if (this.isExpired(metadata)) {
+      return { status: 'expired', expiry: metadata.expiry };
+    }
+    if (metadata.revokedReason) {
+      return { status: 'revoked', expiry: metadata.expiry };
+    }
+
+    if (renewPolicy) {
+      metadata.expiry = renewSessionExpiry(metadata.expiry, Date.now(), renewPolicy) ?? metadata.expiry;
+    }
+    return { status: 'active', expiry: metadata.expiry };
+  }
+
+  /**
+   * End a session on client request
+   * @returns Internal session ID, or null if the session does not exist
+   */
+  endSession(doId: string): string | null {
+    const metadata = this.sessions.get(doId);
+    if (!metadata) {
+      return null;
+    }
+
+    this.deleteSession(doId);
+    return metadata.sessionId;
+  }
+
+  /**
+   * List sessions that have not expired, newest first
+   */
+  listSessions(): SessionMetadata[] {
+    const now = Date.now();
+    return Array.from(this.sessions.values())
+      .filter((metadata) => !this.isExpired(metadata, now))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
   /**
    * Delete a session
    */
@@ -111,7 +187,7 @@ class DevSessionStorage {
     let cleanedCount = 0;
 
     for (const [doId, metadata] of this.sessions.entries()) {
-      if (now - metadata.createdAt > this.SESSION_TIMEOUT_MS) {
+      if (this.isExpired(metadata, now)) {
         this.sessions.delete(doId);
         cleanedCount++;
       }
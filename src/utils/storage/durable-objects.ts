@@ -1,9 +1,11 @@
 import type { SecStreamSession } from '../../durable-objects/SecStreamSession.js';
+import type { SessionRegistry } from '../../durable-objects/SessionRegistry.js';
+import type { MetricsCollector } from '../../durable-objects/MetricsCollector.js';
 
 /**
  * Validate if a string is a valid Durable Object ID (64 hex digits)
  */
-function isValidDurableObjectId(id: string): boolean {
+export function isValidDurableObjectId(id: string): boolean {
   return /^[0-9a-f]{64}$/i.test(id);
 }
 
@@ -45,3 +47,30 @@ export function createSessionDO(namespace: DurableObjectNamespace): {
     sessionId,
   };
 }
+
+/**
+ * Get a session DO stub that never holds a session, for health checks
+ * @param namespace - The session DO namespace binding
+ */
+export function getHealthCheckSessionDO(namespace: DurableObjectNamespace): DurableObjectStub<SecStreamSession> {
+  const id = namespace.idFromName('health-check');
+  return namespace.get(id) as DurableObjectStub<SecStreamSession>;
+}
+
+/**
+ * Get the session registry stub (single global instance)
+ * @param namespace - The registry DO namespace binding
+ */
+export function getSessionRegistry(namespace: DurableObjectNamespace): DurableObjectStub<SessionRegistry> {
+  const id = namespace.idFromName('global');
+  return namespace.get(id) as DurableObjectStub<SessionRegistry>;
+}
+
+/**
+ * Get the metrics collector stub (single global instance)
+ * @param namespace - The metrics DO namespace binding
+ */
+export function getMetricsCollector(namespace: DurableObjectNamespace): DurableObjectStub<MetricsCollector> {
+  const id = namespace.idFromName('global');
+  return namespace.get(id) as DurableObjectStub<MetricsCollector>;
+}
@@ -9,12 +9,66 @@
  */
 
 import { devSessionStorage } from './dev-session-storage.js';
-import { createSessionDO, getSessionDO } from './durable-objects.js';
+import { createSessionDO, getSessionDO, getSessionRegistry, isValidDurableObjectId } from './durable-objects.js';
+import { ApiError, ApiErrorCode } from '../api/api-error.js';
+import { settingsService } from '../config/settings-service.js';
+import { toSessionExpiryPolicy } from '../config/settings.js';
+import type {
+  SessionCreationSettings,
+  SessionLookup,
+  SessionState,
+  SessionStatus,
+  StoredSessionMetadata as SessionMetadata,
+} from '../../durable-objects/SecStreamSession.js';
+import type { RegisteredSession } from '../../durable-objects/SessionRegistry.js';
+import type { SessionExpiry } from '../session/session-expiry.js';
+import type { SessionBinding } from '../session/session-binding.js';
 
-export interface SessionMetadata {
-  sessionId: string;
-  audioKeys: string[];
-  createdAt: number;
+export type { SessionLookup, SessionState, SessionStatus, SessionMetadata, RegisteredSession, SessionExpiry };
+
+export interface CreatedSession {
+  doId: string;  // ID the client uses for routing
+  expiry: SessionExpiry;
+  sliceDurationMs: number;
+}
+
+/**
+ * Call the session DO, reporting failures to reach it as STORAGE_UNAVAILABLE
+ */
+async function callSessionDO<T>(operation: string, call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    console.error(`❌ Session storage error during ${operation}:`, error);
+    throw new ApiError(
+      ApiErrorCode.STORAGE_UNAVAILABLE,
+      'Session storage unavailable',
+      error instanceof Error ? error.message : undefined
+    );
+  }
+}
+
+/**
+ * Run a session registry update without failing the caller
+ * The registry only serves admin listing, so errors are logged and swallowed
+ */
+function updateRegistry(
+  locals: App.Locals,
+  update: (registry: ReturnType<typeof getSessionRegistry>) => Promise<void>
+): void {
+  const namespace = locals.runtime.env.SESSION_REGISTRY;
+  if (!namespace) {
+    return;
+  }
+
+  const task = update(getSessionRegistry(namespace)).catch((error) => {
+    console.error('❌ Session registry update failed:', error);
+  });
+
+  const ctx = locals.runtime.ctx;
+  if (ctx && ctx.waitUntil) {
+    ctx.waitUntil(task);
+  }
 }
 
 /**
@@ -39,19 +93,27 @@ export function isDevMode(locals: App.Locals): boolean {
 
 /**
  * Create a new session (works in both dev and prod)
- * Returns the DO ID (or session ID in dev mode) to use for routing
+ * Returns the DO ID (or session ID in dev mode) to use for routing, and the session expiry
  */
 export async function createSession(
   sessionId: string,
   audioKeys: string[],
-  locals: App.Locals
-): Promise<string> {
+  locals: App.Locals,
+  binding?: SessionBinding
+): Promise<CreatedSession> {
+  // Fixed for the session's lifetime, so every isolate slices it the same way
+  const runtimeSettings = await settingsService.getSettings(locals);
+  const settings: SessionCreationSettings = {
+    expiryPolicy: toSessionExpiryPolicy(runtimeSettings),
+    sliceDurationMs: runtimeSettings.sliceDurationMs,
+  };
+
   if (isDevMode(locals)) {
     console.log(`🔧 [DEV MODE] Creating in-memory session: ${sessionId}`);
     // In dev mode, use the provided sessionId as the doId
-    devSessionStorage.createSession(sessionId, sessionId, audioKeys);
+    const expiry = devSessionStorage.createSession(sessionId, sessionId, audioKeys, settings, binding);
     console.log(`✅ [DEV MODE] Session created, returning ID: ${sessionId}`);
-    return sessionId;
+    return { doId: sessionId, expiry, sliceDurationMs: settings.sliceDurationMs };
   } else {
     console.log(`☁️ [PRODUCTION] Creating Durable Object session...`);
     const sessionsDO = locals.runtime.env.SECSTREAM_SESSIONS;
@@ -59,27 +121,43 @@ export async function createSession(
     const { stub: sessionDO, sessionId: doId } = createSessionDO(sessionsDO);
     console.log(`📝 Generated DO ID: ${doId} (length: ${doId.length})`);
     console.log(`📝 Internal session ID: ${sessionId}`);
-    await sessionDO.createSession(doId, sessionId, audioKeys);
+    const expiry = await sessionDO.createSession(doId, sessionId, audioKeys, settings, binding);
+
+    // Sliding sessions may end earlier; the registry prunes by the hard cap
+    updateRegistry(locals, (registry) => registry.register({
+      doId,
+      trackCount: audioKeys.length,
+      createdAt: Date.now(),
+      expiresAt: expiry.maxExpiresAt,
+    }));
+
     console.log(`✅ [PRODUCTION] Session created, returning DO ID: ${doId}`);
-    return doId;
+    return { doId, expiry, sliceDurationMs: settings.sliceDurationMs };
   }
 }
 
 /**
- * Get session metadata (works in both dev and prod)
+ * Look up session metadata (works in both dev and prod)
+ * Missing, expired and revoked sessions are reported through `status`;
+ * throws ApiError(STORAGE_UNAVAILABLE) only if storage cannot be reached
  */
-export async function getSessionMetadata(
+export async function lookupSession(
   doId: string,
   locals: App.Locals
-): Promise<SessionMetadata> {
+): Promise<SessionLookup> {
   if (isDevMode(locals)) {
     console.log('🔧 [DEV MODE] Fetching from in-memory storage');
-    return devSessionStorage.getSessionMetadata(doId);
+    return devSessionStorage.lookupSession(doId);
   } else {
+    // Malformed IDs cannot name a session DO
+    if (!isValidDurableObjectId(doId)) {
+      return { status: 'not_found' };
+    }
+
     console.log('☁️ [PRODUCTION] Fetching from Durable Object');
     const sessionsDO = locals.runtime.env.SECSTREAM_SESSIONS;
     const sessionDO = getSessionDO(sessionsDO, doId);
-    return await sessionDO.getSessionMetadata(doId);
+    return await callSessionDO('lookup', async (): Promise<SessionLookup> => await sessionDO.lookupSession(doId));
   }
 }
 
@@ -100,3 +178,100 @@ export async function validateSession(
     return await sessionDO.validateSession(doId);
   }
 }
+
+/**
+ * Revoke a session (works in both dev and prod)
+ * @returns false if the session does not exist or already expired
+ */
+export async function revokeSession(
+  doId: string,
+  reason: string,
+  locals: App.Locals
+): Promise<boolean> {
+  if (isDevMode(locals)) {
+    console.log('🔧 [DEV MODE] Revoking in memory');
+    return devSessionStorage.revokeSession(doId, reason);
+  } else {
+    console.log('☁️ [PRODUCTION] Revoking in Durable Object');
+    const sessionsDO = locals.runtime.env.SECSTREAM_SESSIONS;
+    const sessionDO = getSessionDO(sessionsDO, doId);
+    const revoked = await sessionDO.revokeSession(doId, reason);
+    if (revoked) {
+      updateRegistry(locals, (registry) => registry.markRevoked(doId, reason));
+    }
+    return revoked;
+  }
+}
+
+/**
+ * Get the session state without throwing (works in both dev and prod)
+ * @param renew - Record activity, extending sliding sessions
+ */
+export async function getSessionState(
+  doId: string,
+  locals: App.Locals,
+  renew: boolean = false
+): Promise<SessionState> {
+  // Renewals follow the current settings (the session's mode and cap were fixed at creation)
+  const renewPolicy = renew ? toSessionExpiryPolicy(await settingsService.getSettings(locals)) : undefined;
+
+  if (isDevMode(locals)) {
+    return devSessionStorage.getSessionState(doId, renewPolicy);
+  } else {
+    if (!isValidDurableObjectId(doId)) {
+      return { status: 'not_found', expiry: null };
+    }
+
+    const sessionsDO = locals.runtime.env.SECSTREAM_SESSIONS;
+    const sessionDO = getSessionDO(sessionsDO, doId);
+    return await callSessionDO('state check', () => sessionDO.getSessionState(doId, renewPolicy));
+  }
+}
+
+/**
+ * End a session on client request and clear its storage (works in both dev and prod)
+ * @returns Internal session ID, or null if the session does not exist
+ */
+export async function endSession(
+  doId: string,
+  locals: App.Locals
+): Promise<string | null> {
+  if (isDevMode(locals)) {
+    console.log('🔧 [DEV MODE] Ending session in memory');
+    return devSessionStorage.endSession(doId);
+  } else {
+    console.log('☁️ [PRODUCTION] Ending session in Durable Object');
+    if (!isValidDurableObjectId(doId)) {
+      return null;
+    }
+
+    const sessionsDO = locals.runtime.env.SECSTREAM_SESSIONS;
+    const sessionDO = getSessionDO(sessionsDO, doId);
+    const sessionId = await callSessionDO('teardown', () => sessionDO.endSession(doId));
+    updateRegistry(locals, (registry) => registry.unregister(doId));
+    return sessionId;
+  }
+}
+
+/**
+ * List live sessions (works in both dev and prod)
+ * Production reads the session registry, which is empty if it is not bound
+ */
+export async function listSessions(locals: App.Locals): Promise<RegisteredSession[]> {
+  if (isDevMode(locals)) {
+    return devSessionStorage.listSessions().map((metadata) => ({
+      doId: metadata.doId,
+      trackCount: metadata.audioKeys.length,
+      createdAt: metadata.createdAt,
+      expiresAt: metadata.expiry.expiresAt,
+      revokedReason: metadata.revokedReason,
+    }));
+  } else {
+    const namespace = locals.runtime.env.SESSION_REGISTRY;
+    if (!namespace) {
+      console.warn('⚠️ SESSION_REGISTRY binding missing, cannot list sessions');
+      return [];
+    }
+    return await getSessionRegistry(namespace).list();
+  }
+}
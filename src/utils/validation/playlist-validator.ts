@@ -1,33 +1,41 @@
-import { AUDIO_PLAYLIST } from '../../constants/playlist';
+import type { AudioTrack } from '../../constants/playlist';
+
+/**
+ * Validation against the track catalog
+ * Callers pass the published tracks from catalogService.getVisibleTracks()
+ */
 
 /**
  * Validate if an audio key is in the allowed playlist
  * @param audioKey - The audio file key (e.g., "audio/guide_line.mp3")
+ * @param tracks - Published catalog tracks
  * @returns true if the audio key is allowed, false otherwise
  */
-export function isValidAudioKey(audioKey: string): boolean {
-  return AUDIO_PLAYLIST.some(track => track.audioKey === audioKey);
+export function isValidAudioKey(audioKey: string, tracks: AudioTrack[]): boolean {
+  return tracks.some(track => track.audioKey === audioKey);
 }
 
 /**
  * Validate if a cover key is in the allowed playlist
  * @param coverKey - The cover image key (e.g., "cover/falling_flowers.png")
+ * @param tracks - Published catalog tracks
  * @returns true if the cover key is allowed, false otherwise
  */
-export function isValidCoverKey(coverKey: string): boolean {
-  return AUDIO_PLAYLIST.some(track => track.coverKey === coverKey);
+export function isValidCoverKey(coverKey: string, tracks: AudioTrack[]): boolean {
+  return tracks.some(track => track.coverKey === coverKey);
 }
 
 /**
  * Validate multiple audio keys
  * @param audioKeys - Array of audio file keys
+ * @param tracks - Published catalog tracks
  * @returns Object with valid status and invalid keys if any
  */
-export function validateAudioKeys(audioKeys: string[]): {
+export function validateAudioKeys(audioKeys: string[], tracks: AudioTrack[]): {
   valid: boolean;
   invalidKeys: string[];
 } {
-  const invalidKeys = audioKeys.filter(key => !isValidAudioKey(key));
+  const invalidKeys = audioKeys.filter(key => !isValidAudioKey(key, tracks));
   return {
     valid: invalidKeys.length === 0,
     invalidKeys,
@@ -36,18 +44,29 @@ export function validateAudioKeys(audioKeys: string[]): {
 
 /**
  * Get all valid audio keys from the playlist
+ * @param tracks - Published catalog tracks
  * @returns Array of all allowed audio keys
  */
-export function getAllowedAudioKeys(): string[] {
-  return AUDIO_PLAYLIST.map(track => track.audioKey);
+export function getAllowedAudioKeys(tracks: AudioTrack[]): string[] {
+  return tracks.map(track => track.audioKey);
 }
 
 /**
  * Get all valid cover keys from the playlist
+ * @param tracks - Published catalog tracks
  * @returns Array of all allowed cover keys
  */
-export function getAllowedCoverKeys(): string[] {
-  return AUDIO_PLAYLIST
+export function getAllowedCoverKeys(tracks: AudioTrack[]): string[] {
+  return tracks
     .filter(track => track.coverKey)
     .map(track => track.coverKey!);
 }
+
+/**
+ * Find the catalog track whose cover key ends with the given filename
+ * @param filename - Cover filename from the URL (e.g., "falling_flowers.png")
+ * @param tracks - Published catalog tracks
+ */
+export function findTrackByCoverFilename(filename: string, tracks: AudioTrack[]): AudioTrack | undefined {
+  return tracks.find(track => track.coverKey?.endsWith(filename));
+}
@@ -2,6 +2,9 @@ import type { SSRManifest } from 'astro';
 import { App } from 'astro/app';
 import { handle } from '@astrojs/cloudflare/handler';
 import { SecStreamSession } from './durable-objects/SecStreamSession';
+import { RateLimiter } from './durable-objects/RateLimiter';
+import { SessionRegistry } from './durable-objects/SessionRegistry';
+import { MetricsCollector } from './durable-objects/MetricsCollector';
 
 export function createExports(manifest: SSRManifest) {
   const app = new App(manifest);
@@ -13,5 +16,8 @@ export function createExports(manifest: SSRManifest) {
       }
     } satisfies ExportedHandler<Env>,
     SecStreamSession,
+    RateLimiter,
+    SessionRegistry,
+    MetricsCollector,
   };
 }
@@ -4,11 +4,14 @@
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./dist/_worker.js/index");
-		durableNamespaces: "SecStreamSession";
+		durableNamespaces: "SecStreamSession" | "RateLimiter" | "SessionRegistry" | "MetricsCollector";
 	}
 	interface Env {
 		RATE_LIMIT_KV: KVNamespace;
 		SECSTREAM_SESSIONS: DurableObjectNamespace /* SecStreamSession from messlines-artist-page */;
+		RATE_LIMITER: DurableObjectNamespace /* RateLimiter from messlines-artist-page */;
+		SESSION_REGISTRY: DurableObjectNamespace /* SessionRegistry from messlines-artist-page */;
+		METRICS_COLLECTOR: DurableObjectNamespace /* MetricsCollector from messlines-artist-page */;
 		AUDIO_BUCKET: R2Bucket;
 		ASSETS: Fetcher;
 	}